@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_SCREENSHOT_OPTIONS } from "@/lib/screenshot-options";
+import { type CaptureCommand, CliError, parseCommand } from "./args";
+
+const ENV = { SCREENSHOTONE_ACCESS_KEY: "env-key" };
+
+function parseCapture(
+  args: string[],
+  env: Record<string, string | undefined> = ENV
+): CaptureCommand {
+  const command = parseCommand(["capture", ...args], env);
+  if (command.command !== "capture") {
+    throw new Error(`Parsed a ${command.command} command`);
+  }
+  return command;
+}
+
+describe("parseCommand", () => {
+  it("reads URLs, options and keys for a capture", () => {
+    const command = parseCapture([
+      "example.com",
+      "--width",
+      "1280",
+      "-f",
+      "jpeg",
+      "--viewport-only",
+      "--block-ads",
+    ]);
+    expect(command.urls).toEqual(["https://example.com"]);
+    expect(command.inputFile).toBe(null);
+    expect(command.options).toEqual({
+      ...DEFAULT_SCREENSHOT_OPTIONS,
+      viewportWidth: "1280",
+      format: "jpeg",
+      fullPage: false,
+      blockAds: true,
+    });
+    expect(command.provider.id).toBe("screenshotone");
+    expect(command.accessKey).toBe("env-key");
+    expect(command.outDir).toBe(".");
+  });
+
+  it("shows the help without a command", () => {
+    expect(parseCommand([], ENV)).toEqual({ command: "help" });
+    expect(parseCommand(["capture", "--help"], ENV)).toEqual({
+      command: "help",
+    });
+  });
+
+  it("refuses non-numeric and negative numbers", () => {
+    for (const [flag, value] of [
+      ["width", "wide"],
+      ["section-height", ""],
+      ["delay", "-1"],
+      ["scale", "Infinity"],
+    ]) {
+      expect(() => parseCapture(["example.com", `--${flag}=${value}`])).toThrow(
+        `--${flag} must be a number`
+      );
+    }
+  });
+
+  it("takes URLs from --input, with or without others", () => {
+    const fromFile = parseCapture(["--input", "urls.txt"]);
+    expect(fromFile.urls).toEqual([]);
+    expect(fromFile.inputFile).toBe("urls.txt");
+
+    const both = parseCapture(["example.com", "-i", "sitemap.xml"]);
+    expect(both.urls).toEqual(["https://example.com"]);
+    expect(both.inputFile).toBe("sitemap.xml");
+  });
+
+  it("asks for a URL or --input", () => {
+    expect(() => parseCapture([])).toThrow("Give at least one URL");
+  });
+
+  it("turns the element flags off", () => {
+    const element = parseCapture(["example.com", "--selector", "#pricing"]);
+    expect(element.options.selectorScrollIntoView).toBe(true);
+    expect(element.options.selectorRequired).toBe(true);
+
+    const lenient = parseCapture([
+      "example.com",
+      "--selector",
+      "#pricing",
+      "--no-scroll-into-view",
+      "--allow-missing-selector",
+    ]);
+    expect(lenient.options.selectorScrollIntoView).toBe(false);
+    expect(lenient.options.selectorRequired).toBe(false);
+  });
+
+  it("refuses what the provider can't capture", () => {
+    const env = { APIFLASH_ACCESS_KEY: "key" };
+    expect(() =>
+      parseCapture(["example.com", "-p", "apiflash", "--selector", "p"], env)
+    ).toThrow("single element");
+    expect(() =>
+      parseCapture(["example.com", "-p", "apiflash", "-d", "ipad"], env)
+    ).toThrow("no named devices");
+  });
+
+  it("refuses unknown flags, commands, devices and missing keys", () => {
+    for (const argv of [
+      ["capture", "example.com", "--colour", "red"],
+      ["snap", "example.com"],
+      ["capture", "example.com", "--device", "fridge"],
+      ["capture", "not a url"],
+    ]) {
+      expect(() => parseCommand(argv, ENV)).toThrow(CliError);
+    }
+    expect(() => parseCapture(["example.com"], {})).toThrow(
+      "No ScreenshotOne access key"
+    );
+  });
+});
+
+describe("screenshotgun", () => {
+  afterEach(() => {
+    process.exitCode = undefined;
+    vi.restoreAllMocks();
+  });
+
+  it("exits with 2 on bad arguments", async () => {
+    const argv = process.argv;
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {
+      // Keep the test output quiet
+    });
+    process.argv = [argv[0], "screenshotgun", "capture", "--width", "wide"];
+    try {
+      // Running the entry point parses process.argv straight away
+      await import("./index");
+      await vi.waitFor(() => {
+        if (process.exitCode === undefined) {
+          throw new Error("The CLI hasn't finished");
+        }
+      });
+    } finally {
+      process.argv = argv;
+    }
+    expect(process.exitCode).toBe(2);
+    expect(errors).toHaveBeenCalledWith(
+      'screenshotgun: --width must be a number, got "wide"'
+    );
+  });
+});
@@ -0,0 +1,302 @@
+import { parseArgs } from "node:util";
+import { clampConcurrency, DEFAULT_BATCH_CONCURRENCY } from "@/lib/batch";
+import { screenshotOptionsShape } from "@/lib/options-schema";
+import {
+  DEFAULT_PROVIDER_ID,
+  findUnsupportedOption,
+  getProvider,
+  isProviderId,
+  type ProviderId,
+  type ScreenshotProvider,
+} from "@/lib/providers";
+import {
+  DEFAULT_SCREENSHOT_OPTIONS,
+  DEVICE_PRESETS,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+import { isValidUrl, normalizeUrl } from "@/lib/url";
+
+export const HELP_TEXT = `Usage: screenshotgun capture <url...> [options]
+       screenshotgun devices
+
+Capture full pages and split them into sections, named like the web app's
+downloads (example-29-06-2025-section-1.png).
+
+Options:
+  -i, --input <file>         Read URLs from a file: one per line, or a sitemap.xml
+  -o, --out <dir>            Where to write sections (default: .)
+  -d, --device <name>        Device preset, e.g. iphone_15_pro (see "devices")
+  -s, --scale <n>            Device scale factor
+      --width <px>           Viewport width (default: ${DEFAULT_SCREENSHOT_OPTIONS.viewportWidth})
+      --height <px>          Viewport height (default: ${DEFAULT_SCREENSHOT_OPTIONS.viewportHeight})
+  -f, --format <format>      png, jpeg, webp, pdf, gif or mp4 (default: png)
+      --section-height <px>  Section height (default: ${DEFAULT_SCREENSHOT_OPTIONS.sectionHeight})
+      --overlap <px>         Pixels shared by consecutive sections (default: 0)
+      --split-at-whitespace  Move cuts up to the nearest blank row
+      --quality <1-100>      JPEG and WebP quality (default: ${DEFAULT_SCREENSHOT_OPTIONS.imageQuality})
+      --viewport-only        Capture the viewport instead of the full page
+      --selector <css>       Capture one element, e.g. "#pricing" (split like a page)
+      --no-scroll-into-view  Don't scroll to the element before capturing it
+      --allow-missing-selector
+                             Capture the page when nothing matches --selector
+      --block-ads            Block ads
+      --block-cookie-banners Block cookie banners
+      --timeout <s>          Capture timeout (default: ${DEFAULT_SCREENSHOT_OPTIONS.timeout})
+      --delay <s>            Wait before capturing (default: 0)
+      --wait-until <event>   load, domcontentloaded, networkidle0 or networkidle2
+  -p, --provider <id>        screenshotone or apiflash (default: ${DEFAULT_PROVIDER_ID})
+  -c, --concurrency <n>      Captures at once for several URLs (default: ${DEFAULT_BATCH_CONCURRENCY})
+      --access-key <key>     Provider access key (default: from the environment)
+      --secret-key <key>     Secret key; signs requests when given
+  -h, --help                 Show this help
+
+Keys are read from the same variables as the Worker's secrets:
+SCREENSHOTONE_ACCESS_KEY, SCREENSHOTONE_SECRET_KEY and APIFLASH_ACCESS_KEY.`;
+
+const FLAGS = {
+  input: { type: "string", short: "i" },
+  out: { type: "string", short: "o", default: "." },
+  device: { type: "string", short: "d" },
+  scale: { type: "string", short: "s" },
+  width: { type: "string" },
+  height: { type: "string" },
+  format: { type: "string", short: "f" },
+  "section-height": { type: "string" },
+  overlap: { type: "string" },
+  "split-at-whitespace": { type: "boolean" },
+  quality: { type: "string" },
+  "viewport-only": { type: "boolean" },
+  selector: { type: "string" },
+  "no-scroll-into-view": { type: "boolean" },
+  "allow-missing-selector": { type: "boolean" },
+  "block-ads": { type: "boolean" },
+  "block-cookie-banners": { type: "boolean" },
+  timeout: { type: "string" },
+  delay: { type: "string" },
+  "wait-until": { type: "string" },
+  provider: { type: "string", short: "p" },
+  concurrency: { type: "string", short: "c" },
+  "access-key": { type: "string" },
+  "secret-key": { type: "string" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+// Flags that set a string option, by option name
+const OPTION_FLAGS = {
+  device: "devicePreset",
+  scale: "deviceScaleFactor",
+  width: "viewportWidth",
+  height: "viewportHeight",
+  format: "format",
+  "section-height": "sectionHeight",
+  overlap: "sectionOverlap",
+  quality: "imageQuality",
+  timeout: "timeout",
+  delay: "delay",
+  "wait-until": "waitUntil",
+  selector: "selector",
+} as const satisfies Partial<
+  Record<keyof typeof FLAGS, keyof ScreenshotOptions>
+>;
+
+// Flags that switch a boolean option on
+const SWITCH_FLAGS = {
+  "split-at-whitespace": "splitAtWhitespace",
+  "block-ads": "blockAds",
+  "block-cookie-banners": "blockCookieBanners",
+} as const satisfies Partial<
+  Record<keyof typeof FLAGS, keyof ScreenshotOptions>
+>;
+
+// Flags that switch a boolean option off
+const UNSET_FLAGS = {
+  "viewport-only": "fullPage",
+  "no-scroll-into-view": "selectorScrollIntoView",
+  "allow-missing-selector": "selectorRequired",
+} as const satisfies Partial<
+  Record<keyof typeof FLAGS, keyof ScreenshotOptions>
+>;
+
+// Flags whose value must be a number
+const NUMERIC_FLAGS: (keyof typeof OPTION_FLAGS)[] = [
+  "scale",
+  "width",
+  "height",
+  "section-height",
+  "overlap",
+  "quality",
+  "timeout",
+  "delay",
+];
+
+// Same names as the Worker's secrets, so one .dev.vars-style setup works
+// for both
+const KEY_VARIABLES: Record<ProviderId, { access: string; secret?: string }> = {
+  screenshotone: {
+    access: "SCREENSHOTONE_ACCESS_KEY",
+    secret: "SCREENSHOTONE_SECRET_KEY",
+  },
+  apiflash: { access: "APIFLASH_ACCESS_KEY" },
+};
+
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+export interface CaptureCommand {
+  command: "capture";
+  urls: string[];
+  // File of URLs to add to `urls`, read by the caller
+  inputFile: string | null;
+  options: ScreenshotOptions;
+  provider: ScreenshotProvider;
+  accessKey: string;
+  secretKey: string;
+  outDir: string;
+  concurrency: number;
+}
+
+export type Command =
+  | CaptureCommand
+  | { command: "devices" }
+  | { command: "help" };
+
+type ParsedArgs = ReturnType<
+  typeof parseArgs<{ options: typeof FLAGS; allowPositionals: true }>
+>;
+
+function isNonNegativeNumber(value: string): boolean {
+  const number = Number(value);
+  return value.trim() !== "" && Number.isFinite(number) && number >= 0;
+}
+
+function buildOptions(values: ParsedArgs["values"]): ScreenshotOptions {
+  const options: ScreenshotOptions = { ...DEFAULT_SCREENSHOT_OPTIONS };
+
+  for (const [flag, key] of Object.entries(OPTION_FLAGS)) {
+    const value = values[flag as keyof typeof OPTION_FLAGS];
+    if (value === undefined) {
+      continue;
+    }
+    if (
+      NUMERIC_FLAGS.includes(flag as keyof typeof OPTION_FLAGS) &&
+      !isNonNegativeNumber(value)
+    ) {
+      throw new CliError(`--${flag} must be a number, got "${value}"`);
+    }
+    const result = screenshotOptionsShape[key].safeParse(value);
+    if (!result.success) {
+      throw new CliError(`--${flag}: ${result.error.issues[0].message}`);
+    }
+    Object.assign(options, { [key]: result.data });
+  }
+  for (const [flag, key] of Object.entries(SWITCH_FLAGS)) {
+    if (values[flag as keyof typeof SWITCH_FLAGS]) {
+      options[key] = true;
+    }
+  }
+  for (const [flag, key] of Object.entries(UNSET_FLAGS)) {
+    if (values[flag as keyof typeof UNSET_FLAGS]) {
+      options[key] = false;
+    }
+  }
+
+  if (!DEVICE_PRESETS.some((preset) => preset.value === options.devicePreset)) {
+    throw new CliError(
+      `Unknown device "${options.devicePreset}"; run "screenshotgun devices" to list them`
+    );
+  }
+  return options;
+}
+
+function parseUrls(positionals: string[]): string[] {
+  const invalid = positionals.find((url) => !isValidUrl(url));
+  if (invalid) {
+    throw new CliError(`Not a valid URL: ${invalid}`);
+  }
+  return positionals.map(normalizeUrl);
+}
+
+function resolveProvider(id: string | undefined): ScreenshotProvider {
+  const providerId = id ?? DEFAULT_PROVIDER_ID;
+  if (!isProviderId(providerId)) {
+    throw new CliError(`Unknown provider "${providerId}"`);
+  }
+  return getProvider(providerId);
+}
+
+// Keys from the flags, falling back to the environment
+function resolveKeys(
+  provider: ScreenshotProvider,
+  values: ParsedArgs["values"],
+  env: Record<string, string | undefined>
+) {
+  const variables = KEY_VARIABLES[provider.id];
+  const accessKey = values["access-key"] ?? env[variables.access] ?? "";
+  if (!accessKey) {
+    throw new CliError(
+      `No ${provider.name} access key. Set ${variables.access} or pass --access-key.`
+    );
+  }
+  const secretKey =
+    values["secret-key"] ?? (variables.secret && env[variables.secret]) ?? "";
+  return { accessKey, secretKey };
+}
+
+function parseCaptureCommand(
+  { values, positionals }: ParsedArgs,
+  env: Record<string, string | undefined>
+): CaptureCommand {
+  const provider = resolveProvider(values.provider);
+  const options = buildOptions(values);
+  const unsupported = findUnsupportedOption(provider, options);
+  if (unsupported) {
+    throw new CliError(unsupported);
+  }
+
+  const urls = parseUrls(positionals.slice(1));
+  const inputFile = values.input ?? null;
+  if (urls.length === 0 && !inputFile) {
+    throw new CliError("Give at least one URL, or a file of URLs with --input");
+  }
+
+  return {
+    command: "capture",
+    urls,
+    inputFile,
+    options,
+    provider,
+    ...resolveKeys(provider, values, env),
+    outDir: values.out,
+    concurrency: clampConcurrency(values.concurrency ?? ""),
+  };
+}
+
+// Turn command-line arguments into a command, reading keys from `env` when
+// they aren't passed. Throws a CliError for anything invalid.
+export function parseCommand(
+  argv: string[],
+  env: Record<string, string | undefined>
+): Command {
+  let parsed: ParsedArgs;
+  try {
+    parsed = parseArgs({ args: argv, options: FLAGS, allowPositionals: true });
+  } catch (error) {
+    throw new CliError(error instanceof Error ? error.message : String(error));
+  }
+  const [command] = parsed.positionals;
+
+  if (parsed.values.help || !command || command === "help") {
+    return { command: "help" };
+  }
+  if (command === "devices") {
+    return { command: "devices" };
+  }
+  if (command !== "capture") {
+    throw new CliError(`Unknown command "${command}"`);
+  }
+  return parseCaptureCommand(parsed, env);
+}
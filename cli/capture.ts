@@ -0,0 +1,153 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { buildSectionFilename } from "@/lib/filenames";
+import { explainFailedResponse } from "@/lib/providers";
+import {
+  type CaptureAttempt,
+  classifyStatus,
+  DEFAULT_RETRY_POLICY,
+  describeAttempt,
+  type FailureKind,
+  getRetryDelay,
+  isTransient,
+  parseRetryAfter,
+  wait,
+} from "@/lib/retry";
+import { isSplitCapture } from "@/lib/screenshot-options";
+import { getSectionEncoding, getSplitSettings, splitPixels } from "@/lib/split";
+import type { CaptureCommand } from "./args";
+import { decodeImage, encodeImage } from "./codec";
+
+export interface CaptureResult {
+  url: string;
+  // Paths of the sections written
+  files: string[];
+  error: string | null;
+}
+
+interface FailedRequest {
+  kind: FailureKind;
+  status: number | null;
+  message: string;
+  retryAfterMs: number | null;
+}
+
+// Call the provider directly with the command's keys; like the Worker's
+// proxy, but without one in between
+async function sendCaptureRequest(
+  url: string,
+  { options, provider, accessKey, secretKey }: CaptureCommand
+): Promise<Response | FailedRequest> {
+  let apiUrl = provider.buildRequestUrl(url, accessKey, options);
+  if (secretKey && provider.signRequestUrl) {
+    apiUrl = await provider.signRequestUrl(apiUrl, secretKey);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(apiUrl);
+  } catch {
+    return {
+      kind: "network",
+      status: null,
+      message: `Couldn't reach ${provider.name}`,
+      retryAfterMs: null,
+    };
+  }
+  if (response.ok) {
+    return response;
+  }
+
+  const { message, hint } = await explainFailedResponse(
+    provider,
+    response,
+    options
+  );
+  return {
+    kind: classifyStatus(response.status),
+    status: response.status,
+    message: hint ? `${message}. ${hint}` : message,
+    retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+  };
+}
+
+// Fetch a capture, retrying transient failures with the app's backoff.
+// Throws with every attempt listed once it gives up.
+async function requestCapture(
+  url: string,
+  command: CaptureCommand
+): Promise<ArrayBuffer> {
+  const attempts: CaptureAttempt[] = [];
+  for (let attempt = 1; ; attempt += 1) {
+    const result = await sendCaptureRequest(url, command);
+    if (result instanceof Response) {
+      return result.arrayBuffer();
+    }
+
+    const retryDelayMs =
+      isTransient(result.kind) && attempt < DEFAULT_RETRY_POLICY.maxAttempts
+        ? getRetryDelay(attempt, result.retryAfterMs)
+        : null;
+    attempts.push({
+      attempt,
+      kind: result.kind,
+      status: result.status,
+      retryDelayMs,
+    });
+    if (retryDelayMs === null) {
+      const history =
+        attempts.length > 1
+          ? `\n  ${attempts.map(describeAttempt).join("\n  ")}`
+          : "";
+      throw new Error(`${result.message}${history}`);
+    }
+    await wait(retryDelayMs);
+  }
+}
+
+// Capture one page and write its sections to the output directory. Pages
+// of a batch get their path in the filename, as in the app.
+export async function captureToDisk(
+  url: string,
+  command: CaptureCommand,
+  isBatch: boolean
+): Promise<CaptureResult> {
+  const { options, outDir } = command;
+  const write = async (data: ArrayBuffer, index: number) => {
+    const filename = buildSectionFilename(url, options.format, index, {
+      includePath: isBatch,
+    });
+    const path = join(outDir, filename);
+    await writeFile(path, new Uint8Array(data));
+    return path;
+  };
+
+  try {
+    const data = await requestCapture(url, command);
+    await mkdir(outDir, { recursive: true });
+    // Only full-page and element PNG/JPEG/WebP shots are split, like
+    // splitCapture
+    if (!isSplitCapture(options)) {
+      return { url, files: [await write(data, 1)], error: null };
+    }
+
+    const image = await decodeImage(data, options.format);
+    const { quality } = getSectionEncoding(options);
+    const files = await splitPixels(
+      image,
+      getSplitSettings(options),
+      async (section) =>
+        write(
+          await encodeImage(section.image, options.format, quality),
+          section.index
+        )
+    );
+    return { url, files, error: null };
+  } catch (error) {
+    return {
+      url,
+      files: [],
+      error: error instanceof Error ? error.message : "Capture failed",
+    };
+  }
+}
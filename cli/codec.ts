@@ -0,0 +1,10 @@
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { CODEC_WASM_PATHS, createImageCodecs } from "@/lib/image-codecs";
+
+const { resolve } = createRequire(import.meta.url);
+
+// Node and Bun compile the codecs' .wasm files from node_modules on first use
+export const { decodeImage, encodeImage } = createImageCodecs(async (name) =>
+  WebAssembly.compile(await readFile(resolve(CODEC_WASM_PATHS[name])))
+);
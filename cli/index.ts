@@ -0,0 +1,77 @@
+import { readFile } from "node:fs/promises";
+import { parseUrlList, runWithConcurrency } from "@/lib/batch";
+import { DEVICE_PRESETS } from "@/lib/screenshot-options";
+import { type CaptureCommand, CliError, HELP_TEXT, parseCommand } from "./args";
+import { captureToDisk } from "./capture";
+
+// screenshotgun: capture and split pages from the command line, with the
+// web app's options, splitting and file naming
+
+async function readUrlFile(path: string): Promise<string[]> {
+  try {
+    return parseUrlList(await readFile(path, "utf8"));
+  } catch {
+    throw new CliError(`Couldn't read ${path}`);
+  }
+}
+
+// Capture every URL, printing each result as it finishes. Returns whether
+// all of them succeeded.
+async function runCapture(command: CaptureCommand): Promise<boolean> {
+  const fromFile = command.inputFile
+    ? await readUrlFile(command.inputFile)
+    : [];
+  const urls = Array.from(new Set([...command.urls, ...fromFile]));
+  if (urls.length === 0) {
+    throw new CliError(`No valid URLs in ${command.inputFile}`);
+  }
+
+  let failed = 0;
+  await runWithConcurrency(urls, command.concurrency, async (url) => {
+    const result = await captureToDisk(url, command, urls.length > 1);
+    if (result.error) {
+      failed += 1;
+      console.error(`✗ ${url}: ${result.error}`);
+      return;
+    }
+    const count =
+      result.files.length === 1 ? "1 file" : `${result.files.length} files`;
+    console.log(`✓ ${url} (${count})`);
+    for (const file of result.files) {
+      console.log(`  ${file}`);
+    }
+  });
+
+  if (urls.length > 1) {
+    console.log(`${urls.length - failed} of ${urls.length} pages captured`);
+  }
+  return failed === 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const command = parseCommand(argv, process.env);
+  if (command.command === "help") {
+    console.log(HELP_TEXT);
+    return 0;
+  }
+  if (command.command === "devices") {
+    for (const preset of DEVICE_PRESETS) {
+      console.log(`${preset.value.padEnd(26)}${preset.label}`);
+    }
+    return 0;
+  }
+  return (await runCapture(command)) ? 0 : 1;
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error: unknown) => {
+    if (error instanceof CliError) {
+      console.error(`screenshotgun: ${error.message}`);
+      process.exitCode = 2;
+      return;
+    }
+    throw error;
+  });
@@ -0,0 +1,209 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PluginMessage, StackSection, UiMessage } from "./messages";
+
+// Just enough of the plugin API for code.ts, recording what it was asked for
+
+interface FakeNode {
+  name: string;
+  width: number;
+  height: number;
+  fills: unknown[];
+}
+
+interface FakeFrame extends FakeNode {
+  x: number;
+  y: number;
+  layoutMode: string;
+  itemSpacing: number;
+  children: FakeNode[];
+}
+
+function createFakeFigma(stored: unknown) {
+  const frames: FakeFrame[] = [];
+  const posted: PluginMessage[] = [];
+  const saved = new Map<string, unknown>();
+  const ui: { onmessage?: (message: UiMessage) => Promise<void> } = {};
+  let images = 0;
+
+  const figma = {
+    showUI: vi.fn(),
+    notify: vi.fn(),
+    ui: Object.assign(ui, {
+      postMessage: (message: PluginMessage) => posted.push(message),
+    }),
+    clientStorage: {
+      getAsync: () => Promise.resolve(stored),
+      setAsync: (key: string, value: unknown) => {
+        saved.set(key, value);
+        return Promise.resolve();
+      },
+    },
+    createImage: (bytes: Uint8Array) => {
+      if (bytes.length === 0) {
+        throw new Error("Image is empty");
+      }
+      images += 1;
+      return { hash: `image-${images}` };
+    },
+    createRectangle: (): FakeNode & {
+      resize: (width: number, height: number) => void;
+    } => ({
+      name: "",
+      width: 100,
+      height: 100,
+      fills: [],
+      resize(width, height) {
+        this.width = width;
+        this.height = height;
+      },
+    }),
+    createFrame: () => {
+      const frame: FakeFrame = {
+        name: "",
+        x: 0,
+        y: 0,
+        // Auto-layout hugs the widest child
+        get width() {
+          return Math.max(0, ...frame.children.map((child) => child.width));
+        },
+        height: 0,
+        fills: [{ type: "SOLID" }],
+        layoutMode: "NONE",
+        itemSpacing: 0,
+        children: [],
+        appendChild(child: FakeNode) {
+          frame.children.push(child);
+        },
+      } as FakeFrame;
+      frames.push(frame);
+      return frame;
+    },
+    viewport: {
+      center: { x: 1000, y: 400 },
+      scrollAndZoomIntoView: vi.fn(),
+    },
+    currentPage: { selection: [] as unknown[] },
+  };
+
+  return { figma, frames, posted, saved, ui };
+}
+
+function section(index: number, width = 1200, height = 4096): StackSection {
+  return { index, bytes: new Uint8Array([index]), width, height };
+}
+
+async function loadPlugin(stored?: unknown) {
+  const fake = createFakeFigma(stored);
+  vi.stubGlobal("figma", fake.figma);
+  vi.stubGlobal("__html__", "<p>ui</p>");
+  vi.resetModules();
+  await import("./code");
+  // Let the stored settings load
+  await Promise.resolve();
+  const send = (message: UiMessage) => {
+    if (!fake.ui.onmessage) {
+      throw new Error("The plugin didn't listen for messages");
+    }
+    return fake.ui.onmessage(message);
+  };
+  return { ...fake, send };
+}
+
+describe("Figma plugin code", () => {
+  beforeEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("shows the UI and sends it the stored settings", async () => {
+    const settings = {
+      serverUrl: "https://shots.example.com",
+      accessKey: "",
+      apiToken: "",
+    };
+    const { figma, posted } = await loadPlugin(settings);
+    expect(figma.showUI).toHaveBeenCalledWith("<p>ui</p>", expect.anything());
+    expect(posted).toEqual([{ type: "settings", settings }]);
+  });
+
+  it("sends null settings on the first run", async () => {
+    const { posted } = await loadPlugin();
+    expect(posted).toEqual([{ type: "settings", settings: null }]);
+  });
+
+  it("remembers settings the UI saves", async () => {
+    const { saved, send } = await loadPlugin();
+    const settings = {
+      serverUrl: "https://shots.example.com",
+      accessKey: "k",
+      apiToken: "",
+    };
+    await send({ type: "save-settings", settings });
+    expect(saved.get("settings")).toEqual(settings);
+  });
+
+  it("stacks the sections in a vertical auto-layout frame", async () => {
+    const { figma, frames, posted, send } = await loadPlugin();
+    await send({
+      type: "create-stack",
+      name: "example-29-06-2025",
+      overlap: 40,
+      sections: [section(1), section(2), section(3, 1200, 1000)],
+    });
+
+    expect(frames).toHaveLength(1);
+    const [frame] = frames;
+    expect(frame).toMatchObject({
+      name: "example-29-06-2025",
+      layoutMode: "VERTICAL",
+      itemSpacing: -40,
+      fills: [],
+      x: 400,
+      y: 400,
+    });
+    expect(
+      frame.children.map(({ name, width, height, fills }) => ({
+        name,
+        width,
+        height,
+        fills,
+      }))
+    ).toEqual([
+      {
+        name: "section-1",
+        width: 1200,
+        height: 4096,
+        fills: [{ type: "IMAGE", imageHash: "image-1", scaleMode: "FILL" }],
+      },
+      {
+        name: "section-2",
+        width: 1200,
+        height: 4096,
+        fills: [{ type: "IMAGE", imageHash: "image-2", scaleMode: "FILL" }],
+      },
+      {
+        name: "section-3",
+        width: 1200,
+        height: 1000,
+        fills: [{ type: "IMAGE", imageHash: "image-3", scaleMode: "FILL" }],
+      },
+    ]);
+    expect(figma.currentPage.selection).toEqual([frame]);
+    expect(figma.viewport.scrollAndZoomIntoView).toHaveBeenCalledWith([frame]);
+    expect(figma.notify).toHaveBeenCalledWith("Added example-29-06-2025");
+    expect(posted.at(-1)).toEqual({
+      type: "stack-created",
+      name: "example-29-06-2025",
+    });
+  });
+
+  it("reports sections Figma can't take", async () => {
+    const { posted, send } = await loadPlugin();
+    await send({
+      type: "create-stack",
+      name: "example",
+      overlap: 0,
+      sections: [{ ...section(1), bytes: new Uint8Array(0) }],
+    });
+    expect(posted.at(-1)).toEqual({ type: "error", message: "Image is empty" });
+  });
+});
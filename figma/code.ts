@@ -0,0 +1,78 @@
+import type {
+  PluginMessage,
+  PluginSettings,
+  StackSection,
+  UiMessage,
+} from "./messages";
+
+// Runs in Figma's sandbox: turns the sections captured by the UI into a
+// frame of image fills
+
+const SETTINGS_KEY = "settings";
+
+function post(message: PluginMessage) {
+  figma.ui.postMessage(message);
+}
+
+function createSectionNode(section: StackSection): RectangleNode {
+  const rect = figma.createRectangle();
+  rect.name = `section-${section.index}`;
+  rect.resize(section.width, section.height);
+  rect.fills = [
+    {
+      type: "IMAGE",
+      imageHash: figma.createImage(section.bytes).hash,
+      scaleMode: "FILL",
+    },
+  ];
+  return rect;
+}
+
+// Stack the sections top to bottom in a vertical auto-layout frame. Negative
+// spacing lays overlapping sections back over each other, so the frame shows
+// the page as captured.
+function createStack(name: string, overlap: number, sections: StackSection[]) {
+  const frame = figma.createFrame();
+  frame.name = name;
+  frame.layoutMode = "VERTICAL";
+  frame.primaryAxisSizingMode = "AUTO";
+  frame.counterAxisSizingMode = "AUTO";
+  frame.itemSpacing = -overlap;
+  frame.fills = [];
+  for (const section of sections) {
+    frame.appendChild(createSectionNode(section));
+  }
+
+  const { x, y } = figma.viewport.center;
+  frame.x = Math.round(x - frame.width / 2);
+  frame.y = Math.round(y);
+  figma.currentPage.selection = [frame];
+  figma.viewport.scrollAndZoomIntoView([frame]);
+}
+
+async function handleMessage(message: UiMessage) {
+  if (message.type === "save-settings") {
+    await figma.clientStorage.setAsync(SETTINGS_KEY, message.settings);
+    return;
+  }
+  try {
+    createStack(message.name, message.overlap, message.sections);
+    figma.notify(`Added ${message.name}`);
+    post({ type: "stack-created", name: message.name });
+  } catch (error) {
+    post({
+      type: "error",
+      message:
+        error instanceof Error ? error.message : "Couldn't add the sections",
+    });
+  }
+}
+
+figma.showUI(__html__, { width: 320, height: 510, themeColors: true });
+figma.ui.onmessage = (message: UiMessage) => handleMessage(message);
+
+figma.clientStorage
+  .getAsync(SETTINGS_KEY)
+  .then((settings: PluginSettings | undefined) =>
+    post({ type: "settings", settings: settings ?? null })
+  );
@@ -0,0 +1,34 @@
+// Messages passed between the plugin code, which edits the document, and
+// its UI iframe, which does the capturing and splitting
+
+// Remembered between runs with figma.clientStorage
+export interface PluginSettings {
+  serverUrl: string;
+  accessKey: string;
+  // The deployment's API token, to capture with its keys instead
+  apiToken: string;
+}
+
+export interface StackSection {
+  index: number;
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Sent by the UI
+export type UiMessage =
+  | { type: "save-settings"; settings: PluginSettings }
+  | {
+      type: "create-stack";
+      name: string;
+      // Pixels shared by consecutive sections
+      overlap: number;
+      sections: StackSection[];
+    };
+
+// Sent by the plugin code
+export type PluginMessage =
+  | { type: "settings"; settings: PluginSettings | null }
+  | { type: "stack-created"; name: string }
+  | { type: "error"; message: string };
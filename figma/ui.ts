@@ -0,0 +1,215 @@
+import {
+  CaptureError,
+  describeProgress,
+  isAbortError,
+  requestScreenshot,
+  revokeSections,
+  splitOnMainThread,
+} from "@/lib/capture";
+import { buildFilenamePrefix } from "@/lib/filenames";
+import { DEFAULT_PROVIDER_ID } from "@/lib/providers";
+import {
+  DEFAULT_SCREENSHOT_OPTIONS,
+  DEVICE_PRESETS,
+  type ScreenshotFormat,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+import {
+  getSectionEncoding,
+  getSplitSettings,
+  MIN_SECTION_HEIGHT,
+} from "@/lib/split";
+import { isValidUrl, normalizeUrl } from "@/lib/url";
+import type {
+  PluginMessage,
+  PluginSettings,
+  StackSection,
+  UiMessage,
+} from "./messages";
+
+// Runs in the plugin's iframe: captures through the Worker and splits the
+// page with the web app's code, then hands the sections to the plugin code
+
+// Figma scales image fills larger than this down, so sections stay within it
+const FIGMA_MAX_IMAGE_SIZE = 4096;
+
+function getElement<T extends HTMLElement>(id: string): T {
+  return document.getElementById(id) as T;
+}
+
+const form = getElement<HTMLFormElement>("form");
+const urlInput = getElement<HTMLInputElement>("url");
+const selectorInput = getElement<HTMLInputElement>("selector");
+const deviceSelect = getElement<HTMLSelectElement>("device");
+const formatSelect = getElement<HTMLSelectElement>("format");
+const sectionHeightInput = getElement<HTMLInputElement>("section-height");
+const whitespaceInput = getElement<HTMLInputElement>("split-at-whitespace");
+const serverUrlInput = getElement<HTMLInputElement>("server-url");
+const accessKeyInput = getElement<HTMLInputElement>("access-key");
+const apiTokenInput = getElement<HTMLInputElement>("api-token");
+const captureButton = getElement<HTMLButtonElement>("capture");
+const cancelButton = getElement<HTMLButtonElement>("cancel");
+const status = getElement<HTMLParagraphElement>("status");
+
+let controller: AbortController | null = null;
+
+function post(message: UiMessage) {
+  parent.postMessage({ pluginMessage: message }, "*");
+}
+
+function setStatus(text: string, isError = false) {
+  status.textContent = text;
+  status.classList.toggle("error", isError);
+}
+
+function setBusy(busy: boolean) {
+  captureButton.disabled = busy;
+  cancelButton.disabled = !busy;
+}
+
+function readOptions(): ScreenshotOptions {
+  const sectionHeight = Math.min(
+    Math.max(Number(sectionHeightInput.value), MIN_SECTION_HEIGHT),
+    FIGMA_MAX_IMAGE_SIZE
+  );
+  return {
+    ...DEFAULT_SCREENSHOT_OPTIONS,
+    devicePreset: deviceSelect.value,
+    selector: selectorInput.value.trim(),
+    format: formatSelect.value as ScreenshotFormat,
+    sectionHeight: String(sectionHeight),
+    splitAtWhitespace: whitespaceInput.checked,
+  };
+}
+
+function readSettings(): PluginSettings {
+  return {
+    serverUrl: normalizeUrl(serverUrlInput.value.trim()),
+    accessKey: accessKeyInput.value.trim(),
+    apiToken: apiTokenInput.value.trim(),
+  };
+}
+
+async function toStackSections(blob: Blob, options: ScreenshotOptions) {
+  const sections = await splitOnMainThread(blob, {
+    settings: getSplitSettings(options),
+    encoding: getSectionEncoding(options),
+  });
+  try {
+    const width = sections[0]?.width ?? 0;
+    if (width > FIGMA_MAX_IMAGE_SIZE) {
+      throw new Error(
+        `The capture is ${width}px wide, more than Figma's ${FIGMA_MAX_IMAGE_SIZE}px image limit. Pick a narrower device or viewport.`
+      );
+    }
+    return await Promise.all(
+      sections.map(
+        async ({ blob: section, index, width = 0, height = 0 }) =>
+          ({
+            index,
+            bytes: new Uint8Array(await section.arrayBuffer()),
+            width,
+            height,
+          }) satisfies StackSection
+      )
+    );
+  } finally {
+    revokeSections(sections);
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof CaptureError && error.hint) {
+    return `${error.message}. ${error.hint}`;
+  }
+  return error instanceof Error ? error.message : "Capture failed";
+}
+
+async function capture() {
+  const url = urlInput.value.trim();
+  if (!isValidUrl(url)) {
+    setStatus("Enter a valid URL", true);
+    return;
+  }
+  const settings = readSettings();
+  if (!isValidUrl(settings.serverUrl)) {
+    setStatus("Enter the URL of your Screenshotgun deployment", true);
+    return;
+  }
+  post({ type: "save-settings", settings });
+
+  const options = readOptions();
+  controller = new AbortController();
+  setBusy(true);
+  try {
+    const blob = await requestScreenshot(
+      url,
+      options,
+      {
+        provider: DEFAULT_PROVIDER_ID,
+        apiKey: settings.accessKey,
+        secretKey: "",
+        signedRequests: false,
+        serverUrl: settings.serverUrl,
+        apiToken: settings.apiToken,
+      },
+      {
+        onProgress: (progress) => setStatus(describeProgress(progress)),
+        signal: controller.signal,
+      }
+    );
+    setStatus("Splitting...");
+    const sections = await toStackSections(blob, options);
+    setStatus("Adding to the page...");
+    post({
+      type: "create-stack",
+      name: buildFilenamePrefix(url),
+      overlap: getSplitSettings(options).overlap,
+      sections,
+    });
+  } catch (error) {
+    setBusy(false);
+    setStatus(
+      isAbortError(error) ? "Capture cancelled" : describeError(error),
+      !isAbortError(error)
+    );
+  } finally {
+    controller = null;
+  }
+}
+
+function handleMessage(message: PluginMessage) {
+  if (message.type === "settings") {
+    serverUrlInput.value = message.settings?.serverUrl ?? "";
+    accessKeyInput.value = message.settings?.accessKey ?? "";
+    // Missing from settings saved before the token was asked for
+    apiTokenInput.value = message.settings?.apiToken ?? "";
+    return;
+  }
+  setBusy(false);
+  if (message.type === "stack-created") {
+    setStatus(`Added ${message.name}`);
+  } else {
+    setStatus(message.message, true);
+  }
+}
+
+for (const preset of DEVICE_PRESETS) {
+  deviceSelect.add(new Option(preset.label, preset.value));
+}
+deviceSelect.value = DEFAULT_SCREENSHOT_OPTIONS.devicePreset;
+sectionHeightInput.value = DEFAULT_SCREENSHOT_OPTIONS.sectionHeight;
+
+form.addEventListener("submit", (event) => {
+  event.preventDefault();
+  capture();
+});
+cancelButton.addEventListener("click", () => controller?.abort());
+window.addEventListener(
+  "message",
+  (event: MessageEvent<{ pluginMessage?: PluginMessage }>) => {
+    if (event.data.pluginMessage) {
+      handleMessage(event.data.pluginMessage);
+    }
+  }
+);
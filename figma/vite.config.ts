@@ -0,0 +1,21 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vite";
+import { viteSingleFile } from "vite-plugin-singlefile";
+
+// Figma loads a plugin's UI from a single HTML file, so the script is
+// inlined rather than emitted alongside it
+export default defineConfig({
+  root: fileURLToPath(new URL(".", import.meta.url)),
+  plugins: [viteSingleFile()],
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("../src", import.meta.url)),
+    },
+  },
+  build: {
+    outDir: "dist",
+    rollupOptions: {
+      input: fileURLToPath(new URL("ui.html", import.meta.url)),
+    },
+  },
+});
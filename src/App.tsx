@@ -1,24 +1,25 @@
 import confetti from "canvas-confetti";
-import {
-  AlertCircle,
-  Camera,
-  CheckCircle,
-  ChevronDown,
-  Download,
-  Loader2,
-  Settings,
-} from "lucide-react";
+import { CheckCircle } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
+import { AdvancedOptions } from "@/components/AdvancedOptions";
+import { ApiKeySettings } from "@/components/ApiKeySettings";
+import { BatchResults } from "@/components/BatchResults";
+import { BatchUrlInput } from "@/components/BatchUrlInput";
+import { CaptureErrorAlert } from "@/components/CaptureErrorAlert";
+import { CaptureHistory } from "@/components/CaptureHistory";
+import { CompareView } from "@/components/CompareView";
+import { CopyButton } from "@/components/CopyButton";
+import { DeviceMatrixInput } from "@/components/DeviceMatrixInput";
+import { DeviceMatrixResults } from "@/components/DeviceMatrixResults";
+import { DownloadActions } from "@/components/DownloadActions";
+import { PresetControls } from "@/components/PresetControls";
+import { ScheduledJobs } from "@/components/ScheduledJobs";
+import { SectionGallery } from "@/components/SectionGallery";
+import { SitemapCrawler } from "@/components/SitemapCrawler";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { UrlInput } from "@/components/UrlInput";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import {
-  Collapsible,
-  CollapsibleContent,
-  CollapsibleTrigger,
-} from "@/components/ui/collapsible";
-import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import {
   Select,
@@ -27,116 +28,205 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Switch } from "@/components/ui/switch";
+import { type BatchJob, useBatchCapture } from "@/hooks/useBatchCapture";
+import { useCaptureHistory } from "@/hooks/useCaptureHistory";
+import { useCredentials } from "@/hooks/useCredentials";
+import { useMatrixDevices } from "@/hooks/useMatrixDevices";
+import { readPermalink, usePermalinkSync } from "@/hooks/usePermalink";
+import { loadDefaultPresetOptions, usePresets } from "@/hooks/usePresets";
+import { useUserDevices } from "@/hooks/useUserDevices";
+import { clampConcurrency, DEFAULT_BATCH_CONCURRENCY } from "@/lib/batch";
+import {
+  CaptureError,
+  type CaptureInfo,
+  type CaptureProgress,
+  captureScreenshot,
+  createSection,
+  isAbortError,
+  revokeSections,
+  type ScreenshotSection,
+} from "@/lib/capture";
+import { applyDevice, isNamedDevice, listDeviceChoices } from "@/lib/devices";
+import { downloadFile } from "@/lib/download";
+import {
+  buildFilenamePrefix,
+  buildSectionFilename,
+  getFileExtension,
+} from "@/lib/filenames";
+import type { HistoryEntry } from "@/lib/history";
+import { getCaptureFileUrl } from "@/lib/jobs-api";
 import ProfileImage from "@/lib/pfp.jpg";
+import {
+  getProvider,
+  type ProviderId,
+  type SuggestedFix,
+} from "@/lib/providers";
+import type { JobRun, RunCapture } from "@/lib/schedules";
+import {
+  DEFAULT_SCREENSHOT_OPTIONS,
+  isRasterFormat,
+  isSplitCapture,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
 import ScreenshotgunLogo from "@/lib/screenshotgun-logo.svg";
-
-interface ScreenshotSection {
-  dataUrl: string;
-  index: number;
-}
+import { isValidUrl, normalizeUrl } from "@/lib/url";
+
+type CaptureMode = "single" | "devices" | "batch" | "sitemap";
+
+const CAPTURE_MODES: Record<
+  CaptureMode,
+  { label: string; inputLabel: string; inputId: string }
+> = {
+  single: { label: "Single URL", inputLabel: "Website URL", inputId: "url" },
+  devices: {
+    label: "Device matrix",
+    inputLabel: "Website URL",
+    inputId: "matrix-url",
+  },
+  batch: {
+    label: "URL list",
+    inputLabel: "Website URLs",
+    inputId: "batch-urls",
+  },
+  sitemap: {
+    label: "Sitemap crawl",
+    inputLabel: "Website or sitemap URL",
+    inputId: "sitemap-url",
+  },
+};
 
 interface ScreenshotState {
   isLoading: boolean;
   sections: ScreenshotSection[];
   error: string | null;
+  // Details behind `error` when a capture failed: hints, a suggested fix
+  // and the attempts made
+  failure: CaptureError | null;
   success: string | null;
 }
 
-interface ScreenshotOptions {
-  format: "png" | "jpeg" | "webp" | "pdf" | "gif" | "mp4";
-  fullPage: boolean;
-  viewportWidth: string;
-  viewportHeight: string;
-  devicePreset: string;
-  blockAds: boolean;
-  blockCookieBanners: boolean;
-  timeout: string;
-  cache: boolean;
-  deviceScaleFactor: string;
-  delay: string;
-  enableAnimatedCapture: boolean;
-  animationDuration: string;
-  scrollDelay: string;
-  waitUntil: string;
-  preScroll: boolean;
-  scrollStrategy: "simple" | "progressive" | "custom";
-  progressiveScrollSteps: string;
-  customScrollScript: string;
+function describeCapture(
+  sections: ScreenshotSection[],
+  options: ScreenshotOptions
+): string {
+  if (!isSplitCapture(options)) {
+    return `Screenshot captured successfully! Click to download ${options.format.toUpperCase()} file.`;
+  }
+  return sections.length > 1
+    ? `Screenshot captured and split into ${sections.length} sections!`
+    : "Screenshot captured successfully!";
 }
 
-const DEVICE_PRESETS = [
-  { value: "custom", label: "Custom viewport" },
-  { value: "ipad_pro", label: "iPad Pro (Desktop-like)" },
-  { value: "ipad_pro_landscape", label: "iPad Pro Landscape" },
-  { value: "ipad", label: "iPad" },
-  { value: "ipad_landscape", label: "iPad Landscape" },
-  { value: "iphone_15_pro", label: "iPhone 15 Pro" },
-  { value: "iphone_15_pro_landscape", label: "iPhone 15 Pro Landscape" },
-  { value: "iphone_14", label: "iPhone 14" },
-  { value: "iphone_14_landscape", label: "iPhone 14 Landscape" },
-  { value: "galaxy_s8", label: "Galaxy S8" },
-  { value: "galaxy_s8_landscape", label: "Galaxy S8 Landscape" },
-  { value: "pixel_5", label: "Pixel 5" },
-  { value: "pixel_5_landscape", label: "Pixel 5 Landscape" },
-];
+// Message for a failed capture; null when the user cancelled it
+function getCaptureError(error: unknown): string | null {
+  if (isAbortError(error)) {
+    return null;
+  }
+  return error instanceof Error ? error.message : "Failed to take screenshot";
+}
+
+// A selector the provider can't use, since it doesn't capture elements
+function hasStaleSelector(
+  options: ScreenshotOptions,
+  provider: ProviderId
+): boolean {
+  return (
+    options.selector.trim() !== "" &&
+    !getProvider(provider).capabilities.elementCapture
+  );
+}
 
-// Top-level regex for better performance
-const WWW_REGEX = /^www\./;
+// A named device the provider can't emulate, so it would capture its
+// default viewport instead
+function hasStaleDevice(
+  options: ScreenshotOptions,
+  provider: ProviderId
+): boolean {
+  return (
+    isNamedDevice(options.devicePreset) &&
+    !getProvider(provider).capabilities.devicePresets
+  );
+}
 
 function App() {
-  const [url, setUrl] = useState("");
-  const [apiKey, setApiKey] = useState("");
-  const [advancedOpen, setAdvancedOpen] = useState(false);
-  const [options, setOptions] = useState<ScreenshotOptions>({
-    format: "png",
-    fullPage: true,
-    viewportWidth: "1920",
-    viewportHeight: "1080",
-    devicePreset: "custom",
-    blockAds: false,
-    blockCookieBanners: false,
-    timeout: "60",
-    cache: false,
-    deviceScaleFactor: "1",
-    delay: "0",
-    enableAnimatedCapture: false,
-    animationDuration: "5",
-    scrollDelay: "500",
-    waitUntil: "load",
-    preScroll: false,
-    scrollStrategy: "simple",
-    progressiveScrollSteps: "10",
-    customScrollScript: "",
-  });
+  // A shared link sets the form; otherwise start from the default preset
+  const [permalink] = useState(readPermalink);
+  const [url, setUrl] = useState(permalink?.url ?? "");
+  const [options, setOptions] = useState<ScreenshotOptions>(() =>
+    permalink
+      ? { ...DEFAULT_SCREENSHOT_OPTIONS, ...permalink.options }
+      : (loadDefaultPresetOptions() ?? DEFAULT_SCREENSHOT_OPTIONS)
+  );
+  usePermalinkSync(url, options);
   const [screenshot, setScreenshot] = useState<ScreenshotState>({
     isLoading: false,
     sections: [],
     error: null,
+    failure: null,
     success: null,
   });
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-
-  // Load API key from localStorage on mount
+  // URL and options of the current sections, so downloads stay consistent
+  // if the inputs are edited after capturing
+  const [captureInfo, setCaptureInfo] = useState<CaptureInfo | null>(null);
+  const [captureProgress, setCaptureProgress] =
+    useState<CaptureProgress | null>(null);
+  const [captureStartedAt, setCaptureStartedAt] = useState<number | null>(null);
+  // Aborts the single capture in flight, if any
+  const captureControllerRef = useRef<AbortController | null>(null);
+  const [captureMode, setCaptureMode] = useState<CaptureMode>("single");
+  const [batchInput, setBatchInput] = useState("");
+  const [batchConcurrency, setBatchConcurrency] = useState(
+    DEFAULT_BATCH_CONCURRENCY.toString()
+  );
+  const {
+    items: batchItems,
+    isRunning: isBatchRunning,
+    runBatch,
+    cancelBatch,
+    clearBatch,
+  } = useBatchCapture();
+  // Whether the last run was a list of pages or one page on many devices
+  const [batchView, setBatchView] = useState<"pages" | "devices">("pages");
+  const userDevices = useUserDevices();
+  const {
+    credentials,
+    handleProviderChange,
+    handleApiKeyChange,
+    handleSecretKeyChange,
+    handleSignedRequestsChange,
+  } = useCredentials();
+  // The matrix only offers devices the provider can emulate
+  const deviceChoices = listDeviceChoices(
+    userDevices.devices,
+    getProvider(credentials.provider).capabilities.devicePresets
+  );
+  const matrix = useMatrixDevices(deviceChoices.map((choice) => choice.value));
+  const history = useCaptureHistory();
+  const presets = usePresets();
+
+  // The selector field is hidden for providers that can't capture elements,
+  // so drop one left over from another provider, a link or a preset rather
+  // than send it (and split the capture as an element)
+  const staleSelector = hasStaleSelector(options, credentials.provider);
   useEffect(() => {
-    const savedApiKey = localStorage.getItem("screenshotgun-api-key");
-    if (savedApiKey) {
-      setApiKey(savedApiKey);
-    } else {
-      // Fallback to env variable if no saved key
-      setApiKey(import.meta.env.VITE_SCREENSHOT_API_KEY || "");
+    if (staleSelector) {
+      setOptions((prev) => ({ ...prev, selector: "" }));
     }
-  }, []);
+  }, [staleSelector]);
 
-  // Save API key to localStorage whenever it changes
-  const handleApiKeyChange = (value: string) => {
-    setApiKey(value);
-    if (value.trim()) {
-      localStorage.setItem("screenshotgun-api-key", value);
-    } else {
-      localStorage.removeItem("screenshotgun-api-key");
+  // Likewise the named devices are disabled for providers without them, so
+  // fall back to the custom viewport
+  const staleDevice = hasStaleDevice(options, credentials.provider);
+  useEffect(() => {
+    if (staleDevice) {
+      setOptions((prev) => ({ ...prev, devicePreset: "custom" }));
     }
-  };
+  }, [staleDevice]);
+
+  // Release the previous sections' object URLs once they are replaced, and
+  // the current ones when the app unmounts
+  const currentSections = screenshot.sections;
+  useEffect(() => () => revokeSections(currentSections), [currentSections]);
 
   // Trigger confetti animation
   const triggerConfetti = () => {
@@ -173,93 +263,13 @@ function App() {
     }, 250);
   };
 
-  // Validate URL format
-  const isValidUrl = (urlString: string): boolean => {
-    try {
-      const urlObj = new URL(
-        urlString.startsWith("http") ? urlString : `https://${urlString}`
-      );
-      return urlObj.protocol === "http:" || urlObj.protocol === "https:";
-    } catch {
-      return false;
-    }
-  };
-
-  // Extract root domain from URL for file naming
-  const extractRootDomain = (urlString: string): string => {
-    try {
-      const urlObj = new URL(
-        urlString.startsWith("http") ? urlString : `https://${urlString}`
-      );
-      return urlObj.hostname.replace(WWW_REGEX, "");
-    } catch {
-      return "website";
-    }
-  };
-
-  // Format current date as DD-MM-YYYY
-  const getCurrentDate = (): string => {
-    const now = new Date();
-    const day = now.getDate().toString().padStart(2, "0");
-    const month = (now.getMonth() + 1).toString().padStart(2, "0");
-    const year = now.getFullYear();
-    return `${day}-${month}-${year}`;
-  };
-
-  // Split image into sections with max height of 4096px
-  const splitImage = (img: HTMLImageElement): ScreenshotSection[] => {
-    const canvas = canvasRef.current;
-    if (!canvas) {
-      return [];
-    }
-
-    const ctx = canvas.getContext("2d");
-    if (!ctx) {
-      return [];
-    }
-
-    const maxHeight = 4096;
-    const sections: ScreenshotSection[] = [];
-    const totalSections = Math.ceil(img.height / maxHeight);
-
-    for (let i = 0; i < totalSections; i++) {
-      const startY = i * maxHeight;
-      const sectionHeight = Math.min(maxHeight, img.height - startY);
-
-      // Set canvas dimensions for this section
-      canvas.width = img.width;
-      canvas.height = sectionHeight;
-
-      // Clear canvas and draw the section
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(
-        img,
-        0,
-        startY,
-        img.width,
-        sectionHeight, // source
-        0,
-        0,
-        img.width,
-        sectionHeight // destination
-      );
-
-      // Convert to data URL
-      const dataUrl = canvas.toDataURL("image/png", 1.0);
-      sections.push({ dataUrl, index: i + 1 });
-    }
-
-    return sections;
-  };
-
-  // Download a single file
-  const downloadFile = (dataUrl: string, filename: string) => {
-    const link = document.createElement("a");
-    link.href = dataUrl;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // Download a single section
+  const downloadSection = (section: ScreenshotSection) => {
+    const info = captureInfo ?? { url, options };
+    downloadFile(
+      section.objectUrl,
+      buildSectionFilename(info.url, info.options.format, section.index)
+    );
   };
 
   // Download all sections
@@ -268,18 +278,21 @@ function App() {
       return;
     }
 
-    const rootDomain = extractRootDomain(url);
-    const date = getCurrentDate();
-    const extension = options.format === "jpeg" ? "jpg" : options.format;
-
     for (const section of screenshot.sections) {
-      const filename = `${rootDomain}-${date}-section-${section.index}.${extension}`;
-      downloadFile(section.dataUrl, filename);
+      downloadSection(section);
     }
 
+    showDownloadSuccess(
+      `Downloaded ${screenshot.sections.length} sections successfully!`
+    );
+  };
+
+  const showDownloadSuccess = (message: string) => {
     setScreenshot((prev) => ({
       ...prev,
-      success: `Downloaded ${screenshot.sections.length} sections successfully!`,
+      error: null,
+      failure: null,
+      success: message,
     }));
 
     // Clear success message after 3 seconds
@@ -294,348 +307,252 @@ function App() {
     value: ScreenshotOptions[K]
   ) => {
     setOptions((prev) => ({ ...prev, [key]: value }));
+  };
 
-    // Reset viewport when device preset is selected
-    if (key === "devicePreset" && value) {
-      // For actual device presets, the API handles the viewport automatically
-      // For 'custom', keep the current viewport values
-      // No need to manually set viewport dimensions for real device presets
-    }
+  const changeDevice = (value: string, devices = userDevices.devices) => {
+    setOptions((prev) => applyDevice(prev, value, devices));
   };
 
-  // Generate scroll script based on strategy
-  const generateScrollScript = (scrollOptions: ScreenshotOptions): string => {
-    if (!scrollOptions.preScroll) {
-      return "";
+  // Take screenshot through the Worker proxy at /api/screenshot. Options
+  // can be passed in when they were just changed and state isn't updated yet.
+  const takeScreenshot = async (captureOptions = options) => {
+    if (!isValidUrl(url)) {
+      setScreenshot((prev) => ({
+        ...prev,
+        failure: null,
+        error:
+          "Please enter a valid URL (e.g., https://example.com or example.com)",
+      }));
+      return;
     }
 
-    if (scrollOptions.scrollStrategy === "simple") {
-      return `
-        // Simple scroll through page
-        const scrollHeight = document.documentElement.scrollHeight;
-        const viewportHeight = window.innerHeight;
-        const scrollSteps = Math.ceil(scrollHeight / viewportHeight);
-        
-        for (let i = 0; i < scrollSteps; i++) {
-          window.scrollTo(0, i * viewportHeight);
-          await new Promise(resolve => setTimeout(resolve, 300));
-        }
-        
-        window.scrollTo(0, 0);
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      `;
-    }
+    clearBatch();
+    setScreenshot({
+      isLoading: true,
+      sections: [],
+      error: null,
+      failure: null,
+      success: null,
+    });
+    const controller = new AbortController();
+    captureControllerRef.current = controller;
+    setCaptureStartedAt(Date.now());
 
-    if (scrollOptions.scrollStrategy === "progressive") {
-      const steps =
-        Number.parseInt(scrollOptions.progressiveScrollSteps, 10) || 10;
-      return `
-        // Progressive scroll with multiple pause points for scroll-driven content
-        const scrollHeight = document.documentElement.scrollHeight;
-        const viewportHeight = window.innerHeight;
-        const totalSteps = ${steps};
-        
-        // Scroll down progressively with longer pauses
-        for (let i = 0; i <= totalSteps; i++) {
-          const scrollPosition = (scrollHeight * i) / totalSteps;
-          window.scrollTo(0, scrollPosition);
-          
-          // Longer pause at each step to let scroll-driven animations complete
-          await new Promise(resolve => setTimeout(resolve, 800));
-          
-          // Extra pause at quarter, half, three-quarter, and full scroll positions
-          if (i === Math.floor(totalSteps * 0.25) || 
-              i === Math.floor(totalSteps * 0.5) || 
-              i === Math.floor(totalSteps * 0.75) || 
-              i === totalSteps) {
-            await new Promise(resolve => setTimeout(resolve, 1500));
-          }
+    try {
+      const sections = await captureScreenshot(
+        url,
+        captureOptions,
+        credentials,
+        {
+          onProgress: setCaptureProgress,
+          signal: controller.signal,
         }
-        
-        // Go back to top and wait for final state
-        window.scrollTo(0, 0);
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      `;
-    }
-
-    if (
-      scrollOptions.scrollStrategy === "custom" &&
-      scrollOptions.customScrollScript
-    ) {
-      return scrollOptions.customScrollScript;
-    }
-
-    return "";
-  };
-
-  // Set viewport parameters
-  const setViewportParams = (
-    apiUrl: URL,
-    screenshotOptions: ScreenshotOptions
-  ) => {
-    if (
-      screenshotOptions.devicePreset &&
-      screenshotOptions.devicePreset !== "custom"
-    ) {
-      apiUrl.searchParams.set(
-        "viewport_device",
-        screenshotOptions.devicePreset
       );
-    } else {
-      apiUrl.searchParams.set(
-        "viewport_width",
-        screenshotOptions.viewportWidth
-      );
-      if (screenshotOptions.viewportHeight) {
-        apiUrl.searchParams.set(
-          "viewport_height",
-          screenshotOptions.viewportHeight
+      const info = {
+        url,
+        options: captureOptions,
+        capturedAt: new Date().toISOString(),
+      };
+      setCaptureInfo(info);
+      history.addCapture(info, sections);
+      setScreenshot({
+        isLoading: false,
+        sections,
+        error: null,
+        failure: null,
+        success: describeCapture(sections, captureOptions),
+      });
+      // Trigger confetti animation
+      triggerConfetti();
+
+      // Auto-download for non-image formats
+      if (captureOptions.format === "pdf") {
+        downloadFile(
+          sections[0].objectUrl,
+          `${buildFilenamePrefix(url)}.${getFileExtension(captureOptions.format)}`
         );
       }
+    } catch (error) {
+      setScreenshot({
+        isLoading: false,
+        sections: [],
+        error: getCaptureError(error),
+        failure: error instanceof CaptureError ? error : null,
+        success: null,
+      });
+    } finally {
+      captureControllerRef.current = null;
+      setCaptureProgress(null);
+      setCaptureStartedAt(null);
     }
   };
 
-  // Set content blocking parameters
-  const setContentBlockingParams = (
-    apiUrl: URL,
-    screenshotOptions: ScreenshotOptions
-  ) => {
-    if (screenshotOptions.blockAds) {
-      apiUrl.searchParams.set("block_ads", "true");
-    }
-    if (screenshotOptions.blockCookieBanners) {
-      apiUrl.searchParams.set("block_cookie_banners", "true");
-    }
+  const cancelScreenshot = () => {
+    captureControllerRef.current?.abort();
   };
 
-  // Set rendering parameters
-  const setRenderingParams = (
-    apiUrl: URL,
-    screenshotOptions: ScreenshotOptions
-  ) => {
-    if (screenshotOptions.deviceScaleFactor !== "1") {
-      apiUrl.searchParams.set(
-        "device_scale_factor",
-        screenshotOptions.deviceScaleFactor
-      );
-    }
-    if (screenshotOptions.timeout !== "60") {
-      apiUrl.searchParams.set("timeout", screenshotOptions.timeout);
-    }
-    apiUrl.searchParams.set("cache", screenshotOptions.cache.toString());
+  // Apply the fix suggested for a failed capture and try again
+  const retryWithFix = (fix: SuggestedFix) => {
+    const fixed = { ...options, ...fix.options };
+    setOptions(fixed);
+    takeScreenshot(fixed);
   };
 
-  // Set animation and scroll parameters
-  const setAnimationParams = (
-    apiUrl: URL,
-    screenshotOptions: ScreenshotOptions
-  ) => {
-    if (screenshotOptions.delay !== "0") {
-      const delayValue = Math.min(
-        Number.parseInt(screenshotOptions.delay, 10),
-        30
-      );
-      apiUrl.searchParams.set("delay", delayValue.toString());
-    }
-    if (screenshotOptions.waitUntil !== "load") {
-      apiUrl.searchParams.set(
-        "scripts_wait_until",
-        screenshotOptions.waitUntil
-      );
-    }
-    const scrollScript = generateScrollScript(screenshotOptions);
-    if (scrollScript) {
-      apiUrl.searchParams.set(
-        "scripts",
-        scrollScript.replace(/\s+/g, " ").trim()
-      );
+  // Run a set of captures with a bounded number in flight. `unit` names
+  // what each capture is in the status messages.
+  const runCaptureJobs = async (jobs: BatchJob[], unit: string) => {
+    setScreenshot({
+      isLoading: false,
+      sections: [],
+      error: null,
+      failure: null,
+      success: null,
+    });
+    const { total, succeeded, cleared } = await runBatch(
+      jobs,
+      clampConcurrency(batchConcurrency),
+      credentials,
+      history.addCapture
+    );
+
+    if (cleared) {
+      return;
     }
-  };
-
-  // Build API URL with all parameters
-  const buildApiUrl = (
-    fullUrl: string,
-    apiKeyValue: string,
-    screenshotOptions: ScreenshotOptions
-  ): URL => {
-    const apiUrl = new URL("https://api.screenshotone.com/take");
-    apiUrl.searchParams.set("access_key", apiKeyValue);
-    apiUrl.searchParams.set("url", fullUrl);
-    apiUrl.searchParams.set("format", screenshotOptions.format);
-    apiUrl.searchParams.set("full_page", screenshotOptions.fullPage.toString());
-
-    setViewportParams(apiUrl, screenshotOptions);
-    setContentBlockingParams(apiUrl, screenshotOptions);
-    setRenderingParams(apiUrl, screenshotOptions);
-    setAnimationParams(apiUrl, screenshotOptions);
-
-    // For GIF format, use basic parameters only
-    if (
-      screenshotOptions.format === "gif" &&
-      screenshotOptions.enableAnimatedCapture
-    ) {
-      // Add any valid GIF-specific parameters here when confirmed
+    if (succeeded === 0) {
+      setScreenshot((prev) => ({
+        ...prev,
+        failure: null,
+        error: `None of the ${unit}s could be captured`,
+      }));
+      return;
     }
-
-    return apiUrl;
+    setScreenshot((prev) => ({
+      ...prev,
+      success: `Captured ${succeeded} of ${total} ${unit}s!`,
+    }));
+    triggerConfetti();
   };
 
-  // Handle API error response
-  const handleApiError = async (response: Response): Promise<string> => {
-    let errorMessage = `API error: ${response.status} ${response.statusText}`;
-    try {
-      const errorText = await response.text();
-      if (errorText) {
-        errorMessage += ` - ${errorText}`;
-      }
-    } catch {
-      // If we can't read the error text, use the basic message
-    }
-
-    // Add helpful hints for common errors
-    if (response.status === 400) {
-      errorMessage +=
-        ". Common causes: Invalid API key (use access key, not secret key), invalid URL format, or missing required parameters.";
-    } else if (response.status === 401) {
-      errorMessage +=
-        ". This usually means your API key is invalid or expired.";
-    } else if (response.status === 403) {
-      errorMessage +=
-        ". This usually means you've exceeded your API quota or the API key doesn't have permission.";
+  // Capture every URL in the batch list
+  const takeBatchScreenshots = async (urls: string[]) => {
+    if (urls.length === 0) {
+      setScreenshot((prev) => ({
+        ...prev,
+        failure: null,
+        error: "Please enter at least one valid URL, one per line",
+      }));
+      return;
     }
 
-    return errorMessage;
-  };
-
-  // Process screenshot response
-  const processScreenshotResponse = (
-    imageUrl: string,
-    screenshotOptions: ScreenshotOptions
-  ) => {
-    // For PNG format, split into sections; for other formats, show as single download
-    if (screenshotOptions.format === "png" && screenshotOptions.fullPage) {
-      // Load image and split it
-      const img = new Image();
-      img.onload = () => {
-        try {
-          const sections = splitImage(img);
-          setScreenshot({
-            isLoading: false,
-            sections,
-            error: null,
-            success:
-              sections.length > 1
-                ? `Screenshot captured and split into ${sections.length} sections!`
-                : "Screenshot captured successfully!",
-          });
-          // Trigger confetti animation
-          triggerConfetti();
-          URL.revokeObjectURL(imageUrl);
-        } catch {
-          setScreenshot({
-            isLoading: false,
-            sections: [],
-            error: "Failed to process the screenshot image",
-            success: null,
-          });
-          URL.revokeObjectURL(imageUrl);
-        }
-      };
-      img.onerror = () => {
-        setScreenshot({
-          isLoading: false,
-          sections: [],
-          error: "Failed to load the screenshot image",
-          success: null,
-        });
-        URL.revokeObjectURL(imageUrl);
-      };
-      img.src = imageUrl;
-    } else {
-      // For non-PNG formats or single page, create a single download
-      const rootDomain = extractRootDomain(url);
-      const date = getCurrentDate();
-      const extension =
-        screenshotOptions.format === "jpeg" ? "jpg" : screenshotOptions.format;
-      const filename = `${rootDomain}-${date}.${extension}`;
-
-      setScreenshot({
-        isLoading: false,
-        sections: [{ dataUrl: imageUrl, index: 1 }],
-        error: null,
-        success: `Screenshot captured successfully! Click to download ${screenshotOptions.format.toUpperCase()} file.`,
-      });
-      // Trigger confetti animation
-      triggerConfetti();
-
-      // Auto-download for non-image formats
-      if (screenshotOptions.format === "pdf") {
-        downloadFile(imageUrl, filename);
-      }
-    }
+    setBatchView("pages");
+    await runCaptureJobs(
+      urls.map((pageUrl) => ({ url: pageUrl, options })),
+      "page"
+    );
   };
 
-  // Take screenshot using ScreenshotOne API
-  const takeScreenshot = async () => {
+  // Capture the URL once for each device ticked in the matrix
+  const takeDeviceScreenshots = async () => {
     if (!isValidUrl(url)) {
       setScreenshot((prev) => ({
         ...prev,
+        failure: null,
         error:
           "Please enter a valid URL (e.g., https://example.com or example.com)",
       }));
       return;
     }
-
-    if (!apiKey.trim()) {
+    if (matrix.devices.length === 0) {
       setScreenshot((prev) => ({
         ...prev,
-        error: "Please enter your ScreenshotOne API key",
+        failure: null,
+        error: "Please pick at least one device",
       }));
       return;
     }
 
-    setScreenshot({
-      isLoading: true,
-      sections: [],
-      error: null,
-      success: null,
-    });
+    setBatchView("devices");
+    await runCaptureJobs(
+      matrix.devices.map((device) => ({
+        url: normalizeUrl(url),
+        options: applyDevice(options, device, userDevices.devices),
+      })),
+      "device"
+    );
+  };
 
+  // Show a stored capture as if it had just been taken
+  const openHistoryEntry = async (entry: HistoryEntry) => {
     try {
-      // Prepare URL - add https if not present
-      const fullUrl = url.startsWith("http") ? url : `https://${url}`;
-
-      // Build API URL with all parameters
-      const apiUrl = buildApiUrl(fullUrl, apiKey, options);
+      const sections = await history.reopenCapture(entry);
+      clearBatch();
+      setCaptureMode("single");
+      setUrl(entry.url);
+      setCaptureInfo({
+        url: entry.url,
+        options: entry.options,
+        capturedAt: entry.capturedAt,
+      });
+      setScreenshot({
+        isLoading: false,
+        sections,
+        error: null,
+        failure: null,
+        success: `Opened capture from ${new Date(entry.capturedAt).toLocaleString()}`,
+      });
+      window.scrollTo({ top: 0, behavior: "smooth" });
+    } catch {
+      setScreenshot((prev) => ({
+        ...prev,
+        failure: null,
+        error: "Failed to open the capture from history",
+      }));
+    }
+  };
 
-      // Debug logging (remove in production)
-      console.log(
-        "API Request URL:",
-        apiUrl.toString().replace(apiKey, "HIDDEN_API_KEY")
+  // Load the sections the Worker stored for a page of a scheduled run
+  const openScheduledCapture = async (run: JobRun, capture: RunCapture) => {
+    try {
+      const blobs = await Promise.all(
+        capture.sections.map(async ({ key }) => {
+          const response = await fetch(getCaptureFileUrl(key));
+          if (!response.ok) {
+            throw new Error(`Couldn't load the section: ${response.status}`);
+          }
+          return response.blob();
+        })
       );
-      console.log("Target URL:", fullUrl);
-      console.log("Options:", options);
-
-      const response = await fetch(apiUrl.toString());
-
-      if (!response.ok) {
-        const errorMessage = await handleApiError(response);
-        throw new Error(errorMessage);
-      }
-
-      const blob = await response.blob();
-      const imageUrl = URL.createObjectURL(blob);
-
-      // Process the screenshot response
-      processScreenshotResponse(imageUrl, options);
-    } catch (error) {
+      const sections = capture.sections.map(
+        ({ index, offsetY, width, height }, i) =>
+          createSection(blobs[i], {
+            index,
+            offsetY,
+            width: width ?? undefined,
+            height: height ?? undefined,
+          })
+      );
+      clearBatch();
+      setCaptureMode("single");
+      setUrl(capture.url);
+      setCaptureInfo({
+        url: capture.url,
+        options: run.options,
+        capturedAt: run.startedAt,
+      });
       setScreenshot({
         isLoading: false,
-        sections: [],
-        error:
-          error instanceof Error ? error.message : "Failed to take screenshot",
-        success: null,
+        sections,
+        error: null,
+        failure: null,
+        success: `Opened scheduled capture from ${new Date(run.startedAt).toLocaleString()}`,
       });
+      window.scrollTo({ top: 0, behavior: "smooth" });
+    } catch {
+      setScreenshot((prev) => ({
+        ...prev,
+        failure: null,
+        error: "Failed to open the scheduled capture",
+      }));
     }
   };
 
@@ -643,7 +560,12 @@ function App() {
   const handleUrlChange = (value: string) => {
     setUrl(value);
     if (screenshot.error || screenshot.success) {
-      setScreenshot((prev) => ({ ...prev, error: null, success: null }));
+      setScreenshot((prev) => ({
+        ...prev,
+        error: null,
+        failure: null,
+        success: null,
+      }));
     }
   };
 
@@ -672,9 +594,9 @@ function App() {
             style={{ maxWidth: "48ch" }}
           >
             Figma screenshot compression getting you down? This handy tool will
-            screenshot a website into 4096px tall blocks, which you can then use
-            vertical auto-layout to stack ontop of one another — compression be
-            gone!
+            screenshot a website into blocks no taller than Figma's 4096px limit
+            (or any height you choose), which you can stack with vertical
+            auto-layout — or let the Figma plugin do it. Compression be gone!
           </p>
 
           <div className="slide-in-from-top mb-6 flex animate-in justify-center delay-450 duration-1500">
@@ -722,517 +644,126 @@ function App() {
         <Card className="slide-in-from-bottom mb-12 animate-in rounded-3xl border border-neutral-200 p-8 shadow-xl transition-none delay-300 duration-1200 sm:p-16">
           <CardContent className="space-y-8 p-0">
             {/* API Key Input */}
-            <div className="space-y-3">
-              <Label className="font-medium text-base" htmlFor="api-key">
-                ScreenshotOne API Key
-              </Label>
-              <Input
-                className="h-12 text-base"
-                id="api-key"
-                onChange={(e) => handleApiKeyChange(e.target.value)}
-                placeholder="Enter your ScreenshotOne API key"
-                type="password"
-                value={apiKey}
-              />
-              <p className="text-muted-foreground text-sm leading-relaxed">
-                Get your free API key at{" "}
-                <a
-                  className="font-medium text-primary underline underline-offset-4 transition-opacity hover:opacity-80"
-                  href="https://screenshotone.com/?via=charles"
-                  rel="noopener noreferrer"
-                  target="_blank"
-                >
-                  screenshotone.com
-                </a>
-                <br />
-                <strong>Use your "Access Key" (not the Secret Key)</strong> from
-                the API section of your dashboard.
-              </p>
-            </div>
-
+            <ApiKeySettings
+              apiKey={credentials.apiKey}
+              onApiKeyChange={handleApiKeyChange}
+              onProviderChange={handleProviderChange}
+              onSecretKeyChange={handleSecretKeyChange}
+              onSignedRequestsChange={handleSignedRequestsChange}
+              provider={credentials.provider}
+              secretKey={credentials.secretKey}
+              signedRequests={credentials.signedRequests}
+            />
             {/* URL Input */}
             <div className="space-y-3">
-              <Label className="font-medium text-base" htmlFor="url">
-                Website URL
-              </Label>
-              <div className="flex flex-col gap-3 sm:flex-row">
-                <Input
-                  className="h-12 flex-1 text-base"
-                  disabled={screenshot.isLoading}
-                  id="url"
-                  onChange={(e) => handleUrlChange(e.target.value)}
-                  onKeyDown={(e) =>
-                    e.key === "Enter" &&
-                    !screenshot.isLoading &&
-                    takeScreenshot()
-                  }
-                  placeholder="Enter website URL (e.g., example.com or https://example.com)"
-                  type="url"
-                  value={url}
-                />
-                <Button
-                  className="h-12 w-full px-6 sm:w-auto sm:shrink-0"
-                  disabled={
-                    screenshot.isLoading || !url.trim() || !apiKey.trim()
-                  }
-                  onClick={takeScreenshot}
-                  size="lg"
+              <div className="flex items-center justify-between gap-4">
+                <Label
+                  className="font-medium text-base"
+                  htmlFor={CAPTURE_MODES[captureMode].inputId}
+                >
+                  {CAPTURE_MODES[captureMode].inputLabel}
+                </Label>
+                <Select
+                  disabled={screenshot.isLoading || isBatchRunning}
+                  onValueChange={(value: CaptureMode) => setCaptureMode(value)}
+                  value={captureMode}
                 >
-                  {screenshot.isLoading ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Processing...
-                    </>
-                  ) : (
-                    <>
-                      <Camera className="mr-2 h-4 w-4" />
-                      Take Screenshot
-                    </>
-                  )}
-                </Button>
+                  <SelectTrigger aria-label="Capture mode" className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CAPTURE_MODES).map(([value, mode]) => (
+                      <SelectItem key={value} value={value}>
+                        {mode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-            </div>
-
-            {/* Advanced Options */}
-            <Collapsible onOpenChange={setAdvancedOpen} open={advancedOpen}>
-              <CollapsibleTrigger asChild>
-                <Button className="h-12 w-full text-base" variant="outline">
-                  <Settings className="mr-3 h-4 w-4" />
-                  Advanced Options
-                  <ChevronDown
-                    className={`ml-3 h-4 w-4 transition-transform ${advancedOpen ? "rotate-180" : ""}`}
+              {captureMode === "single" && (
+                <div className="flex justify-end">
+                  <CopyButton
+                    disabled={!url.trim()}
+                    label="Copy link"
+                    onCopy={() =>
+                      navigator.clipboard.writeText(window.location.href)
+                    }
+                    size="sm"
+                    variant="ghost"
                   />
-                </Button>
-              </CollapsibleTrigger>
-              <CollapsibleContent className="mt-8 space-y-10">
-                <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
-                  {/* Format Selection */}
-                  <div>
-                    <Label className="mb-2 block font-medium text-sm">
-                      Output Format
-                    </Label>
-                    <Select
-                      onValueChange={(
-                        value: "png" | "jpeg" | "webp" | "pdf" | "gif" | "mp4"
-                      ) => updateOption("format", value)}
-                      value={options.format}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="png">PNG (Best quality)</SelectItem>
-                        <SelectItem value="jpeg">
-                          JPEG (Smaller size)
-                        </SelectItem>
-                        <SelectItem value="webp">
-                          WebP (Modern format)
-                        </SelectItem>
-                        <SelectItem value="pdf">PDF (Document)</SelectItem>
-                        <SelectItem value="gif">GIF (Animated)</SelectItem>
-                        <SelectItem value="mp4">MP4 (Video)</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  {/* Device Preset */}
-                  <div>
-                    <Label className="mb-2 block font-medium text-sm">
-                      Device Preset
-                    </Label>
-                    <Select
-                      onValueChange={(value) =>
-                        updateOption("devicePreset", value)
-                      }
-                      value={options.devicePreset}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select device preset" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {DEVICE_PRESETS.map((preset) => (
-                          <SelectItem key={preset.value} value={preset.value}>
-                            {preset.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  {/* Scale Factor */}
-                  <div>
-                    <Label className="mb-2 block font-medium text-sm">
-                      Scale Factor
-                    </Label>
-                    <Select
-                      onValueChange={(value) =>
-                        updateOption("deviceScaleFactor", value)
-                      }
-                      value={options.deviceScaleFactor}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="1">1x (Standard)</SelectItem>
-                        <SelectItem value="2">2x (Retina)</SelectItem>
-                        <SelectItem value="3">3x (High DPI)</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-
-                {/* Custom Viewport */}
-                {options.devicePreset === "custom" && (
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <Label
-                        className="mb-2 block font-medium text-sm"
-                        htmlFor="viewport-width"
-                      >
-                        Viewport Width (px)
-                      </Label>
-                      <Input
-                        id="viewport-width"
-                        onChange={(e) =>
-                          updateOption("viewportWidth", e.target.value)
-                        }
-                        placeholder="1920"
-                        type="number"
-                        value={options.viewportWidth}
-                      />
-                    </div>
-                    <div>
-                      <Label
-                        className="mb-2 block font-medium text-sm"
-                        htmlFor="viewport-height"
-                      >
-                        Viewport Height (px)
-                      </Label>
-                      <Input
-                        id="viewport-height"
-                        onChange={(e) =>
-                          updateOption("viewportHeight", e.target.value)
-                        }
-                        placeholder="1080"
-                        type="number"
-                        value={options.viewportHeight}
-                      />
-                    </div>
-                  </div>
-                )}
-
-                {/* Toggles */}
-                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      checked={options.fullPage}
-                      id="full-page"
-                      onCheckedChange={(checked) =>
-                        updateOption("fullPage", checked)
-                      }
-                    />
-                    <Label htmlFor="full-page">Capture full page</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      checked={options.blockAds}
-                      id="block-ads"
-                      onCheckedChange={(checked) =>
-                        updateOption("blockAds", checked)
-                      }
-                    />
-                    <Label htmlFor="block-ads">Block advertisements</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      checked={options.blockCookieBanners}
-                      id="block-cookies"
-                      onCheckedChange={(checked) =>
-                        updateOption("blockCookieBanners", checked)
-                      }
-                    />
-                    <Label htmlFor="block-cookies">Block cookie banners</Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      checked={options.cache}
-                      id="cache"
-                      onCheckedChange={(checked) =>
-                        updateOption("cache", checked)
-                      }
-                    />
-                    <Label htmlFor="cache">Cache screenshot</Label>
-                  </div>
-                </div>
-
-                {/* Animation & Timing Settings */}
-                <div className="space-y-4">
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      checked={options.preScroll}
-                      id="pre-scroll"
-                      onCheckedChange={(checked) =>
-                        updateOption("preScroll", checked)
-                      }
-                    />
-                    <Label htmlFor="pre-scroll">
-                      Pre-scroll to trigger animations
-                    </Label>
-                  </div>
-
-                  <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-                    <div>
-                      <Label
-                        className="mb-2 block font-medium text-sm"
-                        htmlFor="delay"
-                      >
-                        Initial Delay (seconds)
-                      </Label>
-                      <Input
-                        id="delay"
-                        max="30"
-                        min="0"
-                        onChange={(e) => updateOption("delay", e.target.value)}
-                        placeholder="3"
-                        type="number"
-                        value={options.delay}
-                      />
-                      <p className="mt-1 text-muted-foreground text-xs">
-                        Wait time before taking screenshot (0-30 seconds)
-                      </p>
-                    </div>
-
-                    <div>
-                      <Label className="mb-2 block font-medium text-sm">
-                        Wait Until
-                      </Label>
-                      <Select
-                        onValueChange={(value) =>
-                          updateOption("waitUntil", value)
-                        }
-                        value={options.waitUntil}
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="load">Page Load</SelectItem>
-                          <SelectItem value="domcontentloaded">
-                            DOM Ready
-                          </SelectItem>
-                          <SelectItem value="networkidle0">
-                            Network Idle (0 requests)
-                          </SelectItem>
-                          <SelectItem value="networkidle2">
-                            Network Idle (≤2 requests)
-                          </SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <p className="mt-1 text-muted-foreground text-xs">
-                        Condition to wait for before capturing
-                      </p>
-                    </div>
-                  </div>
-
-                  {options.preScroll && (
-                    <div className="space-y-4 rounded-lg border bg-muted/30 p-4">
-                      <div>
-                        <Label className="mb-2 block font-medium text-sm">
-                          Scroll Strategy
-                        </Label>
-                        <Select
-                          onValueChange={(
-                            value: "simple" | "progressive" | "custom"
-                          ) => updateOption("scrollStrategy", value)}
-                          value={options.scrollStrategy}
-                        >
-                          <SelectTrigger>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="simple">
-                              Simple (Basic scroll through)
-                            </SelectItem>
-                            <SelectItem value="progressive">
-                              Progressive (For scroll-driven content)
-                            </SelectItem>
-                            <SelectItem value="custom">
-                              Custom Script
-                            </SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-
-                      {options.scrollStrategy === "progressive" && (
-                        <div>
-                          <Label
-                            className="mb-2 block font-medium text-sm"
-                            htmlFor="progressive-steps"
-                          >
-                            Scroll Steps
-                          </Label>
-                          <Input
-                            id="progressive-steps"
-                            max="50"
-                            min="5"
-                            onChange={(e) =>
-                              updateOption(
-                                "progressiveScrollSteps",
-                                e.target.value
-                              )
-                            }
-                            placeholder="10"
-                            type="number"
-                            value={options.progressiveScrollSteps}
-                          />
-                          <p className="mt-1 text-muted-foreground text-xs">
-                            Number of scroll positions to pause at (5-50). More
-                            steps = better for complex scroll-driven content.
-                          </p>
-                        </div>
-                      )}
-
-                      {options.scrollStrategy === "custom" && (
-                        <div>
-                          <Label
-                            className="mb-2 block font-medium text-sm"
-                            htmlFor="custom-script"
-                          >
-                            Custom Scroll Script
-                          </Label>
-                          <textarea
-                            className="h-24 w-full resize-none rounded-md border px-3 py-2 text-sm"
-                            id="custom-script"
-                            onChange={(e) =>
-                              updateOption("customScrollScript", e.target.value)
-                            }
-                            placeholder="// Custom JavaScript to execute before screenshot&#10;// Example: window.scrollTo(0, 1000); await new Promise(r => setTimeout(r, 1000));"
-                            value={options.customScrollScript}
-                          />
-                          <p className="mt-1 text-muted-foreground text-xs">
-                            Custom JavaScript to execute. Use await for delays.
-                          </p>
-                        </div>
-                      )}
-
-                      <div className="text-muted-foreground text-sm">
-                        <strong>Selected strategy:</strong> {(() => {
-                          if (options.scrollStrategy === "simple") {
-                            return "Basic scroll through page to trigger animations";
-                          }
-                          if (options.scrollStrategy === "progressive") {
-                            return "Slower scroll with pauses at key positions - ideal for scroll-driven content carousels";
-                          }
-                          return "Custom JavaScript execution";
-                        })()}
-                      </div>
-                    </div>
-                  )}
                 </div>
+              )}
+              {captureMode === "single" && (
+                <UrlInput
+                  isLoading={screenshot.isLoading}
+                  onCancel={cancelScreenshot}
+                  onChange={handleUrlChange}
+                  onSubmit={() => takeScreenshot()}
+                  progress={captureProgress}
+                  startedAt={captureStartedAt}
+                  value={url}
+                />
+              )}
+              {captureMode === "devices" && (
+                <DeviceMatrixInput
+                  choices={deviceChoices}
+                  concurrency={batchConcurrency}
+                  devices={matrix.devices}
+                  isRunning={isBatchRunning}
+                  onCancel={cancelBatch}
+                  onChange={handleUrlChange}
+                  onConcurrencyChange={setBatchConcurrency}
+                  onStart={takeDeviceScreenshots}
+                  onToggleDevice={matrix.toggleDevice}
+                  options={options}
+                  value={url}
+                />
+              )}
+              {captureMode === "batch" && (
+                <BatchUrlInput
+                  concurrency={batchConcurrency}
+                  isRunning={isBatchRunning}
+                  onCancel={cancelBatch}
+                  onChange={setBatchInput}
+                  onConcurrencyChange={setBatchConcurrency}
+                  onStart={takeBatchScreenshots}
+                  value={batchInput}
+                />
+              )}
+              {captureMode === "sitemap" && (
+                <SitemapCrawler
+                  concurrency={batchConcurrency}
+                  isRunning={isBatchRunning}
+                  onCancel={cancelBatch}
+                  onConcurrencyChange={setBatchConcurrency}
+                  onStart={takeBatchScreenshots}
+                />
+              )}
+            </div>
 
-                {/* Animated Capture Options */}
-                {(options.format === "gif" || options.format === "mp4") && (
-                  <div className="space-y-4 rounded-lg border bg-muted/30 p-4">
-                    <h4 className="font-semibold text-sm">
-                      Animated Capture Settings
-                    </h4>
-
-                    <div className="flex items-center space-x-2">
-                      <Switch
-                        checked={options.enableAnimatedCapture}
-                        id="enable-animated-capture"
-                        onCheckedChange={(checked) =>
-                          updateOption("enableAnimatedCapture", checked)
-                        }
-                      />
-                      <Label htmlFor="enable-animated-capture">
-                        Enable scroll animation
-                      </Label>
-                    </div>
-
-                    <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-                      <div>
-                        <Label
-                          className="mb-2 block font-medium text-sm"
-                          htmlFor="animation-duration"
-                        >
-                          Animation Duration (seconds)
-                        </Label>
-                        <Input
-                          id="animation-duration"
-                          max="30"
-                          min="1"
-                          onChange={(e) =>
-                            updateOption("animationDuration", e.target.value)
-                          }
-                          placeholder="5"
-                          type="number"
-                          value={options.animationDuration}
-                        />
-                        <p className="mt-1 text-muted-foreground text-xs">
-                          Total length of animation (1-30 seconds)
-                        </p>
-                      </div>
-
-                      {options.enableAnimatedCapture && (
-                        <div>
-                          <Label
-                            className="mb-2 block font-medium text-sm"
-                            htmlFor="scroll-delay"
-                          >
-                            Scroll Delay (ms)
-                          </Label>
-                          <Input
-                            id="scroll-delay"
-                            max="2000"
-                            min="100"
-                            onChange={(e) =>
-                              updateOption("scrollDelay", e.target.value)
-                            }
-                            placeholder="500"
-                            type="number"
-                            value={options.scrollDelay}
-                          />
-                          <p className="mt-1 text-muted-foreground text-xs">
-                            Pause between scroll steps (100-2000ms)
-                          </p>
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                )}
+            {/* Option Presets */}
+            <PresetControls
+              onApply={setOptions}
+              options={options}
+              presets={presets}
+            />
 
-                {/* Timeout */}
-                <div>
-                  <Label
-                    className="mb-2 block font-medium text-sm"
-                    htmlFor="timeout"
-                  >
-                    Timeout (seconds)
-                  </Label>
-                  <Input
-                    id="timeout"
-                    max="300"
-                    min="1"
-                    onChange={(e) => updateOption("timeout", e.target.value)}
-                    placeholder="60"
-                    type="number"
-                    value={options.timeout}
-                  />
-                  <p className="mt-1 text-muted-foreground text-xs">
-                    Maximum time to wait for page to load (1-300 seconds)
-                  </p>
-                </div>
-              </CollapsibleContent>
-            </Collapsible>
+            {/* Advanced Options */}
+            <AdvancedOptions
+              capabilities={getProvider(credentials.provider).capabilities}
+              onDeviceChange={changeDevice}
+              options={options}
+              updateOption={updateOption}
+              userDevices={userDevices}
+            />
 
             {/* Status Messages */}
             {screenshot.error && (
-              <Alert variant="destructive">
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription>{screenshot.error}</AlertDescription>
-              </Alert>
+              <CaptureErrorAlert
+                error={screenshot.error}
+                failure={screenshot.failure}
+                onRetry={retryWithFix}
+              />
             )}
 
             {screenshot.success && (
@@ -1242,79 +773,90 @@ function App() {
               </Alert>
             )}
 
-            {/* Download All Button */}
-            {screenshot.sections.length > 0 && (
-              <div className="flex justify-center pt-8">
-                <Button
-                  className="h-12 px-8 text-base"
-                  onClick={downloadAllSections}
-                  size="lg"
-                >
-                  <Download className="mr-3 h-4 w-4" />
-                  {screenshot.sections.length > 1
-                    ? `Download All Sections (${screenshot.sections.length})`
-                    : `Download ${options.format.toUpperCase()}`}
-                </Button>
-              </div>
+            {/* Download Buttons */}
+            {captureInfo && screenshot.sections.length > 0 && (
+              <DownloadActions
+                info={captureInfo}
+                onDownloadAll={downloadAllSections}
+                onError={(error) =>
+                  setScreenshot((prev) => ({
+                    ...prev,
+                    error,
+                    failure: null,
+                    success: null,
+                  }))
+                }
+                onZipDownloaded={showDownloadSuccess}
+                sections={screenshot.sections}
+              />
             )}
           </CardContent>
         </Card>
 
         {/* Screenshot Sections Display */}
-        {screenshot.sections.length > 0 && options.format === "png" && (
-          <div className="slide-in-from-bottom animate-in space-y-8 delay-1000 duration-1000">
-            <h2 className="text-center font-semibold text-2xl">
-              Screenshot Sections
-            </h2>
-            <div className="grid gap-8 md:grid-cols-1 lg:grid-cols-2">
-              {screenshot.sections.map((section) => (
-                <Card
-                  className="overflow-hidden border-0 shadow-md"
-                  key={section.index}
-                >
-                  <CardHeader className="pb-4">
-                    <CardTitle className="text-lg">
-                      Section {section.index}
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent className="p-6">
-                    <div className="group relative">
-                      <img
-                        alt={`Screenshot section ${section.index}`}
-                        className="h-auto w-full rounded border shadow-sm transition-transform group-hover:scale-[1.02]"
-                        height={4096}
-                        src={section.dataUrl}
-                        width={1920}
-                      />
-                      <div className="absolute inset-0 flex items-center justify-center rounded bg-black/0 opacity-0 transition-colors group-hover:bg-black/10 group-hover:opacity-100">
-                        <Button
-                          className="bg-background/90 text-foreground hover:bg-background"
-                          onClick={() => {
-                            const rootDomain = extractRootDomain(url);
-                            const date = getCurrentDate();
-                            const extension =
-                              options.format === "jpeg"
-                                ? "jpg"
-                                : options.format;
-                            const filename = `${rootDomain}-${date}-section-${section.index}.${extension}`;
-                            downloadFile(section.dataUrl, filename);
-                          }}
-                          size="sm"
-                        >
-                          <Download className="mr-2 h-4 w-4" />
-                          Download
-                        </Button>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+        {captureInfo &&
+          screenshot.sections.length > 0 &&
+          isRasterFormat(captureInfo.options.format) && (
+            <div className="slide-in-from-bottom animate-in space-y-8 delay-1000 duration-1000">
+              <h2 className="text-center font-semibold text-2xl">
+                Screenshot Sections
+              </h2>
+              <SectionGallery
+                onDownload={downloadSection}
+                sections={screenshot.sections}
+              />
             </div>
-          </div>
-        )}
+          )}
+
+        {batchItems.length > 0 &&
+          (batchView === "devices" ? (
+            <DeviceMatrixResults
+              items={batchItems}
+              onError={(error) =>
+                setScreenshot((prev) => ({
+                  ...prev,
+                  error,
+                  failure: null,
+                  success: null,
+                }))
+              }
+            />
+          ) : (
+            <BatchResults items={batchItems} />
+          ))}
+
+        <div className="mt-16">
+          <CaptureHistory
+            entries={history.entries}
+            error={history.error}
+            loadSections={history.reopenCapture}
+            onDelete={history.removeCapture}
+            onOpen={openHistoryEntry}
+            onQuotaChange={history.changeQuota}
+            quotaMb={history.quotaMb}
+          />
+        </div>
 
-        {/* Hidden canvas for image processing */}
-        <canvas ref={canvasRef} style={{ display: "none" }} />
+        <div className="mt-16">
+          <CompareView
+            current={
+              captureInfo && screenshot.sections.length > 0
+                ? { info: captureInfo, sections: screenshot.sections }
+                : null
+            }
+            entries={history.entries}
+            loadSections={history.reopenCapture}
+          />
+        </div>
+
+        {/* Scheduled Captures */}
+        <div className="mt-16">
+          <ScheduledJobs
+            onOpenCapture={openScheduledCapture}
+            options={options}
+            provider={credentials.provider}
+          />
+        </div>
 
         {/* Footer */}
         <div className="slide-in-from-bottom mt-20 animate-in space-y-4 border-border/50 border-t pt-8 text-center delay-1000 duration-1500">
@@ -0,0 +1,724 @@
+import { ChevronDown, Settings } from "lucide-react";
+import { useState } from "react";
+import { UserDeviceEditor } from "@/components/UserDeviceEditor";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { useUserDevices } from "@/hooks/useUserDevices";
+import {
+  describeUserDevice,
+  findUserDevice,
+  type UserDevice,
+  userDeviceValue,
+} from "@/lib/devices";
+import type { ProviderCapabilities } from "@/lib/providers";
+import {
+  DEVICE_PRESETS,
+  isLossyFormat,
+  isSplitCapture,
+  type ScreenshotFormat,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+import { MAX_SECTION_HEIGHT, MIN_SECTION_HEIGHT } from "@/lib/split";
+
+export type UpdateOption = <K extends keyof ScreenshotOptions>(
+  key: K,
+  value: ScreenshotOptions[K]
+) => void;
+
+interface AdvancedOptionsProps {
+  options: ScreenshotOptions;
+  updateOption: UpdateOption;
+  userDevices: ReturnType<typeof useUserDevices>;
+  // What the selected capture provider supports
+  capabilities: ProviderCapabilities;
+  // Switch device, applying a user device's viewport settings. `devices`
+  // overrides the stored list, for a device that was only just saved.
+  onDeviceChange: (value: string, devices?: UserDevice[]) => void;
+}
+
+const SCALE_FACTORS = ["1", "2", "3"];
+
+const FORMAT_CHOICES: { value: ScreenshotFormat; label: string }[] = [
+  { value: "png", label: "PNG (Best quality)" },
+  { value: "jpeg", label: "JPEG (Smaller size)" },
+  { value: "webp", label: "WebP (Modern format)" },
+  { value: "pdf", label: "PDF (Document)" },
+  { value: "gif", label: "GIF (Animated)" },
+  { value: "mp4", label: "MP4 (Video)" },
+];
+
+// CSS selector for capturing one element, with what to do on the way to
+// it; hidden for providers that only capture pages
+function ElementCaptureOptions({
+  options,
+  updateOption,
+  capabilities,
+}: Pick<AdvancedOptionsProps, "options" | "updateOption" | "capabilities">) {
+  if (!capabilities.elementCapture) {
+    return null;
+  }
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="mb-2 block font-medium text-sm" htmlFor="selector">
+          Capture Element
+        </Label>
+        <Input
+          id="selector"
+          onChange={(e) => updateOption("selector", e.target.value)}
+          placeholder="e.g. #pricing or footer"
+          value={options.selector}
+        />
+        <p className="mt-1 text-muted-foreground text-xs">
+          CSS selector of one element to capture instead of the page. Leave
+          empty to capture the page.
+        </p>
+      </div>
+
+      {options.selector.trim() && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div className="flex items-center space-x-2">
+            <Switch
+              checked={options.selectorScrollIntoView}
+              id="selector-scroll"
+              onCheckedChange={(checked) =>
+                updateOption("selectorScrollIntoView", checked)
+              }
+            />
+            <Label htmlFor="selector-scroll">Scroll element into view</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              checked={options.selectorRequired}
+              id="selector-required"
+              onCheckedChange={(checked) =>
+                updateOption("selectorRequired", checked)
+              }
+            />
+            <Label htmlFor="selector-required">
+              Fail if the element is missing
+            </Label>
+          </div>
+          <p className="text-muted-foreground text-xs md:col-span-2">
+            Scrolling first loads lazy content around the element. With failing
+            off, a missing element captures the page instead.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function AdvancedOptions({
+  options,
+  updateOption,
+  userDevices,
+  onDeviceChange,
+  capabilities,
+}: AdvancedOptionsProps) {
+  const [advancedOpen, setAdvancedOpen] = useState(false);
+  const userDevice = findUserDevice(userDevices.devices, options.devicePreset);
+
+  return (
+    <Collapsible onOpenChange={setAdvancedOpen} open={advancedOpen}>
+      <CollapsibleTrigger asChild>
+        <Button className="h-12 w-full text-base" variant="outline">
+          <Settings className="mr-3 h-4 w-4" />
+          Advanced Options
+          <ChevronDown
+            className={`ml-3 h-4 w-4 transition-transform ${advancedOpen ? "rotate-180" : ""}`}
+          />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-8 space-y-10">
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {/* Format Selection */}
+          <div>
+            <Label className="mb-2 block font-medium text-sm">
+              Output Format
+            </Label>
+            <Select
+              onValueChange={(value: ScreenshotFormat) =>
+                updateOption("format", value)
+              }
+              value={options.format}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORMAT_CHOICES.map((choice) => (
+                  <SelectItem
+                    disabled={!capabilities.formats.includes(choice.value)}
+                    key={choice.value}
+                    value={choice.value}
+                  >
+                    {choice.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!capabilities.formats.includes(options.format) && (
+              <p className="mt-1 text-destructive text-xs">
+                Not supported by the selected provider
+              </p>
+            )}
+          </div>
+
+          {/* Device Preset */}
+          <div>
+            <Label className="mb-2 block font-medium text-sm">
+              Device Preset
+            </Label>
+            <Select onValueChange={onDeviceChange} value={options.devicePreset}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select device preset" />
+              </SelectTrigger>
+              <SelectContent>
+                {DEVICE_PRESETS.map((preset) => (
+                  <SelectItem
+                    disabled={
+                      preset.value !== "custom" && !capabilities.devicePresets
+                    }
+                    key={preset.value}
+                    value={preset.value}
+                  >
+                    {preset.label}
+                  </SelectItem>
+                ))}
+                {userDevices.devices.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Your devices</SelectLabel>
+                    {userDevices.devices.map((device) => (
+                      <SelectItem
+                        key={device.name}
+                        value={userDeviceValue(device)}
+                      >
+                        {device.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Scale Factor */}
+          <div>
+            <Label className="mb-2 block font-medium text-sm">
+              Scale Factor
+            </Label>
+            <Select
+              onValueChange={(value) =>
+                updateOption("deviceScaleFactor", value)
+              }
+              value={options.deviceScaleFactor}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1x (Standard)</SelectItem>
+                <SelectItem value="2">2x (Retina)</SelectItem>
+                <SelectItem value="3">3x (High DPI)</SelectItem>
+                {/* User devices can use scales outside the usual three */}
+                {!SCALE_FACTORS.includes(options.deviceScaleFactor) && (
+                  <SelectItem value={options.deviceScaleFactor}>
+                    {options.deviceScaleFactor}x
+                  </SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Custom Viewport */}
+        {options.devicePreset === "custom" && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label
+                className="mb-2 block font-medium text-sm"
+                htmlFor="viewport-width"
+              >
+                Viewport Width (px)
+              </Label>
+              <Input
+                id="viewport-width"
+                onChange={(e) => updateOption("viewportWidth", e.target.value)}
+                placeholder="1920"
+                type="number"
+                value={options.viewportWidth}
+              />
+            </div>
+            <div>
+              <Label
+                className="mb-2 block font-medium text-sm"
+                htmlFor="viewport-height"
+              >
+                Viewport Height (px)
+              </Label>
+              <Input
+                id="viewport-height"
+                onChange={(e) => updateOption("viewportHeight", e.target.value)}
+                placeholder="1080"
+                type="number"
+                value={options.viewportHeight}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Custom Viewport Emulation */}
+        {options.devicePreset === "custom" && capabilities.mobileEmulation && (
+          <div className="flex flex-col gap-4 md:flex-row md:items-end">
+            <div className="flex items-center space-x-2 md:pb-2">
+              <Switch
+                checked={options.viewportMobile}
+                id="viewport-mobile"
+                onCheckedChange={(checked) =>
+                  updateOption("viewportMobile", checked)
+                }
+              />
+              <Label htmlFor="viewport-mobile">Mobile</Label>
+            </div>
+            <div className="flex items-center space-x-2 md:pb-2">
+              <Switch
+                checked={options.viewportHasTouch}
+                id="viewport-touch"
+                onCheckedChange={(checked) =>
+                  updateOption("viewportHasTouch", checked)
+                }
+              />
+              <Label htmlFor="viewport-touch">Touch</Label>
+            </div>
+            <div className="flex-1">
+              <Label
+                className="mb-2 block font-medium text-sm"
+                htmlFor="user-agent"
+              >
+                User Agent
+              </Label>
+              <Input
+                id="user-agent"
+                onChange={(e) => updateOption("userAgent", e.target.value)}
+                placeholder="Leave empty for the browser default"
+                value={options.userAgent}
+              />
+            </div>
+          </div>
+        )}
+
+        {userDevice && (
+          <p className="text-muted-foreground text-sm">
+            {userDevice.name}: {describeUserDevice(userDevice)}
+          </p>
+        )}
+
+        <UserDeviceEditor
+          onSaved={(device) =>
+            onDeviceChange(userDeviceValue(device), [device])
+          }
+          options={options}
+          userDevices={userDevices}
+        />
+
+        {/* Toggles */}
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div className="flex items-center space-x-2">
+            <Switch
+              checked={options.fullPage}
+              id="full-page"
+              onCheckedChange={(checked) => updateOption("fullPage", checked)}
+            />
+            <Label htmlFor="full-page">Capture full page</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              checked={options.blockAds}
+              id="block-ads"
+              onCheckedChange={(checked) => updateOption("blockAds", checked)}
+            />
+            <Label htmlFor="block-ads">Block advertisements</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              checked={options.blockCookieBanners}
+              id="block-cookies"
+              onCheckedChange={(checked) =>
+                updateOption("blockCookieBanners", checked)
+              }
+            />
+            <Label htmlFor="block-cookies">Block cookie banners</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch
+              checked={options.cache}
+              id="cache"
+              onCheckedChange={(checked) => updateOption("cache", checked)}
+            />
+            <Label htmlFor="cache">Cache screenshot</Label>
+          </div>
+        </div>
+
+        {/* Element Capture */}
+        <ElementCaptureOptions
+          capabilities={capabilities}
+          options={options}
+          updateOption={updateOption}
+        />
+
+        {/* Image Quality */}
+        {isLossyFormat(options.format) && (
+          <div>
+            <div className="mb-2 flex items-center justify-between">
+              <Label className="font-medium text-sm" htmlFor="image-quality">
+                Image Quality
+              </Label>
+              <span className="text-muted-foreground text-sm">
+                {options.imageQuality}%
+              </span>
+            </div>
+            <input
+              className="w-full accent-primary"
+              id="image-quality"
+              max="100"
+              min="1"
+              onChange={(e) => updateOption("imageQuality", e.target.value)}
+              type="range"
+              value={options.imageQuality}
+            />
+            <p className="mt-1 text-muted-foreground text-xs">
+              Used for the capture and for re-encoding each section. Lower
+              values mean smaller files.
+            </p>
+          </div>
+        )}
+
+        {/* Section Splitting */}
+        {isSplitCapture(options) && (
+          <div className="space-y-4 rounded-lg border bg-muted/30 p-4">
+            <h4 className="font-semibold text-sm">Section Splitting</h4>
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <Label
+                  className="mb-2 block font-medium text-sm"
+                  htmlFor="section-height"
+                >
+                  Section Height (px)
+                </Label>
+                <Input
+                  id="section-height"
+                  max={MAX_SECTION_HEIGHT}
+                  min={MIN_SECTION_HEIGHT}
+                  onChange={(e) =>
+                    updateOption("sectionHeight", e.target.value)
+                  }
+                  placeholder="4096"
+                  type="number"
+                  value={options.sectionHeight}
+                />
+                <p className="mt-1 text-muted-foreground text-xs">
+                  Tallest section to cut ({MIN_SECTION_HEIGHT}-
+                  {MAX_SECTION_HEIGHT}px). Figma's limit is 4096px.
+                </p>
+              </div>
+
+              <div>
+                <Label
+                  className="mb-2 block font-medium text-sm"
+                  htmlFor="section-overlap"
+                >
+                  Overlap (px)
+                </Label>
+                <Input
+                  id="section-overlap"
+                  min="0"
+                  onChange={(e) =>
+                    updateOption("sectionOverlap", e.target.value)
+                  }
+                  placeholder="0"
+                  type="number"
+                  value={options.sectionOverlap}
+                />
+                <p className="mt-1 text-muted-foreground text-xs">
+                  Pixels repeated at the top of each following section (up to
+                  half the section height)
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                checked={options.splitAtWhitespace}
+                id="split-at-whitespace"
+                onCheckedChange={(checked) =>
+                  updateOption("splitAtWhitespace", checked)
+                }
+              />
+              <Label htmlFor="split-at-whitespace">Split at whitespace</Label>
+            </div>
+            <p className="text-muted-foreground text-xs">
+              Moves each cut up to the nearest plain row so text and images
+              aren't sliced in half. Sections may come out a little shorter.
+            </p>
+          </div>
+        )}
+
+        {/* Animation & Timing Settings */}
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Switch
+              checked={options.preScroll}
+              id="pre-scroll"
+              onCheckedChange={(checked) => updateOption("preScroll", checked)}
+            />
+            <Label htmlFor="pre-scroll">Pre-scroll to trigger animations</Label>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <Label className="mb-2 block font-medium text-sm" htmlFor="delay">
+                Initial Delay (seconds)
+              </Label>
+              <Input
+                id="delay"
+                max="30"
+                min="0"
+                onChange={(e) => updateOption("delay", e.target.value)}
+                placeholder="3"
+                type="number"
+                value={options.delay}
+              />
+              <p className="mt-1 text-muted-foreground text-xs">
+                Wait time before taking screenshot (0-30 seconds)
+              </p>
+            </div>
+
+            <div>
+              <Label className="mb-2 block font-medium text-sm">
+                Wait Until
+              </Label>
+              <Select
+                onValueChange={(value) => updateOption("waitUntil", value)}
+                value={options.waitUntil}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="load">Page Load</SelectItem>
+                  <SelectItem value="domcontentloaded">DOM Ready</SelectItem>
+                  <SelectItem value="networkidle0">
+                    Network Idle (0 requests)
+                  </SelectItem>
+                  <SelectItem value="networkidle2">
+                    Network Idle (≤2 requests)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="mt-1 text-muted-foreground text-xs">
+                Condition to wait for before capturing
+              </p>
+            </div>
+          </div>
+
+          {options.preScroll && (
+            <div className="space-y-4 rounded-lg border bg-muted/30 p-4">
+              <div>
+                <Label className="mb-2 block font-medium text-sm">
+                  Scroll Strategy
+                </Label>
+                <Select
+                  onValueChange={(value: "simple" | "progressive" | "custom") =>
+                    updateOption("scrollStrategy", value)
+                  }
+                  value={options.scrollStrategy}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="simple">
+                      Simple (Basic scroll through)
+                    </SelectItem>
+                    <SelectItem value="progressive">
+                      Progressive (For scroll-driven content)
+                    </SelectItem>
+                    <SelectItem value="custom">Custom Script</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {options.scrollStrategy === "progressive" && (
+                <div>
+                  <Label
+                    className="mb-2 block font-medium text-sm"
+                    htmlFor="progressive-steps"
+                  >
+                    Scroll Steps
+                  </Label>
+                  <Input
+                    id="progressive-steps"
+                    max="50"
+                    min="5"
+                    onChange={(e) =>
+                      updateOption("progressiveScrollSteps", e.target.value)
+                    }
+                    placeholder="10"
+                    type="number"
+                    value={options.progressiveScrollSteps}
+                  />
+                  <p className="mt-1 text-muted-foreground text-xs">
+                    Number of scroll positions to pause at (5-50). More steps =
+                    better for complex scroll-driven content.
+                  </p>
+                </div>
+              )}
+
+              {options.scrollStrategy === "custom" && (
+                <div>
+                  <Label
+                    className="mb-2 block font-medium text-sm"
+                    htmlFor="custom-script"
+                  >
+                    Custom Scroll Script
+                  </Label>
+                  <textarea
+                    className="h-24 w-full resize-none rounded-md border px-3 py-2 text-sm"
+                    id="custom-script"
+                    onChange={(e) =>
+                      updateOption("customScrollScript", e.target.value)
+                    }
+                    placeholder="// Custom JavaScript to execute before screenshot&#10;// Example: window.scrollTo(0, 1000); await new Promise(r => setTimeout(r, 1000));"
+                    value={options.customScrollScript}
+                  />
+                  <p className="mt-1 text-muted-foreground text-xs">
+                    Custom JavaScript to execute. Use await for delays.
+                  </p>
+                </div>
+              )}
+
+              <div className="text-muted-foreground text-sm">
+                <strong>Selected strategy:</strong> {(() => {
+                  if (options.scrollStrategy === "simple") {
+                    return "Basic scroll through page to trigger animations";
+                  }
+                  if (options.scrollStrategy === "progressive") {
+                    return "Slower scroll with pauses at key positions - ideal for scroll-driven content carousels";
+                  }
+                  return "Custom JavaScript execution";
+                })()}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Animated Capture Options */}
+        {(options.format === "gif" || options.format === "mp4") && (
+          <div className="space-y-4 rounded-lg border bg-muted/30 p-4">
+            <h4 className="font-semibold text-sm">Animated Capture Settings</h4>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                checked={options.enableAnimatedCapture}
+                id="enable-animated-capture"
+                onCheckedChange={(checked) =>
+                  updateOption("enableAnimatedCapture", checked)
+                }
+              />
+              <Label htmlFor="enable-animated-capture">
+                Enable scroll animation
+              </Label>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              <div>
+                <Label
+                  className="mb-2 block font-medium text-sm"
+                  htmlFor="animation-duration"
+                >
+                  Animation Duration (seconds)
+                </Label>
+                <Input
+                  id="animation-duration"
+                  max="30"
+                  min="1"
+                  onChange={(e) =>
+                    updateOption("animationDuration", e.target.value)
+                  }
+                  placeholder="5"
+                  type="number"
+                  value={options.animationDuration}
+                />
+                <p className="mt-1 text-muted-foreground text-xs">
+                  Total length of animation (1-30 seconds)
+                </p>
+              </div>
+
+              {options.enableAnimatedCapture && (
+                <div>
+                  <Label
+                    className="mb-2 block font-medium text-sm"
+                    htmlFor="scroll-delay"
+                  >
+                    Scroll Delay (ms)
+                  </Label>
+                  <Input
+                    id="scroll-delay"
+                    max="2000"
+                    min="100"
+                    onChange={(e) =>
+                      updateOption("scrollDelay", e.target.value)
+                    }
+                    placeholder="500"
+                    type="number"
+                    value={options.scrollDelay}
+                  />
+                  <p className="mt-1 text-muted-foreground text-xs">
+                    Pause between scroll steps (100-2000ms)
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Timeout */}
+        <div>
+          <Label className="mb-2 block font-medium text-sm" htmlFor="timeout">
+            Timeout (seconds)
+          </Label>
+          <Input
+            id="timeout"
+            max="300"
+            min="1"
+            onChange={(e) => updateOption("timeout", e.target.value)}
+            placeholder="60"
+            type="number"
+            value={options.timeout}
+          />
+          <p className="mt-1 text-muted-foreground text-xs">
+            Maximum time to wait for page to load (1-300 seconds)
+          </p>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,144 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  getProvider,
+  type ProviderId,
+  SCREENSHOT_PROVIDERS,
+} from "@/lib/providers";
+
+interface ApiKeySettingsProps {
+  provider: ProviderId;
+  onProviderChange: (value: ProviderId) => void;
+  apiKey: string;
+  onApiKeyChange: (value: string) => void;
+  signedRequests: boolean;
+  onSignedRequestsChange: (checked: boolean) => void;
+  secretKey: string;
+  onSecretKeyChange: (value: string) => void;
+}
+
+export function ApiKeySettings({
+  provider: providerId,
+  onProviderChange,
+  apiKey,
+  onApiKeyChange,
+  signedRequests,
+  onSignedRequestsChange,
+  secretKey,
+  onSecretKeyChange,
+}: ApiKeySettingsProps) {
+  const provider = getProvider(providerId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <Label className="font-medium text-base" htmlFor="api-key">
+          {provider.name} API Key (optional)
+        </Label>
+        <Select onValueChange={onProviderChange} value={providerId}>
+          <SelectTrigger aria-label="Capture provider" className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(SCREENSHOT_PROVIDERS).map((item) => (
+              <SelectItem key={item.id} value={item.id}>
+                {item.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Input
+        className="h-12 text-base"
+        id="api-key"
+        onChange={(e) => onApiKeyChange(e.target.value)}
+        placeholder="Leave blank to use the server's key"
+        type="password"
+        value={apiKey}
+      />
+      <p className="text-muted-foreground text-sm leading-relaxed">
+        Captures run through this site's server, which holds its own key. To use
+        your own quota instead, get a free API key at{" "}
+        <a
+          className="font-medium text-primary underline underline-offset-4 transition-opacity hover:opacity-80"
+          href={provider.signupUrl}
+          rel="noopener noreferrer"
+          target="_blank"
+        >
+          {new URL(provider.signupUrl).hostname}
+        </a>
+        <br />
+        <strong>
+          Use your "Access Key"
+          {provider.capabilities.signedRequests && " (not the Secret Key)"}
+        </strong>{" "}
+        from the API section of your dashboard.
+      </p>
+      {provider.capabilities.signedRequests && (
+        <SignedRequestSettings
+          apiKey={apiKey}
+          onSecretKeyChange={onSecretKeyChange}
+          onSignedRequestsChange={onSignedRequestsChange}
+          secretKey={secretKey}
+          signedRequests={signedRequests}
+        />
+      )}
+    </div>
+  );
+}
+
+function SignedRequestSettings({
+  apiKey,
+  signedRequests,
+  onSignedRequestsChange,
+  secretKey,
+  onSecretKeyChange,
+}: Omit<
+  ApiKeySettingsProps,
+  "provider" | "onProviderChange" | "onApiKeyChange"
+>) {
+  return (
+    <>
+      <div className="flex items-center space-x-2">
+        <Switch
+          checked={signedRequests}
+          id="signed-requests"
+          onCheckedChange={onSignedRequestsChange}
+        />
+        <Label htmlFor="signed-requests">Signed requests</Label>
+      </div>
+      {signedRequests && (
+        <div className="space-y-3 rounded-lg border bg-muted/30 p-4">
+          <Label className="block font-medium text-sm" htmlFor="secret-key">
+            ScreenshotOne Secret Key
+          </Label>
+          <Input
+            disabled={!apiKey.trim()}
+            id="secret-key"
+            onChange={(e) => onSecretKeyChange(e.target.value)}
+            placeholder={
+              apiKey.trim()
+                ? "Enter your ScreenshotOne secret key"
+                : "Using the server's secret key"
+            }
+            type="password"
+            value={apiKey.trim() ? secretKey : ""}
+          />
+          <p className="text-muted-foreground text-xs">
+            Each request is signed with an HMAC of its parameters, so a leaked
+            request URL can't be replayed with different options. Only needed
+            alongside your own access key; signing always happens on the server.
+          </p>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,117 @@
+import {
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  Download,
+  Loader2,
+} from "lucide-react";
+import { SectionGallery } from "@/components/SectionGallery";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { BatchItem, BatchStatus } from "@/hooks/useBatchCapture";
+import {
+  describeProgress,
+  getSectionsSize,
+  type ScreenshotSection,
+} from "@/lib/capture";
+import { downloadFile } from "@/lib/download";
+import { buildSectionFilename } from "@/lib/filenames";
+import { isRasterFormat } from "@/lib/screenshot-options";
+import { formatBytes } from "@/lib/utils";
+
+interface BatchResultsProps {
+  items: BatchItem[];
+}
+
+export function StatusIcon({ status }: { status: BatchStatus }) {
+  if (status === "capturing") {
+    return <Loader2 className="h-4 w-4 shrink-0 animate-spin" />;
+  }
+  if (status === "done") {
+    return <CheckCircle className="h-4 w-4 shrink-0 text-primary" />;
+  }
+  if (status === "error") {
+    return <AlertCircle className="h-4 w-4 shrink-0 text-destructive" />;
+  }
+  return <Clock className="h-4 w-4 shrink-0 text-muted-foreground" />;
+}
+
+function BatchResultGroup({ item }: { item: BatchItem }) {
+  const downloadSection = (section: ScreenshotSection) => {
+    downloadFile(
+      section.objectUrl,
+      buildSectionFilename(item.url, item.options.format, section.index, {
+        includePath: true,
+      })
+    );
+  };
+
+  const downloadAll = () => {
+    for (const section of item.sections) {
+      downloadSection(section);
+    }
+  };
+
+  return (
+    <Card className="overflow-hidden border border-neutral-200 shadow-sm">
+      <CardHeader className="flex flex-row items-center gap-3 space-y-0 pb-4">
+        <StatusIcon status={item.status} />
+        <CardTitle className="min-w-0 flex-1 truncate font-medium text-base">
+          {item.url}
+        </CardTitle>
+        {item.progress && (
+          <span className="shrink-0 text-muted-foreground text-sm">
+            {describeProgress(item.progress)}
+          </span>
+        )}
+        {item.status === "done" && (
+          <Button onClick={downloadAll} size="sm" variant="outline">
+            <Download className="mr-2 h-4 w-4" />
+            {item.sections.length > 1
+              ? `Download All (${item.sections.length})`
+              : "Download"}
+          </Button>
+        )}
+      </CardHeader>
+      {item.error && (
+        <CardContent className="pt-0 text-destructive text-sm">
+          {item.error}
+        </CardContent>
+      )}
+      {item.status === "done" && isRasterFormat(item.options.format) && (
+        <CardContent>
+          <SectionGallery
+            onDownload={downloadSection}
+            sections={item.sections}
+          />
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+export function BatchResults({ items }: BatchResultsProps) {
+  const finished = items.filter(
+    (item) => item.status === "done" || item.status === "error"
+  ).length;
+  const failed = items.filter((item) => item.status === "error").length;
+  const size = getSectionsSize(items.flatMap((item) => item.sections));
+
+  return (
+    <div className="slide-in-from-bottom animate-in space-y-8 duration-1000">
+      <div className="space-y-2 text-center">
+        <h2 className="font-semibold text-2xl">Batch Results</h2>
+        <p className="text-muted-foreground text-sm">
+          {finished} of {items.length} pages finished
+          {failed > 0 && `, ${failed} failed`}
+          {size > 0 && ` · ${formatBytes(size)} in memory`}
+        </p>
+      </div>
+      <div className="space-y-6">
+        {items.map((item) => (
+          <BatchResultGroup item={item} key={item.url} />
+        ))}
+      </div>
+    </div>
+  );
+}
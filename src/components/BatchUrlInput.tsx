@@ -0,0 +1,127 @@
+import { Camera, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MAX_BATCH_CONCURRENCY, parseUrlList } from "@/lib/batch";
+
+interface BatchCaptureControlsProps {
+  urlCount: number;
+  // What each capture is, for the button label
+  unit?: string;
+  summary: string;
+  concurrency: string;
+  onConcurrencyChange: (value: string) => void;
+  isRunning: boolean;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+// Concurrency limit and start button shared by the URL list, sitemap and
+// device matrix modes
+export function BatchCaptureControls({
+  urlCount,
+  unit = "Page",
+  summary,
+  concurrency,
+  onConcurrencyChange,
+  isRunning,
+  onStart,
+  onCancel,
+}: BatchCaptureControlsProps) {
+  return (
+    <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+      <div className="sm:w-48">
+        <Label
+          className="mb-2 block font-medium text-sm"
+          htmlFor="batch-concurrency"
+        >
+          Concurrent captures
+        </Label>
+        <Input
+          disabled={isRunning}
+          id="batch-concurrency"
+          max={MAX_BATCH_CONCURRENCY}
+          min="1"
+          onChange={(e) => onConcurrencyChange(e.target.value)}
+          placeholder="3"
+          type="number"
+          value={concurrency}
+        />
+      </div>
+      <p className="flex-1 text-muted-foreground text-sm sm:pb-3">{summary}</p>
+      {isRunning && (
+        <Button
+          className="h-12 w-full px-6 sm:w-auto sm:shrink-0"
+          onClick={onCancel}
+          size="lg"
+          variant="outline"
+        >
+          <X className="mr-2 h-4 w-4" />
+          Cancel
+        </Button>
+      )}
+      <Button
+        className="h-12 w-full px-6 sm:w-auto sm:shrink-0"
+        disabled={isRunning || urlCount === 0}
+        onClick={onStart}
+        size="lg"
+      >
+        {isRunning ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Capturing...
+          </>
+        ) : (
+          <>
+            <Camera className="mr-2 h-4 w-4" />
+            Capture {urlCount === 1 ? `1 ${unit}` : `${urlCount} ${unit}s`}
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
+
+interface BatchUrlInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  concurrency: string;
+  onConcurrencyChange: (value: string) => void;
+  isRunning: boolean;
+  onStart: (urls: string[]) => void;
+  onCancel: () => void;
+}
+
+export function BatchUrlInput({
+  value,
+  onChange,
+  concurrency,
+  onConcurrencyChange,
+  isRunning,
+  onStart,
+  onCancel,
+}: BatchUrlInputProps) {
+  const urls = parseUrlList(value);
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        className="h-40 w-full resize-y rounded-md border bg-background px-3 py-2 text-sm"
+        disabled={isRunning}
+        id="batch-urls"
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="One URL per line, or paste the contents of a sitemap.xml"
+        value={value}
+      />
+      <BatchCaptureControls
+        concurrency={concurrency}
+        isRunning={isRunning}
+        onCancel={onCancel}
+        onConcurrencyChange={onConcurrencyChange}
+        onStart={() => onStart(urls)}
+        summary={`${urls.length === 1 ? "1 valid URL" : `${urls.length} valid URLs`} detected`}
+        urlCount={urls.length}
+      />
+    </div>
+  );
+}
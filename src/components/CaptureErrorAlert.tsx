@@ -0,0 +1,62 @@
+import { AlertCircle, RotateCcw } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import type { CaptureError } from "@/lib/capture";
+import type { SuggestedFix } from "@/lib/providers";
+import { describeAttempt } from "@/lib/retry";
+
+interface CaptureErrorAlertProps {
+  error: string;
+  // Set when a capture failed, for its hint, fix and attempt history
+  failure: CaptureError | null;
+  onRetry: (fix: SuggestedFix) => void;
+}
+
+export function CaptureErrorAlert({
+  error,
+  failure,
+  onRetry,
+}: CaptureErrorAlertProps) {
+  const attempts = failure?.attempts ?? [];
+  const fix = failure?.fix;
+
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription className="space-y-2">
+        <p>{error}</p>
+        {failure?.hint && (
+          <p className="font-medium">
+            {failure.hint}
+            {failure.documentationUrl && (
+              <>
+                {" "}
+                <a
+                  className="underline"
+                  href={failure.documentationUrl}
+                  rel="noopener noreferrer"
+                  target="_blank"
+                >
+                  Learn more
+                </a>
+              </>
+            )}
+          </p>
+        )}
+        {attempts.length > 1 && (
+          <ul className="list-disc pl-4 text-xs">
+            {attempts.map((attempt) => (
+              <li key={attempt.attempt}>{describeAttempt(attempt)}</li>
+            ))}
+          </ul>
+        )}
+        {fix && (
+          <Button onClick={() => onRetry(fix)} size="sm" variant="outline">
+            <RotateCcw className="mr-2 h-4 w-4" />
+            {fix.label}
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,205 @@
+import { Download, FolderOpen, Image, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { revokeSections, type ScreenshotSection } from "@/lib/capture";
+import { downloadBlob } from "@/lib/download";
+import { buildFilenamePrefix, getFileExtension } from "@/lib/filenames";
+import type { HistoryEntry } from "@/lib/history";
+import { formatBytes } from "@/lib/utils";
+import { buildSectionsZip } from "@/lib/zip";
+
+interface CaptureHistoryProps {
+  entries: HistoryEntry[];
+  quotaMb: number;
+  error: string | null;
+  loadSections: (entry: HistoryEntry) => Promise<ScreenshotSection[]>;
+  onOpen: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onQuotaChange: (megabytes: number) => void;
+}
+
+function HistoryThumbnail({ blob }: { blob: Blob | null }) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) {
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setSrc(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  if (!(blob && src)) {
+    return (
+      <div className="flex aspect-[8/5] items-center justify-center rounded bg-muted">
+        <Image className="h-6 w-6 text-muted-foreground" />
+      </div>
+    );
+  }
+  return (
+    <img
+      alt=""
+      className="aspect-[8/5] w-full rounded border object-cover object-top"
+      height={200}
+      src={src}
+      width={320}
+    />
+  );
+}
+
+// Download a stored capture: one file as-is, several sections as a ZIP
+async function downloadEntry(
+  entry: HistoryEntry,
+  loadSections: (entry: HistoryEntry) => Promise<ScreenshotSection[]>
+) {
+  const sections = await loadSections(entry);
+  try {
+    const prefix = buildFilenamePrefix(entry.url);
+    if (sections.length === 1) {
+      downloadBlob(
+        sections[0].blob,
+        `${prefix}.${getFileExtension(entry.options.format)}`
+      );
+    } else {
+      const zip = await buildSectionsZip([{ info: entry, sections }], {
+        includeManifest: true,
+      });
+      downloadBlob(zip, `${prefix}.zip`);
+    }
+  } finally {
+    revokeSections(sections);
+  }
+}
+
+export function CaptureHistory({
+  entries,
+  quotaMb,
+  error,
+  loadSections,
+  onOpen,
+  onDelete,
+  onQuotaChange,
+}: CaptureHistoryProps) {
+  const [quotaInput, setQuotaInput] = useState(quotaMb.toString());
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const used = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  useEffect(() => {
+    setQuotaInput(quotaMb.toString());
+  }, [quotaMb]);
+
+  // Apply the quota once editing is done, so half-typed values don't evict
+  const commitQuota = () => {
+    const value = Number(quotaInput);
+    if (value > 0 && value !== quotaMb) {
+      onQuotaChange(value);
+    } else {
+      setQuotaInput(quotaMb.toString());
+    }
+  };
+
+  const download = async (entry: HistoryEntry) => {
+    setDownloadError(null);
+    try {
+      await downloadEntry(entry, loadSections);
+    } catch {
+      setDownloadError("Failed to download the capture from history");
+    }
+  };
+
+  return (
+    <div className="slide-in-from-bottom animate-in space-y-6 duration-1000">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div className="space-y-1">
+          <h2 className="font-semibold text-2xl">History</h2>
+          <p className="text-muted-foreground text-sm">
+            {formatBytes(used)} of {quotaMb} MB used. The least recently opened
+            captures are removed first when space runs out.
+          </p>
+        </div>
+        <div className="sm:w-40">
+          <Label
+            className="mb-2 block font-medium text-sm"
+            htmlFor="history-quota"
+          >
+            Storage limit (MB)
+          </Label>
+          <Input
+            id="history-quota"
+            min="1"
+            onBlur={commitQuota}
+            onChange={(e) => setQuotaInput(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && commitQuota()}
+            type="number"
+            value={quotaInput}
+          />
+        </div>
+      </div>
+
+      {(error || downloadError) && (
+        <p className="text-destructive text-sm">{error ?? downloadError}</p>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-center text-muted-foreground text-sm">
+          Captures you take are saved here, even after a refresh.
+        </p>
+      ) : (
+        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+          {entries.map((entry) => (
+            <Card
+              className="overflow-hidden border border-neutral-200 shadow-sm"
+              key={entry.id}
+            >
+              <CardContent className="space-y-3 p-4">
+                <HistoryThumbnail blob={entry.thumbnail} />
+                <div className="min-w-0">
+                  <p className="truncate font-medium text-sm">{entry.url}</p>
+                  <p className="text-muted-foreground text-xs">
+                    {new Date(entry.capturedAt).toLocaleString()} ·{" "}
+                    {entry.options.format.toUpperCase()} ·{" "}
+                    {entry.sectionCount === 1
+                      ? "1 section"
+                      : `${entry.sectionCount} sections`}{" "}
+                    · {formatBytes(entry.size)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    className="flex-1"
+                    onClick={() => onOpen(entry)}
+                    size="sm"
+                    variant="outline"
+                  >
+                    <FolderOpen className="mr-2 h-4 w-4" />
+                    Open
+                  </Button>
+                  <Button
+                    aria-label="Download capture"
+                    onClick={() => download(entry)}
+                    size="sm"
+                    variant="outline"
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    aria-label="Delete capture"
+                    onClick={() => onDelete(entry.id)}
+                    size="sm"
+                    variant="outline"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
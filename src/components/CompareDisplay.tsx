@@ -0,0 +1,133 @@
+import type { CompareImages } from "@/hooks/useCompare";
+import type { CompareResult } from "@/lib/compare";
+
+export type CompareMode = "diff" | "side-by-side" | "slider" | "onion";
+
+interface CompareDisplayProps {
+  mode: CompareMode;
+  result: CompareResult;
+  images: CompareImages;
+  // Slider position or onion-skin opacity, 0-100
+  mix: number;
+}
+
+const IMAGE_CLASS = "block h-auto w-full";
+
+// Outline each changed region on top of the diff overlay
+function RegionOutlines({ result }: { result: CompareResult }) {
+  return (
+    <>
+      {result.regions.map((region) => (
+        <div
+          className="absolute border-2 border-red-500"
+          key={`${region.x}-${region.y}`}
+          style={{
+            left: `${(region.x / result.width) * 100}%`,
+            top: `${(region.y / result.height) * 100}%`,
+            width: `${(region.width / result.width) * 100}%`,
+            height: `${(region.height / result.height) * 100}%`,
+          }}
+        />
+      ))}
+    </>
+  );
+}
+
+export function CompareDisplay({
+  mode,
+  result,
+  images,
+  mix,
+}: CompareDisplayProps) {
+  if (mode === "side-by-side") {
+    return (
+      <div className="grid grid-cols-2 gap-4">
+        <figure className="space-y-2">
+          <figcaption className="text-muted-foreground text-sm">
+            Before
+          </figcaption>
+          <img
+            alt="Before"
+            className={IMAGE_CLASS}
+            height={result.height}
+            src={images.before}
+            width={result.width}
+          />
+        </figure>
+        <figure className="space-y-2">
+          <figcaption className="text-muted-foreground text-sm">
+            After
+          </figcaption>
+          <img
+            alt="After"
+            className={IMAGE_CLASS}
+            height={result.height}
+            src={images.after}
+            width={result.width}
+          />
+        </figure>
+      </div>
+    );
+  }
+
+  if (mode === "slider") {
+    return (
+      <div className="relative overflow-hidden rounded border">
+        <img
+          alt="Before"
+          className={IMAGE_CLASS}
+          height={result.height}
+          src={images.before}
+          width={result.width}
+        />
+        <img
+          alt="After"
+          className={`${IMAGE_CLASS} absolute inset-0`}
+          height={result.height}
+          src={images.after}
+          style={{ clipPath: `inset(0 0 0 ${mix}%)` }}
+          width={result.width}
+        />
+        <div
+          className="absolute inset-y-0 w-0.5 bg-primary"
+          style={{ left: `${mix}%` }}
+        />
+      </div>
+    );
+  }
+
+  if (mode === "onion") {
+    return (
+      <div className="relative overflow-hidden rounded border">
+        <img
+          alt="Before"
+          className={IMAGE_CLASS}
+          height={result.height}
+          src={images.before}
+          width={result.width}
+        />
+        <img
+          alt="After"
+          className={`${IMAGE_CLASS} absolute inset-0`}
+          height={result.height}
+          src={images.after}
+          style={{ opacity: mix / 100 }}
+          width={result.width}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative overflow-hidden rounded border">
+      <img
+        alt="Changed pixels highlighted"
+        className={IMAGE_CLASS}
+        height={result.height}
+        src={images.overlay}
+        width={result.width}
+      />
+      <RegionOutlines result={result} />
+    </div>
+  );
+}
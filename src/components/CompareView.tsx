@@ -0,0 +1,326 @@
+import { AlertCircle, Loader2, Upload } from "lucide-react";
+import { useRef, useState } from "react";
+import { CompareDisplay, type CompareMode } from "@/components/CompareDisplay";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCompare } from "@/hooks/useCompare";
+import {
+  type CaptureInfo,
+  revokeSections,
+  type ScreenshotSection,
+} from "@/lib/capture";
+import { type CompareSource, sectionsToParts } from "@/lib/compare";
+import type { HistoryEntry } from "@/lib/history";
+import { isRasterFormat } from "@/lib/screenshot-options";
+import { normalizeUrl } from "@/lib/url";
+
+const CURRENT_VALUE = "current";
+const UPLOAD_VALUE = "upload";
+
+const COMPARE_MODES: Record<CompareMode, string> = {
+  diff: "Diff overlay",
+  "side-by-side": "Side by side",
+  slider: "Slider",
+  onion: "Onion skin",
+};
+
+interface CompareViewProps {
+  current: { info: CaptureInfo; sections: ScreenshotSection[] } | null;
+  entries: HistoryEntry[];
+  loadSections: (entry: HistoryEntry) => Promise<ScreenshotSection[]>;
+}
+
+interface SourcePickerProps {
+  id: string;
+  label: string;
+  value: string;
+  source: CompareSource | null;
+  hasCurrent: boolean;
+  entries: HistoryEntry[];
+  onSelect: (value: string) => void;
+  onUpload: (file: File) => void;
+}
+
+function SourcePicker({
+  id,
+  label,
+  value,
+  source,
+  hasCurrent,
+  entries,
+  onSelect,
+  onUpload,
+}: SourcePickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div>
+      <Label className="mb-2 block font-medium text-sm" htmlFor={id}>
+        {label}
+      </Label>
+      <div className="flex gap-2">
+        <Select onValueChange={onSelect} value={value}>
+          <SelectTrigger className="min-w-0 flex-1" id={id}>
+            <SelectValue placeholder="Choose a capture" />
+          </SelectTrigger>
+          <SelectContent>
+            {hasCurrent && (
+              <SelectItem value={CURRENT_VALUE}>Current capture</SelectItem>
+            )}
+            {value === UPLOAD_VALUE && source && (
+              <SelectItem value={UPLOAD_VALUE}>{source.label}</SelectItem>
+            )}
+            {entries.map((entry) => (
+              <SelectItem key={entry.id} value={entry.id}>
+                {entry.url} · {new Date(entry.capturedAt).toLocaleString()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          aria-label={`Upload ${label.toLowerCase()} image`}
+          onClick={() => fileInputRef.current?.click()}
+          variant="outline"
+        >
+          <Upload className="h-4 w-4" />
+        </Button>
+        <input
+          accept="image/png,image/jpeg,image/webp"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              onUpload(file);
+            }
+            e.target.value = "";
+          }}
+          ref={fileInputRef}
+          type="file"
+        />
+      </div>
+    </div>
+  );
+}
+
+function isSamePage(a: CompareSource | null, b: CompareSource | null) {
+  if (!(a?.url && b?.url)) {
+    return true;
+  }
+  return normalizeUrl(a.url) === normalizeUrl(b.url);
+}
+
+// Pick two captures of a page and see what changed between them
+export function CompareView({
+  current,
+  entries,
+  loadSections,
+}: CompareViewProps) {
+  const [selection, setSelection] = useState({ before: "", after: "" });
+  const [sources, setSources] = useState<{
+    before: CompareSource | null;
+    after: CompareSource | null;
+  }>({ before: null, after: null });
+  const [thresholdPercent, setThresholdPercent] = useState(10);
+  const [mode, setMode] = useState<CompareMode>("diff");
+  const [mix, setMix] = useState(50);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const { result, images, isComparing, error } = useCompare(
+    sources.before,
+    sources.after,
+    thresholdPercent / 100
+  );
+  const stillEntries = entries.filter((entry) =>
+    isRasterFormat(entry.options.format)
+  );
+  const hasCurrent =
+    current !== null && isRasterFormat(current.info.options.format);
+
+  const setSource = (
+    side: "before" | "after",
+    value: string,
+    source: CompareSource
+  ) => {
+    setSelection((prev) => ({ ...prev, [side]: value }));
+    setSources((prev) => ({ ...prev, [side]: source }));
+  };
+
+  const selectSource = async (side: "before" | "after", value: string) => {
+    setLoadError(null);
+    if (value === CURRENT_VALUE && current) {
+      setSource(side, value, {
+        label: "Current capture",
+        url: current.info.url,
+        parts: sectionsToParts(current.sections),
+      });
+      return;
+    }
+    const entry = stillEntries.find((item) => item.id === value);
+    if (!entry) {
+      return;
+    }
+    try {
+      const sections = await loadSections(entry);
+      // Only the blobs are needed, not the object URLs
+      revokeSections(sections);
+      setSource(side, value, {
+        label: entry.url,
+        url: entry.url,
+        parts: sectionsToParts(sections),
+      });
+    } catch {
+      setLoadError("Failed to load the capture from history");
+    }
+  };
+
+  const uploadSource = (side: "before" | "after", file: File) => {
+    setLoadError(null);
+    setSource(side, UPLOAD_VALUE, {
+      label: file.name,
+      url: null,
+      parts: [{ blob: file, offsetY: 0 }],
+    });
+  };
+
+  return (
+    <div className="slide-in-from-bottom animate-in space-y-6 duration-1000">
+      <div className="space-y-1">
+        <h2 className="font-semibold text-2xl">Compare</h2>
+        <p className="text-muted-foreground text-sm">
+          Pick two captures of the same page, from history or uploaded files, to
+          see what changed.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <SourcePicker
+          entries={stillEntries}
+          hasCurrent={hasCurrent}
+          id="compare-before"
+          label="Before"
+          onSelect={(value) => selectSource("before", value)}
+          onUpload={(file) => uploadSource("before", file)}
+          source={sources.before}
+          value={selection.before}
+        />
+        <SourcePicker
+          entries={stillEntries}
+          hasCurrent={hasCurrent}
+          id="compare-after"
+          label="After"
+          onSelect={(value) => selectSource("after", value)}
+          onUpload={(file) => uploadSource("after", file)}
+          source={sources.after}
+          value={selection.after}
+        />
+      </div>
+
+      {!isSamePage(sources.before, sources.after) && (
+        <p className="flex items-center gap-2 text-muted-foreground text-sm">
+          <AlertCircle className="h-4 w-4" />
+          These captures are of different pages.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div>
+          <Label
+            className="mb-2 block font-medium text-sm"
+            htmlFor="compare-mode"
+          >
+            View
+          </Label>
+          <Select
+            onValueChange={(value: CompareMode) => setMode(value)}
+            value={mode}
+          >
+            <SelectTrigger id="compare-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(COMPARE_MODES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <div className="mb-2 flex items-center justify-between">
+            <Label className="font-medium text-sm" htmlFor="compare-threshold">
+              Threshold
+            </Label>
+            <span className="text-muted-foreground text-sm">
+              {thresholdPercent}%
+            </span>
+          </div>
+          <input
+            className="w-full accent-primary"
+            id="compare-threshold"
+            max="50"
+            min="0"
+            onChange={(e) => setThresholdPercent(Number(e.target.value))}
+            type="range"
+            value={thresholdPercent}
+          />
+        </div>
+        {(mode === "slider" || mode === "onion") && (
+          <div>
+            <div className="mb-2 flex items-center justify-between">
+              <Label className="font-medium text-sm" htmlFor="compare-mix">
+                {mode === "slider" ? "Position" : "After opacity"}
+              </Label>
+              <span className="text-muted-foreground text-sm">{mix}%</span>
+            </div>
+            <input
+              className="w-full accent-primary"
+              id="compare-mix"
+              max="100"
+              min="0"
+              onChange={(e) => setMix(Number(e.target.value))}
+              type="range"
+              value={mix}
+            />
+          </div>
+        )}
+      </div>
+
+      {(loadError || error) && (
+        <p className="text-destructive text-sm">{loadError ?? error}</p>
+      )}
+
+      {isComparing && (
+        <p className="flex items-center gap-2 text-muted-foreground text-sm">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Comparing...
+        </p>
+      )}
+
+      {result && images && (
+        <div className="space-y-4">
+          <p className="text-sm">
+            <strong>{result.percentage.toFixed(2)}%</strong> of pixels changed (
+            {result.mismatched.toLocaleString()} of{" "}
+            {result.total.toLocaleString()}) in {result.regions.length}{" "}
+            {result.regions.length === 1 ? "region" : "regions"}
+            {result.scale < 1 &&
+              `, compared at ${Math.round(result.scale * 100)}% size`}
+          </p>
+          <CompareDisplay
+            images={images}
+            mix={mix}
+            mode={mode}
+            result={result}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { Check, Copy, Loader2, X } from "lucide-react";
+import { useState } from "react";
+import { Button, type ButtonProps } from "@/components/ui/button";
+
+type CopyStatus = "idle" | "copying" | "copied" | "failed";
+
+const STATUS_LABELS: Record<Exclude<CopyStatus, "idle">, string> = {
+  copying: "Copying...",
+  copied: "Copied!",
+  failed: "Copy failed",
+};
+
+interface CopyButtonProps extends Omit<ButtonProps, "onClick"> {
+  label: string;
+  onCopy: () => Promise<void>;
+}
+
+function StatusIcon({ status }: { status: CopyStatus }) {
+  if (status === "copying") {
+    return <Loader2 className="mr-2 h-4 w-4 animate-spin" />;
+  }
+  if (status === "copied") {
+    return <Check className="mr-2 h-4 w-4" />;
+  }
+  if (status === "failed") {
+    return <X className="mr-2 h-4 w-4" />;
+  }
+  return <Copy className="mr-2 h-4 w-4" />;
+}
+
+// Copy action that reports its own result for a couple of seconds
+export function CopyButton({
+  label,
+  onCopy,
+  disabled,
+  ...props
+}: CopyButtonProps) {
+  const [status, setStatus] = useState<CopyStatus>("idle");
+
+  const copy = async () => {
+    setStatus("copying");
+    try {
+      await onCopy();
+      setStatus("copied");
+    } catch {
+      setStatus("failed");
+    }
+    setTimeout(() => setStatus("idle"), 2000);
+  };
+
+  return (
+    <Button
+      {...props}
+      disabled={disabled || status === "copying"}
+      onClick={copy}
+    >
+      <StatusIcon status={status} />
+      {status === "idle" ? label : STATUS_LABELS[status]}
+    </Button>
+  );
+}
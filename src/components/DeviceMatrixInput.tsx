@@ -0,0 +1,81 @@
+import { BatchCaptureControls } from "@/components/BatchUrlInput";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { DeviceChoice } from "@/lib/devices";
+import {
+  getDeviceLabel,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+
+interface DeviceMatrixInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  options: ScreenshotOptions;
+  // Every device that can be ticked: ScreenshotOne's and the user's own
+  choices: DeviceChoice[];
+  devices: string[];
+  onToggleDevice: (device: string) => void;
+  concurrency: string;
+  onConcurrencyChange: (value: string) => void;
+  isRunning: boolean;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+// One URL captured once per ticked device
+export function DeviceMatrixInput({
+  value,
+  onChange,
+  options,
+  choices,
+  devices,
+  onToggleDevice,
+  concurrency,
+  onConcurrencyChange,
+  isRunning,
+  onStart,
+  onCancel,
+}: DeviceMatrixInputProps) {
+  const count = value.trim() ? devices.length : 0;
+
+  return (
+    <div className="space-y-3">
+      <Input
+        className="h-12 text-base"
+        disabled={isRunning}
+        id="matrix-url"
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Enter website URL (e.g., example.com or https://example.com)"
+        type="url"
+        value={value}
+      />
+      <fieldset className="flex flex-wrap gap-2" disabled={isRunning}>
+        <legend className="sr-only">Devices</legend>
+        {choices.map((choice) => (
+          <Button
+            aria-pressed={devices.includes(choice.value)}
+            key={choice.value}
+            onClick={() => onToggleDevice(choice.value)}
+            size="sm"
+            type="button"
+            variant={devices.includes(choice.value) ? "default" : "outline"}
+          >
+            {choice.value === "custom"
+              ? getDeviceLabel({ ...options, devicePreset: "custom" })
+              : choice.label}
+          </Button>
+        ))}
+      </fieldset>
+      <BatchCaptureControls
+        concurrency={concurrency}
+        isRunning={isRunning}
+        onCancel={onCancel}
+        onConcurrencyChange={onConcurrencyChange}
+        onStart={onStart}
+        summary={`${devices.length === 1 ? "1 device" : `${devices.length} devices`} selected`}
+        unit="Device"
+        urlCount={count}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { Download, FileArchive, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { StatusIcon } from "@/components/BatchResults";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { BatchItem } from "@/hooks/useBatchCapture";
+import {
+  describeProgress,
+  getSectionsSize,
+  type ScreenshotSection,
+} from "@/lib/capture";
+import { downloadBlob, downloadFile } from "@/lib/download";
+import {
+  buildFilenamePrefix,
+  buildSectionFilename,
+  getDeviceSlug,
+} from "@/lib/filenames";
+import { getDeviceLabel, isRasterFormat } from "@/lib/screenshot-options";
+import { formatBytes } from "@/lib/utils";
+import { buildSectionsZip } from "@/lib/zip";
+
+interface DeviceMatrixResultsProps {
+  items: BatchItem[];
+  onError: (message: string) => void;
+}
+
+function downloadSection(item: BatchItem, section: ScreenshotSection) {
+  downloadFile(
+    section.objectUrl,
+    buildSectionFilename(item.url, item.options.format, section.index, {
+      device: getDeviceSlug(item.options),
+    })
+  );
+}
+
+function DeviceColumn({ item }: { item: BatchItem }) {
+  const downloadAll = () => {
+    for (const section of item.sections) {
+      downloadSection(item, section);
+    }
+  };
+
+  return (
+    <Card className="overflow-hidden border border-neutral-200 shadow-sm">
+      <CardHeader className="flex flex-row items-center gap-3 space-y-0 pb-4">
+        <StatusIcon status={item.status} />
+        <CardTitle className="min-w-0 flex-1 truncate font-medium text-base">
+          {getDeviceLabel(item.options)}
+        </CardTitle>
+        {item.progress && (
+          <span className="shrink-0 text-muted-foreground text-sm">
+            {describeProgress(item.progress)}
+          </span>
+        )}
+        {item.status === "done" && (
+          <Button
+            aria-label={`Download ${getDeviceLabel(item.options)}`}
+            onClick={downloadAll}
+            size="sm"
+            variant="outline"
+          >
+            <Download className="h-4 w-4" />
+            {item.sections.length > 1 && (
+              <span className="ml-2">{item.sections.length}</span>
+            )}
+          </Button>
+        )}
+      </CardHeader>
+      {item.error && (
+        <CardContent className="pt-0 text-destructive text-sm">
+          {item.error}
+        </CardContent>
+      )}
+      {item.status === "done" && isRasterFormat(item.options.format) && (
+        <CardContent className="max-h-[32rem] overflow-y-auto">
+          {/* Sections stacked back into the full page; click one to save it */}
+          {item.sections.map((section) => (
+            <button
+              className="block w-full cursor-pointer"
+              key={section.index}
+              onClick={() => downloadSection(item, section)}
+              title={`Download section ${section.index}`}
+              type="button"
+            >
+              <img
+                alt={`Section ${section.index}`}
+                className="h-auto w-full"
+                height={section.height}
+                src={section.objectUrl}
+                width={section.width}
+              />
+            </button>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+// Captures of one page on several devices, side by side
+export function DeviceMatrixResults({
+  items,
+  onError,
+}: DeviceMatrixResultsProps) {
+  const [isZipping, setIsZipping] = useState(false);
+  const done = items.filter((item) => item.status === "done");
+  const failed = items.filter((item) => item.status === "error").length;
+  const size = getSectionsSize(items.flatMap((item) => item.sections));
+
+  // Every device's sections in one archive, named by device
+  const downloadZip = async () => {
+    setIsZipping(true);
+    try {
+      const zip = await buildSectionsZip(
+        done.map((item) => ({
+          info: {
+            url: item.url,
+            options: item.options,
+            capturedAt: item.capturedAt ?? new Date().toISOString(),
+          },
+          sections: item.sections,
+        })),
+        { includeManifest: true, includeDevice: true }
+      );
+      downloadBlob(zip, `${buildFilenamePrefix(items[0].url)}-devices.zip`);
+    } catch (error) {
+      onError(
+        error instanceof Error ? error.message : "Failed to create the ZIP"
+      );
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="slide-in-from-bottom animate-in space-y-8 duration-1000">
+      <div className="space-y-2 text-center">
+        <h2 className="font-semibold text-2xl">Device Matrix</h2>
+        <p className="text-muted-foreground text-sm">
+          {items[0]?.url} · {done.length} of {items.length} devices captured
+          {failed > 0 && `, ${failed} failed`}
+          {size > 0 && ` · ${formatBytes(size)} in memory`}
+        </p>
+        {done.length > 1 && (
+          <Button
+            disabled={isZipping}
+            onClick={downloadZip}
+            size="sm"
+            variant="outline"
+          >
+            {isZipping ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FileArchive className="mr-2 h-4 w-4" />
+            )}
+            Download ZIP
+          </Button>
+        )}
+      </div>
+      <div className="grid items-start gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {items.map((item) => (
+          <DeviceColumn item={item} key={item.options.devicePreset} />
+        ))}
+      </div>
+    </div>
+  );
+}
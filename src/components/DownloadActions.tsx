@@ -0,0 +1,137 @@
+import { Download, FileArchive, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { CopyButton } from "@/components/CopyButton";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  type CaptureInfo,
+  getSectionsSize,
+  type ScreenshotSection,
+} from "@/lib/capture";
+import { canCopyImages, copySection } from "@/lib/clipboard";
+import { downloadBlob } from "@/lib/download";
+import { buildFilenamePrefix } from "@/lib/filenames";
+import { isRasterFormat } from "@/lib/screenshot-options";
+import { formatBytes } from "@/lib/utils";
+import { buildSectionsZip } from "@/lib/zip";
+
+interface DownloadActionsProps {
+  info: CaptureInfo;
+  sections: ScreenshotSection[];
+  onDownloadAll: () => void;
+  onZipDownloaded: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+// Copies the sections of a capture in order, one per click. The clipboard
+// holds one image, and each click is its own user activation, which Safari
+// and Firefox need for clipboard writes.
+function CopySectionsButton({ sections }: { sections: ScreenshotSection[] }) {
+  const [copyIndex, setCopyIndex] = useState(0);
+
+  const copyNextSection = async () => {
+    await copySection(sections[copyIndex]);
+    setCopyIndex((copyIndex + 1) % sections.length);
+  };
+
+  return (
+    <CopyButton
+      className="h-12 px-8 text-base"
+      label={`Copy Section ${copyIndex + 1} of ${sections.length}`}
+      onCopy={copyNextSection}
+      size="lg"
+      variant="outline"
+    />
+  );
+}
+
+export function DownloadActions({
+  info,
+  sections,
+  onDownloadAll,
+  onZipDownloaded,
+  onError,
+}: DownloadActionsProps) {
+  const [includeManifest, setIncludeManifest] = useState(true);
+  const [isZipping, setIsZipping] = useState(false);
+  const canCopyStack =
+    sections.length > 1 &&
+    isRasterFormat(info.options.format) &&
+    canCopyImages();
+
+  // Package every section into one archive instead of one download each
+  const downloadZip = async () => {
+    setIsZipping(true);
+    try {
+      const zip = await buildSectionsZip([{ info, sections }], {
+        includeManifest,
+      });
+      downloadBlob(zip, `${buildFilenamePrefix(info.url)}.zip`);
+      onZipDownloaded(`Downloaded ${sections.length} sections as a ZIP!`);
+    } catch (error) {
+      onError(
+        error instanceof Error ? error.message : "Failed to create the ZIP"
+      );
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4 pt-8">
+      <div className="flex flex-wrap justify-center gap-3">
+        <Button
+          className="h-12 px-8 text-base"
+          onClick={onDownloadAll}
+          size="lg"
+        >
+          <Download className="mr-3 h-4 w-4" />
+          {sections.length > 1
+            ? `Download All Sections (${sections.length})`
+            : `Download ${info.options.format.toUpperCase()}`}
+        </Button>
+        {sections.length > 1 && (
+          <Button
+            className="h-12 px-8 text-base"
+            disabled={isZipping}
+            onClick={downloadZip}
+            size="lg"
+            variant="outline"
+          >
+            {isZipping ? (
+              <Loader2 className="mr-3 h-4 w-4 animate-spin" />
+            ) : (
+              <FileArchive className="mr-3 h-4 w-4" />
+            )}
+            Download ZIP
+          </Button>
+        )}
+        {canCopyStack && (
+          // Keyed by the capture, so a new one starts from its first section
+          <CopySectionsButton key={sections[0].objectUrl} sections={sections} />
+        )}
+      </div>
+      {canCopyStack && (
+        <p className="max-w-md text-center text-muted-foreground text-xs">
+          Copies one section per click. Select a vertical auto-layout frame in
+          Figma and paste after each copy to stack them in order, or use the
+          Figma plugin to do it in one go.
+        </p>
+      )}
+      {sections.length > 1 && (
+        <div className="flex items-center space-x-2">
+          <Switch
+            checked={includeManifest}
+            id="zip-manifest"
+            onCheckedChange={setIncludeManifest}
+          />
+          <Label htmlFor="zip-manifest">Include manifest.json in ZIP</Label>
+        </div>
+      )}
+      <p className="text-muted-foreground text-xs">
+        Holding {formatBytes(getSectionsSize(sections))} in memory
+      </p>
+    </div>
+  );
+}
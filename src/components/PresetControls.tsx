@@ -0,0 +1,179 @@
+import { Download, Save, Star, Trash2, Upload } from "lucide-react";
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { usePresets } from "@/hooks/usePresets";
+import { MAX_PRESET_NAME_LENGTH } from "@/lib/presets";
+import type { ScreenshotOptions } from "@/lib/screenshot-options";
+
+interface PresetControlsProps {
+  presets: ReturnType<typeof usePresets>;
+  options: ScreenshotOptions;
+  onApply: (options: ScreenshotOptions) => void;
+}
+
+export function PresetControls({
+  presets,
+  options,
+  onApply,
+}: PresetControlsProps) {
+  const [selected, setSelected] = useState("");
+  const [name, setName] = useState("");
+  const [message, setMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isDefault = selected !== "" && presets.defaultPreset === selected;
+
+  const applyPreset = (presetName: string) => {
+    const preset = presets.presets.find((item) => item.name === presetName);
+    if (preset) {
+      setSelected(preset.name);
+      setName(preset.name);
+      onApply(preset.options);
+      setMessage(null);
+    }
+  };
+
+  const savePreset = () => {
+    presets.savePreset(name, options);
+    setSelected(name.trim());
+    setMessage({ text: `Saved preset "${name.trim()}"`, isError: false });
+  };
+
+  const deletePreset = () => {
+    presets.deletePreset(selected);
+    setMessage({ text: `Deleted preset "${selected}"`, isError: false });
+    setSelected("");
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    try {
+      const count = await presets.importPresets(file);
+      setMessage({
+        text: `Imported ${count === 1 ? "1 preset" : `${count} presets`}`,
+        isError: false,
+      });
+    } catch (error) {
+      setMessage({
+        text:
+          error instanceof Error ? error.message : "Failed to import presets",
+        isError: true,
+      });
+    } finally {
+      // Allow importing the same file again after fixing it
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="font-medium text-base" htmlFor="preset-name">
+        Presets
+      </Label>
+      <div className="flex flex-col gap-3 sm:flex-row">
+        <Select
+          disabled={presets.presets.length === 0}
+          onValueChange={applyPreset}
+          value={selected}
+        >
+          <SelectTrigger aria-label="Apply preset" className="sm:w-64">
+            <SelectValue
+              placeholder={
+                presets.presets.length === 0 ? "No presets yet" : "Apply preset"
+              }
+            />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.presets.map((preset) => (
+              <SelectItem key={preset.name} value={preset.name}>
+                {preset.name}
+                {preset.name === presets.defaultPreset && " (default)"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          className="flex-1"
+          id="preset-name"
+          maxLength={MAX_PRESET_NAME_LENGTH}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && name.trim() && savePreset()}
+          placeholder="Preset name, e.g. Figma desktop 2x"
+          value={name}
+        />
+        <Button disabled={!name.trim()} onClick={savePreset} variant="outline">
+          <Save className="mr-2 h-4 w-4" />
+          Save
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          disabled={!selected}
+          onClick={() =>
+            presets.changeDefaultPreset(isDefault ? null : selected)
+          }
+          size="sm"
+          variant="ghost"
+        >
+          <Star className={`mr-2 h-4 w-4 ${isDefault ? "fill-current" : ""}`} />
+          {isDefault ? "Default preset" : "Use as default"}
+        </Button>
+        <Button
+          disabled={!selected}
+          onClick={deletePreset}
+          size="sm"
+          variant="ghost"
+        >
+          <Trash2 className="mr-2 h-4 w-4" />
+          Delete
+        </Button>
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          size="sm"
+          variant="ghost"
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Import
+        </Button>
+        <Button
+          disabled={presets.presets.length === 0}
+          onClick={presets.exportPresets}
+          size="sm"
+          variant="ghost"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+        <input
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => importFile(e.target.files?.[0])}
+          ref={fileInputRef}
+          type="file"
+        />
+      </div>
+      {message && (
+        <p
+          className={`text-sm ${message.isError ? "text-destructive" : "text-muted-foreground"}`}
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
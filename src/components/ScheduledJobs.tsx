@@ -0,0 +1,476 @@
+import {
+  CalendarClock,
+  ChevronDown,
+  ChevronUp,
+  Download,
+  FolderOpen,
+  KeyRound,
+  Play,
+  RefreshCw,
+  Trash2,
+} from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useScheduledJobs } from "@/hooks/useScheduledJobs";
+import { parseUrlList } from "@/lib/batch";
+import { downloadFile } from "@/lib/download";
+import { fetchJobRuns, getCaptureFileUrl } from "@/lib/jobs-api";
+import type { ProviderId } from "@/lib/providers";
+import {
+  type CaptureJob,
+  describeSchedule,
+  getRunCaptureSize,
+  type JobInterval,
+  type JobRun,
+  MAX_JOB_NAME_LENGTH,
+  type RunCapture,
+  WEEKDAYS,
+} from "@/lib/schedules";
+import type { ScreenshotOptions } from "@/lib/screenshot-options";
+import { formatBytes } from "@/lib/utils";
+
+interface ScheduledJobsProps {
+  // New jobs capture with the form's current options and provider
+  options: ScreenshotOptions;
+  provider: ProviderId;
+  onOpenCapture: (run: JobRun, capture: RunCapture) => void;
+}
+
+interface JobFormProps {
+  options: ScreenshotOptions;
+  provider: ProviderId;
+  onCreate: ReturnType<typeof useScheduledJobs>["createJob"];
+}
+
+function JobForm({ options, provider, onCreate }: JobFormProps) {
+  const [name, setName] = useState("");
+  const [urlInput, setUrlInput] = useState("");
+  const [jobInterval, setJobInterval] = useState<JobInterval>("weekly");
+  const [weekday, setWeekday] = useState(1);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const urls = parseUrlList(urlInput);
+
+  const saveJob = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onCreate({
+        name,
+        urls,
+        options,
+        provider,
+        interval: jobInterval,
+        weekday,
+      });
+      setName("");
+      setUrlInput("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't save the job");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border bg-muted/30 p-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <Label className="mb-2 block text-sm" htmlFor="job-name">
+            Name
+          </Label>
+          <Input
+            id="job-name"
+            maxLength={MAX_JOB_NAME_LENGTH}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Client homepages"
+            value={name}
+          />
+        </div>
+        <div>
+          <Label className="mb-2 block text-sm">Runs</Label>
+          <Select
+            onValueChange={(value: JobInterval) => setJobInterval(value)}
+            value={jobInterval}
+          >
+            <SelectTrigger aria-label="How often the job runs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {jobInterval === "weekly" && (
+          <div>
+            <Label className="mb-2 block text-sm">On</Label>
+            <Select
+              onValueChange={(value) => setWeekday(Number(value))}
+              value={weekday.toString()}
+            >
+              <SelectTrigger aria-label="Day of the week">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEKDAYS.map((day, index) => (
+                  <SelectItem key={day} value={index.toString()}>
+                    {day}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+      <textarea
+        aria-label="Pages to capture"
+        className="h-28 w-full resize-y rounded-md border bg-background px-3 py-2 text-sm"
+        onChange={(e) => setUrlInput(e.target.value)}
+        placeholder="One URL per line, or paste the contents of a sitemap.xml"
+        value={urlInput}
+      />
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <p className="flex-1 text-muted-foreground text-xs">
+          {urls.length === 1 ? "1 page" : `${urls.length} pages`}, captured with
+          the current options at 06:00 UTC using the server's API keys.
+        </p>
+        <Button
+          disabled={isSaving || !name.trim() || urls.length === 0}
+          onClick={saveJob}
+          size="sm"
+        >
+          <CalendarClock className="mr-2 h-4 w-4" />
+          Schedule Job
+        </Button>
+      </div>
+      {error && <p className="text-destructive text-sm">{error}</p>}
+    </div>
+  );
+}
+
+// Download every section of a page, named as stored
+function downloadSections(capture: RunCapture) {
+  for (const { key } of capture.sections) {
+    downloadFile(getCaptureFileUrl(key), key.slice(key.lastIndexOf("/") + 1));
+  }
+}
+
+function RunCaptureRow({
+  run,
+  capture,
+  onOpen,
+}: {
+  run: JobRun;
+  capture: RunCapture;
+  onOpen: (run: JobRun, capture: RunCapture) => void;
+}) {
+  const sectionCount = capture.sections.length;
+
+  return (
+    <li className="flex items-center gap-3 text-sm">
+      <span className="min-w-0 flex-1 truncate">{capture.url}</span>
+      {capture.status === "pending" && (
+        <span className="shrink-0 text-muted-foreground text-xs">Queued</span>
+      )}
+      {capture.status === "failed" && (
+        <span className="max-w-[50%] truncate text-destructive text-xs">
+          {capture.error ?? "Not captured"}
+        </span>
+      )}
+      {capture.status === "captured" && (
+        <>
+          <span className="shrink-0 text-muted-foreground text-xs">
+            {sectionCount === 1 ? "1 section" : `${sectionCount} sections`} ·{" "}
+            {formatBytes(getRunCaptureSize(capture))}
+          </span>
+          <Button
+            aria-label={`Open ${capture.url}`}
+            onClick={() => onOpen(run, capture)}
+            size="sm"
+            variant="ghost"
+          >
+            <FolderOpen className="h-4 w-4" />
+          </Button>
+          <Button
+            aria-label={`Download ${capture.url}`}
+            onClick={() => downloadSections(capture)}
+            size="sm"
+            variant="ghost"
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+    </li>
+  );
+}
+
+// Past runs of a job, loaded when the job is expanded
+function JobRuns({
+  token,
+  jobId,
+  onOpen,
+}: {
+  token: string;
+  jobId: string;
+  onOpen: (run: JobRun, capture: RunCapture) => void;
+}) {
+  const [runs, setRuns] = useState<JobRun[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRuns = useCallback(async () => {
+    setError(null);
+    try {
+      setRuns(await fetchJobRuns(token, jobId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't load past runs");
+    }
+  }, [token, jobId]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-sm">Past runs</h4>
+        <Button onClick={loadRuns} size="sm" variant="ghost">
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+      {error && <p className="text-destructive text-sm">{error}</p>}
+      {runs?.length === 0 && (
+        <p className="text-muted-foreground text-sm">
+          No runs yet. Use Run now, or wait for the next scheduled run.
+        </p>
+      )}
+      {runs?.map((run) => {
+        const captured = run.captures.filter(
+          (capture) => capture.status === "captured"
+        ).length;
+        return (
+          <div className="space-y-2" key={run.id}>
+            <p className="text-muted-foreground text-xs">
+              {new Date(run.startedAt).toLocaleString()} · {captured} of{" "}
+              {run.captures.length} captured
+              {run.finishedAt === null && " · in progress"}
+            </p>
+            <ul className="space-y-1">
+              {run.captures.map((capture) => (
+                <RunCaptureRow
+                  capture={capture}
+                  key={capture.url}
+                  onOpen={onOpen}
+                  run={run}
+                />
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function JobCard({
+  token,
+  job,
+  onRun,
+  onDelete,
+  onOpen,
+}: {
+  token: string;
+  job: CaptureJob;
+  onRun: (jobId: string) => Promise<JobRun>;
+  onDelete: (jobId: string) => void;
+  onOpen: (run: JobRun, capture: RunCapture) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [runStatus, setRunStatus] = useState<string | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  const runNow = async () => {
+    setRunError(null);
+    try {
+      await onRun(job.id);
+      setRunStatus(
+        "Run started. Pages are captured one at a time; refresh Runs to see them come in."
+      );
+    } catch (err) {
+      setRunStatus(null);
+      setRunError(
+        err instanceof Error ? err.message : "Couldn't start the run"
+      );
+    }
+  };
+
+  return (
+    <Card className="overflow-hidden border border-neutral-200 shadow-sm">
+      <CardContent className="space-y-4 p-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="min-w-0 flex-1">
+            <p className="truncate font-medium">{job.name}</p>
+            <p className="text-muted-foreground text-xs">
+              {describeSchedule(job)} ·{" "}
+              {job.urls.length === 1 ? "1 page" : `${job.urls.length} pages`} ·{" "}
+              {job.options.format.toUpperCase()}
+            </p>
+          </div>
+          <Button onClick={runNow} size="sm" variant="outline">
+            <Play className="mr-2 h-4 w-4" />
+            Run now
+          </Button>
+          <Button
+            aria-expanded={expanded}
+            onClick={() => setExpanded((prev) => !prev)}
+            size="sm"
+            variant="outline"
+          >
+            {expanded ? (
+              <ChevronUp className="mr-2 h-4 w-4" />
+            ) : (
+              <ChevronDown className="mr-2 h-4 w-4" />
+            )}
+            Runs
+          </Button>
+          <Button
+            aria-label={`Delete ${job.name}`}
+            onClick={() => onDelete(job.id)}
+            size="sm"
+            variant="outline"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+        {runStatus && (
+          <p className="text-muted-foreground text-xs">{runStatus}</p>
+        )}
+        {runError && <p className="text-destructive text-xs">{runError}</p>}
+        {expanded && <JobRuns jobId={job.id} onOpen={onOpen} token={token} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+// The deployment's API token, which every jobs route asks for
+function TokenForm({
+  token,
+  onChange,
+}: {
+  token: string;
+  onChange: (token: string) => void;
+}) {
+  const [draft, setDraft] = useState(token);
+
+  // Show the saved token once it has loaded
+  useEffect(() => {
+    setDraft(token);
+  }, [token]);
+
+  return (
+    <form
+      className="flex flex-col gap-2 sm:flex-row sm:items-end"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onChange(draft);
+      }}
+    >
+      <div className="flex-1">
+        <Label className="mb-2 block text-sm" htmlFor="api-token">
+          API token
+        </Label>
+        <Input
+          autoComplete="off"
+          id="api-token"
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="The deployment's API_TOKEN secret"
+          type="password"
+          value={draft}
+        />
+      </div>
+      <Button
+        disabled={draft.trim() === token}
+        size="sm"
+        type="submit"
+        variant="outline"
+      >
+        <KeyRound className="mr-2 h-4 w-4" />
+        Use Token
+      </Button>
+    </form>
+  );
+}
+
+// Jobs the Worker captures on its cron, and the sections from past runs
+export function ScheduledJobs({
+  options,
+  provider,
+  onOpenCapture,
+}: ScheduledJobsProps) {
+  const {
+    token,
+    changeToken,
+    jobs,
+    isLoading,
+    error,
+    createJob,
+    deleteJob,
+    runJob,
+  } = useScheduledJobs();
+
+  return (
+    <div className="slide-in-from-bottom animate-in space-y-6 duration-1000">
+      <div className="space-y-1">
+        <h2 className="font-semibold text-2xl">Scheduled Captures</h2>
+        <p className="text-muted-foreground text-sm">
+          Capture a set of pages every day or week without anyone clicking Take
+          Screenshot. Sections are kept in the deployment's storage.
+        </p>
+      </div>
+
+      <TokenForm onChange={changeToken} token={token} />
+
+      {token && (
+        <JobForm onCreate={createJob} options={options} provider={provider} />
+      )}
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+
+      {!token && (
+        <p className="text-center text-muted-foreground text-sm">
+          Enter the deployment's API token to see and schedule jobs.
+        </p>
+      )}
+      {token && !isLoading && jobs.length === 0 && !error && (
+        <p className="text-center text-muted-foreground text-sm">
+          No scheduled jobs yet.
+        </p>
+      )}
+      <div className="space-y-4">
+        {jobs.map((job) => (
+          <JobCard
+            job={job}
+            key={job.id}
+            onDelete={deleteJob}
+            onOpen={onOpenCapture}
+            onRun={runJob}
+            token={token}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { Download } from "lucide-react";
+import { CopyButton } from "@/components/CopyButton";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ScreenshotSection } from "@/lib/capture";
+import { canCopyImages, copySection } from "@/lib/clipboard";
+
+interface SectionGalleryProps {
+  sections: ScreenshotSection[];
+  onDownload: (section: ScreenshotSection) => void;
+}
+
+export function SectionGallery({ sections, onDownload }: SectionGalleryProps) {
+  const canCopy = canCopyImages();
+
+  return (
+    <div className="space-y-6">
+      {!canCopy && (
+        <p className="text-center text-muted-foreground text-sm">
+          This browser can't copy images to the clipboard, so download the
+          sections and drag them into Figma instead.
+        </p>
+      )}
+      <div className="grid gap-8 md:grid-cols-1 lg:grid-cols-2">
+        {sections.map((section) => (
+          <Card
+            className="overflow-hidden border-0 shadow-md"
+            key={section.index}
+          >
+            <CardHeader className="pb-4">
+              <CardTitle className="text-lg">Section {section.index}</CardTitle>
+            </CardHeader>
+            <CardContent className="p-6">
+              <div className="group relative">
+                <img
+                  alt={`Screenshot section ${section.index}`}
+                  className="h-auto w-full rounded border shadow-sm transition-transform group-hover:scale-[1.02]"
+                  height={section.height ?? 4096}
+                  src={section.objectUrl}
+                  width={section.width ?? 1920}
+                />
+                <div className="absolute inset-0 flex items-center justify-center gap-2 rounded bg-black/0 opacity-0 transition-colors group-hover:bg-black/10 group-hover:opacity-100">
+                  {canCopy && (
+                    <CopyButton
+                      className="bg-background/90 text-foreground hover:bg-background"
+                      label="Copy"
+                      onCopy={() => copySection(section)}
+                      size="sm"
+                    />
+                  )}
+                  <Button
+                    className="bg-background/90 text-foreground hover:bg-background"
+                    onClick={() => onDownload(section)}
+                    size="sm"
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    Download
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { Loader2, Search } from "lucide-react";
+import { useState } from "react";
+import { BatchCaptureControls } from "@/components/BatchUrlInput";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  filterUrls,
+  MAX_SITEMAP_FILES,
+  MAX_SITEMAP_URLS,
+  parsePatterns,
+  type SitemapDiscovery,
+} from "@/lib/sitemap";
+
+interface SitemapCrawlerProps {
+  concurrency: string;
+  onConcurrencyChange: (value: string) => void;
+  isRunning: boolean;
+  onStart: (urls: string[]) => void;
+  onCancel: () => void;
+}
+
+// Ask the Worker to fetch the sitemap so CORS doesn't get in the way
+async function requestSitemap(siteUrl: string): Promise<SitemapDiscovery> {
+  const response = await fetch(
+    `/api/sitemap?url=${encodeURIComponent(siteUrl.trim())}`
+  );
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as {
+      error?: string;
+    } | null;
+    throw new Error(body?.error ?? `Sitemap error: ${response.status}`);
+  }
+  return response.json();
+}
+
+export function SitemapCrawler({
+  concurrency,
+  onConcurrencyChange,
+  isRunning,
+  onStart,
+  onCancel,
+}: SitemapCrawlerProps) {
+  const [siteUrl, setSiteUrl] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [discovery, setDiscovery] = useState<SitemapDiscovery | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [include, setInclude] = useState("");
+  const [exclude, setExclude] = useState("");
+
+  const matching = filterUrls(
+    discovery?.urls ?? [],
+    parsePatterns(include),
+    parsePatterns(exclude)
+  );
+  const selectedUrls = matching.filter((url) => selected.has(url));
+
+  const findPages = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await requestSitemap(siteUrl);
+      setDiscovery(result);
+      setSelected(new Set(result.urls));
+    } catch (err) {
+      setDiscovery(null);
+      setError(err instanceof Error ? err.message : "Failed to load sitemap");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleUrl = (url: string, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(url);
+      } else {
+        next.delete(url);
+      }
+      return next;
+    });
+  };
+
+  // Select/deselect only the URLs that pass the current filters
+  const setAllMatching = (checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      for (const url of matching) {
+        if (checked) {
+          next.add(url);
+        } else {
+          next.delete(url);
+        }
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row">
+        <Input
+          className="h-12 flex-1 text-base"
+          disabled={isLoading || isRunning}
+          id="sitemap-url"
+          onChange={(e) => setSiteUrl(e.target.value)}
+          onKeyDown={(e) =>
+            e.key === "Enter" && siteUrl.trim() && !isLoading && findPages()
+          }
+          placeholder="example.com or https://example.com/sitemap.xml"
+          type="url"
+          value={siteUrl}
+        />
+        <Button
+          className="h-12 w-full px-6 sm:w-auto sm:shrink-0"
+          disabled={isLoading || isRunning || !siteUrl.trim()}
+          onClick={findPages}
+          size="lg"
+          variant="outline"
+        >
+          {isLoading ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Search className="mr-2 h-4 w-4" />
+          )}
+          Find Pages
+        </Button>
+      </div>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+
+      {discovery && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <Label
+                className="mb-2 block font-medium text-sm"
+                htmlFor="sitemap-include"
+              >
+                Include
+              </Label>
+              <Input
+                id="sitemap-include"
+                onChange={(e) => setInclude(e.target.value)}
+                placeholder="/blog/**, /pricing"
+                value={include}
+              />
+            </div>
+            <div>
+              <Label
+                className="mb-2 block font-medium text-sm"
+                htmlFor="sitemap-exclude"
+              >
+                Exclude
+              </Label>
+              <Input
+                id="sitemap-exclude"
+                onChange={(e) => setExclude(e.target.value)}
+                placeholder="/tag/*, /author/**"
+                value={exclude}
+              />
+            </div>
+          </div>
+          <p className="text-muted-foreground text-xs">
+            Comma-separated patterns matched against the page path.{" "}
+            <code>*</code> stays within one path segment, <code>**</code> spans
+            segments.
+          </p>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-muted-foreground text-sm">
+              {matching.length} of {discovery.urls.length} pages match,{" "}
+              {selectedUrls.length} selected
+            </p>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => setAllMatching(true)}
+                size="sm"
+                variant="ghost"
+              >
+                Select all
+              </Button>
+              <Button
+                onClick={() => setAllMatching(false)}
+                size="sm"
+                variant="ghost"
+              >
+                Select none
+              </Button>
+            </div>
+          </div>
+
+          <div className="max-h-72 divide-y overflow-y-auto rounded-md border">
+            {matching.map((url) => (
+              <label
+                className="flex cursor-pointer items-center gap-3 px-3 py-2 text-sm hover:bg-muted/50"
+                key={url}
+              >
+                <input
+                  checked={selected.has(url)}
+                  className="h-4 w-4 shrink-0 accent-primary"
+                  disabled={isRunning}
+                  onChange={(e) => toggleUrl(url, e.target.checked)}
+                  type="checkbox"
+                />
+                <span className="truncate">{url}</span>
+              </label>
+            ))}
+          </div>
+
+          {discovery.truncated && (
+            <p className="text-muted-foreground text-xs">
+              This sitemap is larger than Screenshotgun loads at once (
+              {MAX_SITEMAP_FILES} sitemap files or {MAX_SITEMAP_URLS} pages), so
+              some entries are missing.
+            </p>
+          )}
+
+          <BatchCaptureControls
+            concurrency={concurrency}
+            isRunning={isRunning}
+            onCancel={onCancel}
+            onConcurrencyChange={onConcurrencyChange}
+            onStart={() => onStart(selectedUrls)}
+            summary={`${selectedUrls.length} selected from ${discovery.sitemaps.length} ${discovery.sitemaps.length === 1 ? "sitemap" : "sitemaps"}`}
+            urlCount={selectedUrls.length}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
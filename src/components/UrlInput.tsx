@@ -0,0 +1,79 @@
+import { Camera, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useElapsedTime } from "@/hooks/useElapsedTime";
+import { type CaptureProgress, describeProgress } from "@/lib/capture";
+import { formatDuration } from "@/lib/utils";
+
+interface UrlInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  isLoading: boolean;
+  // Stage of the running capture, and when it started (a Date.now() value)
+  progress: CaptureProgress | null;
+  startedAt: number | null;
+  onSubmit: () => void;
+  onCancel: () => void;
+}
+
+export function UrlInput({
+  value,
+  onChange,
+  isLoading,
+  progress,
+  startedAt,
+  onSubmit,
+  onCancel,
+}: UrlInputProps) {
+  const elapsed = useElapsedTime(isLoading ? startedAt : null);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col gap-3 sm:flex-row">
+        <Input
+          className="h-12 flex-1 text-base"
+          disabled={isLoading}
+          id="url"
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && !isLoading && onSubmit()}
+          placeholder="Enter website URL (e.g., example.com or https://example.com)"
+          type="url"
+          value={value}
+        />
+        {isLoading ? (
+          <Button
+            className="h-12 w-full px-6 sm:w-auto sm:shrink-0"
+            onClick={onCancel}
+            size="lg"
+            variant="outline"
+          >
+            <X className="mr-2 h-4 w-4" />
+            Cancel
+          </Button>
+        ) : (
+          <Button
+            className="h-12 w-full px-6 sm:w-auto sm:shrink-0"
+            disabled={!value.trim()}
+            onClick={onSubmit}
+            size="lg"
+          >
+            <Camera className="mr-2 h-4 w-4" />
+            Take Screenshot
+          </Button>
+        )}
+      </div>
+      {isLoading && (
+        <p
+          aria-live="polite"
+          className="flex items-center gap-2 text-muted-foreground text-sm"
+        >
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="flex-1">
+            {progress ? describeProgress(progress) : "Starting..."}
+          </span>
+          <span className="tabular-nums">{formatDuration(elapsed)}</span>
+        </p>
+      )}
+    </div>
+  );
+}
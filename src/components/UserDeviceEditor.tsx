@@ -0,0 +1,191 @@
+import { Save, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { useUserDevices } from "@/hooks/useUserDevices";
+import {
+  DeviceError,
+  describeUserDevice,
+  MAX_DEVICE_NAME_LENGTH,
+  MAX_DEVICE_SCALE_FACTOR,
+  type UserDevice,
+} from "@/lib/devices";
+import type { ScreenshotOptions } from "@/lib/screenshot-options";
+
+interface UserDeviceEditorProps {
+  userDevices: ReturnType<typeof useUserDevices>;
+  options: ScreenshotOptions;
+  // Called with a device once saved, so it can be selected straight away
+  onSaved: (device: UserDevice) => void;
+}
+
+// Start from the viewport currently in the form
+function deviceFromOptions(options: ScreenshotOptions): UserDevice {
+  return {
+    name: "",
+    width: options.viewportWidth,
+    height: options.viewportHeight,
+    scaleFactor: options.deviceScaleFactor,
+    mobile: options.viewportMobile,
+    touch: options.viewportHasTouch,
+    userAgent: options.userAgent,
+  };
+}
+
+// Define viewports of our own: size, scale, mobile/touch emulation and
+// user agent
+export function UserDeviceEditor({
+  userDevices,
+  options,
+  onSaved,
+}: UserDeviceEditorProps) {
+  const [draft, setDraft] = useState(() => deviceFromOptions(options));
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDraft = <K extends keyof UserDevice>(
+    key: K,
+    value: UserDevice[K]
+  ) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+    setError(null);
+  };
+
+  const saveDevice = () => {
+    try {
+      const device = userDevices.saveDevice(draft);
+      setDraft(deviceFromOptions(options));
+      onSaved(device);
+    } catch (err) {
+      setError(err instanceof DeviceError ? err.message : "Invalid device");
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border bg-muted/30 p-4">
+      <h4 className="font-semibold text-sm">Your Devices</h4>
+
+      {userDevices.devices.length > 0 && (
+        <ul className="space-y-2">
+          {userDevices.devices.map((device) => (
+            <li
+              className="flex items-center justify-between gap-3 text-sm"
+              key={device.name}
+            >
+              <span className="min-w-0 truncate">
+                <span className="font-medium">{device.name}</span>{" "}
+                <span className="text-muted-foreground">
+                  {describeUserDevice(device)}
+                </span>
+              </span>
+              <Button
+                aria-label={`Delete ${device.name}`}
+                onClick={() => userDevices.deleteDevice(device.name)}
+                size="sm"
+                variant="ghost"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        <div className="col-span-2">
+          <Label className="mb-2 block text-sm" htmlFor="device-name">
+            Name
+          </Label>
+          <Input
+            id="device-name"
+            maxLength={MAX_DEVICE_NAME_LENGTH}
+            onChange={(e) => updateDraft("name", e.target.value)}
+            placeholder="Client tablet"
+            value={draft.name}
+          />
+        </div>
+        <div>
+          <Label className="mb-2 block text-sm" htmlFor="device-width">
+            Width (px)
+          </Label>
+          <Input
+            id="device-width"
+            min="1"
+            onChange={(e) => updateDraft("width", e.target.value)}
+            type="number"
+            value={draft.width}
+          />
+        </div>
+        <div>
+          <Label className="mb-2 block text-sm" htmlFor="device-height">
+            Height (px)
+          </Label>
+          <Input
+            id="device-height"
+            min="1"
+            onChange={(e) => updateDraft("height", e.target.value)}
+            type="number"
+            value={draft.height}
+          />
+        </div>
+        <div>
+          <Label className="mb-2 block text-sm" htmlFor="device-scale">
+            Scale Factor
+          </Label>
+          <Input
+            id="device-scale"
+            max={MAX_DEVICE_SCALE_FACTOR}
+            min="1"
+            onChange={(e) => updateDraft("scaleFactor", e.target.value)}
+            step="0.25"
+            type="number"
+            value={draft.scaleFactor}
+          />
+        </div>
+        <div className="col-span-2 md:col-span-3">
+          <Label className="mb-2 block text-sm" htmlFor="device-user-agent">
+            User Agent
+          </Label>
+          <Input
+            id="device-user-agent"
+            onChange={(e) => updateDraft("userAgent", e.target.value)}
+            placeholder="Leave empty for the browser default"
+            value={draft.userAgent}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6">
+        <div className="flex items-center space-x-2">
+          <Switch
+            checked={draft.mobile}
+            id="device-mobile"
+            onCheckedChange={(checked) => updateDraft("mobile", checked)}
+          />
+          <Label htmlFor="device-mobile">Mobile</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            checked={draft.touch}
+            id="device-touch"
+            onCheckedChange={(checked) => updateDraft("touch", checked)}
+          />
+          <Label htmlFor="device-touch">Touch</Label>
+        </div>
+        <Button
+          className="ml-auto"
+          disabled={!draft.name.trim()}
+          onClick={saveDevice}
+          size="sm"
+          variant="outline"
+        >
+          <Save className="mr-2 h-4 w-4" />
+          Save Device
+        </Button>
+      </div>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useEffect, useRef, useState } from "react";
+import { runWithConcurrency } from "@/lib/batch";
+import {
+  type CaptureCredentials,
+  CaptureError,
+  type CaptureInfo,
+  type CaptureProgress,
+  captureScreenshot,
+  isAbortError,
+  revokeSections,
+  type ScreenshotSection,
+} from "@/lib/capture";
+import type { ScreenshotOptions } from "@/lib/screenshot-options";
+
+export type BatchStatus = "queued" | "capturing" | "done" | "error";
+
+// One capture in a run: a page of a URL list, or a device of the matrix
+export interface BatchJob {
+  url: string;
+  options: ScreenshotOptions;
+}
+
+export interface BatchItem extends BatchJob {
+  status: BatchStatus;
+  sections: ScreenshotSection[];
+  progress: CaptureProgress | null;
+  error: string | null;
+  capturedAt: string | null;
+}
+
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  // Cleared before it finished, so there's nothing to report
+  cleared: boolean;
+}
+
+function revokeItems(items: BatchItem[]) {
+  for (const item of items) {
+    revokeSections(item.sections);
+  }
+}
+
+function getItemError(error: unknown): string {
+  if (isAbortError(error)) {
+    return "Cancelled";
+  }
+  if (error instanceof CaptureError && error.hint) {
+    return `${error.message}. ${error.hint}`;
+  }
+  return error instanceof Error ? error.message : "Failed to take screenshot";
+}
+
+export function useBatchCapture() {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Latest items, so a new run or unmount can release their object URLs
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  // Aborts every capture of the running batch, including queued ones
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+      revokeItems(itemsRef.current);
+    },
+    []
+  );
+
+  const runBatch = async (
+    jobs: BatchJob[],
+    concurrency: number,
+    credentials: CaptureCredentials,
+    onCaptured?: (info: CaptureInfo, sections: ScreenshotSection[]) => void
+  ): Promise<BatchSummary> => {
+    revokeItems(itemsRef.current);
+    setItems(
+      jobs.map(({ url, options }) => ({
+        url,
+        options,
+        status: "queued",
+        sections: [],
+        progress: null,
+        error: null,
+        capturedAt: null,
+      }))
+    );
+    setIsRunning(true);
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+    // False once the batch is cleared or replaced by another run
+    const isCurrent = () => controllerRef.current === controller;
+    const updateItem = (index: number, patch: Partial<BatchItem>) => {
+      if (!isCurrent()) {
+        return;
+      }
+      setItems((prev) =>
+        prev.map((item, i) => (i === index ? { ...item, ...patch } : item))
+      );
+    };
+
+    let succeeded = 0;
+    await runWithConcurrency(
+      jobs,
+      concurrency,
+      async ({ url, options }, index) => {
+        updateItem(index, { status: "capturing" });
+        try {
+          signal.throwIfAborted();
+          const sections = await captureScreenshot(url, options, credentials, {
+            onProgress: (progress) => updateItem(index, { progress }),
+            signal,
+          });
+          if (!isCurrent()) {
+            // Finished after the batch was cleared, so nothing shows it
+            revokeSections(sections);
+            return;
+          }
+          const capturedAt = new Date().toISOString();
+          updateItem(index, {
+            status: "done",
+            sections,
+            progress: null,
+            capturedAt,
+          });
+          onCaptured?.({ url, options, capturedAt }, sections);
+          succeeded += 1;
+        } catch (error) {
+          updateItem(index, {
+            status: "error",
+            progress: null,
+            error: getItemError(error),
+          });
+        }
+      }
+    );
+
+    const cleared = !isCurrent();
+    if (!cleared) {
+      controllerRef.current = null;
+      setIsRunning(false);
+    }
+    return { total: jobs.length, succeeded, cleared };
+  };
+
+  const cancelBatch = () => {
+    controllerRef.current?.abort();
+  };
+
+  // Stops a running batch too; captures that finish anyway are released
+  const clearBatch = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsRunning(false);
+    revokeItems(itemsRef.current);
+    setItems([]);
+  };
+
+  return { items, isRunning, runBatch, cancelBatch, clearBatch };
+}
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useState } from "react";
+import type { CaptureInfo, ScreenshotSection } from "@/lib/capture";
+import {
+  DEFAULT_HISTORY_QUOTA_MB,
+  deleteCapture,
+  enforceQuota,
+  type HistoryEntry,
+  listCaptures,
+  openCapture,
+  saveCapture,
+} from "@/lib/history";
+
+const QUOTA_STORAGE_KEY = "screenshotgun-history-quota";
+
+function toBytes(megabytes: number): number {
+  return megabytes * 1024 * 1024;
+}
+
+function loadQuota(): number {
+  const stored = Number(localStorage.getItem(QUOTA_STORAGE_KEY));
+  return stored > 0 ? stored : DEFAULT_HISTORY_QUOTA_MB;
+}
+
+// Past captures stored in IndexedDB, with a storage quota in megabytes
+export function useCaptureHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [quotaMb, setQuotaMb] = useState(DEFAULT_HISTORY_QUOTA_MB);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listCaptures());
+    } catch {
+      setError("Capture history isn't available in this browser");
+    }
+  }, []);
+
+  // Load the quota and stored captures on mount
+  useEffect(() => {
+    setQuotaMb(loadQuota());
+    refresh();
+  }, [refresh]);
+
+  // Runs a history change, showing its failure in place of the last one.
+  // The list is refreshed either way, as a quota change may half-complete
+  const update = async (change: () => Promise<unknown>, failure: string) => {
+    setError(null);
+    try {
+      await change();
+    } catch {
+      setError(failure);
+    }
+    await refresh();
+  };
+
+  const addCapture = (info: CaptureInfo, sections: ScreenshotSection[]) =>
+    update(
+      () => saveCapture(info, sections, toBytes(quotaMb)),
+      "Failed to save the capture to history"
+    );
+
+  // Resolves to the capture's sections, marking it as recently used. Rejects
+  // when the capture can't be read, so callers can report it where they are
+  const reopenCapture = async (entry: HistoryEntry) => {
+    const sections = await openCapture(entry);
+    await refresh();
+    return sections;
+  };
+
+  const removeCapture = (id: string) =>
+    update(
+      () => deleteCapture(id),
+      "Failed to delete the capture from history"
+    );
+
+  const changeQuota = async (megabytes: number) => {
+    if (!(megabytes > 0)) {
+      return;
+    }
+    setQuotaMb(megabytes);
+    localStorage.setItem(QUOTA_STORAGE_KEY, megabytes.toString());
+    await update(
+      () => enforceQuota(toBytes(megabytes)),
+      "Failed to apply the storage limit to history"
+    );
+  };
+
+  return {
+    entries,
+    quotaMb,
+    error,
+    addCapture,
+    reopenCapture,
+    removeCapture,
+    changeQuota,
+  };
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import {
+  type CompareResult,
+  type CompareSource,
+  compareInWorker,
+} from "@/lib/compare";
+
+export interface CompareImages {
+  before: string;
+  after: string;
+  overlay: string;
+}
+
+// Wait for the threshold slider to settle before re-running the diff
+const COMPARE_DEBOUNCE_MS = 300;
+
+function getErrorMessage(error: unknown) {
+  return error instanceof Error
+    ? error.message
+    : "Failed to compare the captures";
+}
+
+// Diff two sources whenever they or the threshold change, cancelling any
+// comparison still running
+export function useCompare(
+  before: CompareSource | null,
+  after: CompareSource | null,
+  threshold: number
+) {
+  const [result, setResult] = useState<CompareResult | null>(null);
+  const [images, setImages] = useState<CompareImages | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!(before && after)) {
+      setResult(null);
+      setIsComparing(false);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsComparing(true);
+      setError(null);
+      try {
+        setResult(
+          await compareInWorker(
+            { before: before.parts, after: after.parts, threshold },
+            controller.signal
+          )
+        );
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          setResult(null);
+          setError(getErrorMessage(err));
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsComparing(false);
+        }
+      }
+    }, COMPARE_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [before, after, threshold]);
+
+  // Object URLs for the stitched images, released when the result changes
+  useEffect(() => {
+    if (!result) {
+      setImages(null);
+      return;
+    }
+    const next = {
+      before: URL.createObjectURL(result.before),
+      after: URL.createObjectURL(result.after),
+      overlay: URL.createObjectURL(result.overlay),
+    };
+    setImages(next);
+    return () => {
+      URL.revokeObjectURL(next.before);
+      URL.revokeObjectURL(next.after);
+      URL.revokeObjectURL(next.overlay);
+    };
+  }, [result]);
+
+  return { result, images, isComparing, error };
+}
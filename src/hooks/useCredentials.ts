@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import type { CaptureCredentials } from "@/lib/capture";
+import {
+  DEFAULT_PROVIDER_ID,
+  isProviderId,
+  type ProviderId,
+} from "@/lib/providers";
+
+const API_KEY_STORAGE_KEY = "screenshotgun-api-key";
+const SECRET_KEY_STORAGE_KEY = "screenshotgun-secret-key";
+const SIGNED_REQUESTS_STORAGE_KEY = "screenshotgun-signed-requests";
+const PROVIDER_STORAGE_KEY = "screenshotgun-provider";
+
+// Each provider's key is stored separately; ScreenshotOne keeps the
+// original key name so existing keys still load
+function apiKeyStorageKey(provider: ProviderId): string {
+  return provider === "screenshotone"
+    ? API_KEY_STORAGE_KEY
+    : `screenshotgun-${provider}-api-key`;
+}
+
+function persistKey(storageKey: string, value: string) {
+  if (value.trim()) {
+    localStorage.setItem(storageKey, value);
+  } else {
+    localStorage.removeItem(storageKey);
+  }
+}
+
+// Selected capture provider and the user's keys for it, persisted in
+// localStorage
+export function useCredentials() {
+  const [provider, setProvider] = useState<ProviderId>(DEFAULT_PROVIDER_ID);
+  const [apiKey, setApiKey] = useState("");
+  const [signedRequests, setSignedRequests] = useState(false);
+  const [secretKey, setSecretKey] = useState("");
+
+  // Load provider, API key and signing settings from localStorage on mount
+  useEffect(() => {
+    const storedProvider = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    const initialProvider = isProviderId(storedProvider)
+      ? storedProvider
+      : DEFAULT_PROVIDER_ID;
+    setProvider(initialProvider);
+    setApiKey(localStorage.getItem(apiKeyStorageKey(initialProvider)) ?? "");
+    setSecretKey(localStorage.getItem(SECRET_KEY_STORAGE_KEY) ?? "");
+    setSignedRequests(
+      localStorage.getItem(SIGNED_REQUESTS_STORAGE_KEY) === "true"
+    );
+  }, []);
+
+  // Switch provider and load the key saved for it
+  const handleProviderChange = (value: ProviderId) => {
+    setProvider(value);
+    localStorage.setItem(PROVIDER_STORAGE_KEY, value);
+    setApiKey(localStorage.getItem(apiKeyStorageKey(value)) ?? "");
+  };
+
+  // Save API key to localStorage whenever it changes
+  const handleApiKeyChange = (value: string) => {
+    setApiKey(value);
+    persistKey(apiKeyStorageKey(provider), value);
+  };
+
+  // Save secret key to localStorage whenever it changes
+  const handleSecretKeyChange = (value: string) => {
+    setSecretKey(value);
+    persistKey(SECRET_KEY_STORAGE_KEY, value);
+  };
+
+  const handleSignedRequestsChange = (checked: boolean) => {
+    setSignedRequests(checked);
+    localStorage.setItem(SIGNED_REQUESTS_STORAGE_KEY, checked.toString());
+  };
+
+  const credentials: CaptureCredentials = {
+    provider,
+    apiKey,
+    secretKey,
+    signedRequests,
+  };
+
+  return {
+    credentials,
+    handleProviderChange,
+    handleApiKeyChange,
+    handleSecretKeyChange,
+    handleSignedRequestsChange,
+  };
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+
+// Whole seconds since `startedAt` (a Date.now() timestamp), ticking once a
+// second; 0 while nothing is running
+export function useElapsedTime(startedAt: number | null): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (startedAt === null) {
+      return;
+    }
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [startedAt]);
+
+  return startedAt === null
+    ? 0
+    : Math.max(0, Math.floor((now - startedAt) / 1000));
+}
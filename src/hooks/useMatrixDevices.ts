@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_MATRIX_DEVICES } from "@/lib/screenshot-options";
+
+const MATRIX_DEVICES_STORAGE_KEY = "screenshotgun-matrix-devices";
+
+function loadStoredDevices(): string[] {
+  const stored = localStorage.getItem(MATRIX_DEVICES_STORAGE_KEY);
+  if (!stored) {
+    return DEFAULT_MATRIX_DEVICES;
+  }
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed)
+      ? parsed.filter((value) => typeof value === "string")
+      : DEFAULT_MATRIX_DEVICES;
+  } catch {
+    return DEFAULT_MATRIX_DEVICES;
+  }
+}
+
+// Devices ticked for the device matrix, persisted in localStorage.
+// `available` lists every device value that can be picked, in order.
+export function useMatrixDevices(available: string[]) {
+  const [selected, setSelected] = useState<string[]>(DEFAULT_MATRIX_DEVICES);
+
+  // Load the selection from localStorage on mount
+  useEffect(() => {
+    setSelected(loadStoredDevices());
+  }, []);
+
+  // Ticked devices that still exist, in the order they are listed
+  const devices = available.filter((value) => selected.includes(value));
+
+  const toggleDevice = (device: string) => {
+    const next = devices.includes(device)
+      ? devices.filter((value) => value !== device)
+      : [...devices, device];
+    setSelected(next);
+    localStorage.setItem(MATRIX_DEVICES_STORAGE_KEY, JSON.stringify(next));
+  };
+
+  return { devices, toggleDevice };
+}
@@ -0,0 +1,30 @@
+import { useEffect } from "react";
+import {
+  buildPermalinkSearch,
+  type Permalink,
+  parsePermalink,
+} from "@/lib/permalink";
+import type { ScreenshotOptions } from "@/lib/screenshot-options";
+
+// Form state from the page's query string, or null for a plain visit
+export function readPermalink(): Permalink | null {
+  const permalink = parsePermalink(window.location.search);
+  const hasState =
+    permalink.url !== null || Object.keys(permalink.options).length > 0;
+  return hasState ? permalink : null;
+}
+
+// Mirror the URL and options into the query string, so the address bar is
+// always a link that reproduces the form
+export function usePermalinkSync(url: string, options: ScreenshotOptions) {
+  useEffect(() => {
+    const search = buildPermalinkSearch(url, options);
+    if (search !== window.location.search) {
+      window.history.replaceState(
+        null,
+        "",
+        `${window.location.pathname}${search}${window.location.hash}`
+      );
+    }
+  }, [url, options]);
+}
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { downloadBlob } from "@/lib/download";
+import {
+  mergePresets,
+  normalizePresetName,
+  type Preset,
+  parsePresetFile,
+  serializePresets,
+} from "@/lib/presets";
+import type { ScreenshotOptions } from "@/lib/screenshot-options";
+
+const PRESETS_STORAGE_KEY = "screenshotgun-presets";
+const DEFAULT_PRESET_STORAGE_KEY = "screenshotgun-default-preset";
+
+// Stored presets go through the same validation as imported files, so a
+// stale or hand-edited entry is dropped rather than breaking the form
+function loadStoredPresets(): Preset[] {
+  const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+  try {
+    return parsePresetFile(stored);
+  } catch {
+    return [];
+  }
+}
+
+// Options of the default preset, used as the form's starting state
+export function loadDefaultPresetOptions(): ScreenshotOptions | null {
+  const defaultName = localStorage.getItem(DEFAULT_PRESET_STORAGE_KEY);
+  const preset = loadStoredPresets().find((item) => item.name === defaultName);
+  return preset?.options ?? null;
+}
+
+// Named option presets persisted in localStorage
+export function usePresets() {
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [defaultPreset, setDefaultPreset] = useState<string | null>(null);
+
+  // Load presets from localStorage on mount
+  useEffect(() => {
+    const stored = loadStoredPresets();
+    const defaultName = localStorage.getItem(DEFAULT_PRESET_STORAGE_KEY);
+    setPresets(stored);
+    setDefaultPreset(
+      stored.some((preset) => preset.name === defaultName) ? defaultName : null
+    );
+  }, []);
+
+  const persistPresets = (next: Preset[]) => {
+    setPresets(next);
+    localStorage.setItem(PRESETS_STORAGE_KEY, serializePresets(next));
+  };
+
+  // Save the options under a name, replacing any preset with that name
+  const savePreset = (name: string, options: ScreenshotOptions) => {
+    const presetName = normalizePresetName(name);
+    if (presetName) {
+      persistPresets(mergePresets(presets, [{ name: presetName, options }]));
+    }
+  };
+
+  const changeDefaultPreset = (name: string | null) => {
+    setDefaultPreset(name);
+    if (name) {
+      localStorage.setItem(DEFAULT_PRESET_STORAGE_KEY, name);
+    } else {
+      localStorage.removeItem(DEFAULT_PRESET_STORAGE_KEY);
+    }
+  };
+
+  const deletePreset = (name: string) => {
+    persistPresets(presets.filter((preset) => preset.name !== name));
+    if (defaultPreset === name) {
+      changeDefaultPreset(null);
+    }
+  };
+
+  // Merge presets from an exported file; throws a PresetError if invalid
+  const importPresets = async (file: File): Promise<number> => {
+    const imported = parsePresetFile(await file.text());
+    persistPresets(mergePresets(presets, imported));
+    return imported.length;
+  };
+
+  const exportPresets = () => {
+    downloadBlob(
+      new Blob([serializePresets(presets)], { type: "application/json" }),
+      "screenshotgun-presets.json"
+    );
+  };
+
+  return {
+    presets,
+    defaultPreset,
+    savePreset,
+    deletePreset,
+    changeDefaultPreset,
+    importPresets,
+    exportPresets,
+  };
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from "react";
+import { fetchJobs, postJob, removeJob, startJobRun } from "@/lib/jobs-api";
+import type { CaptureJob, CaptureJobInput } from "@/lib/schedules";
+
+const API_TOKEN_STORAGE_KEY = "screenshotgun-api-token";
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+// Capture jobs saved in the Worker's R2 bucket and run on its cron, reached
+// with the deployment's API token (persisted in localStorage)
+export function useScheduledJobs() {
+  const [token, setToken] = useState("");
+  const [jobs, setJobs] = useState<CaptureJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the saved token on mount
+  useEffect(() => {
+    setToken(localStorage.getItem(API_TOKEN_STORAGE_KEY) ?? "");
+  }, []);
+
+  const changeToken = (value: string) => {
+    const trimmed = value.trim();
+    setToken(trimmed);
+    if (trimmed) {
+      localStorage.setItem(API_TOKEN_STORAGE_KEY, trimmed);
+    } else {
+      localStorage.removeItem(API_TOKEN_STORAGE_KEY);
+    }
+  };
+
+  const refresh = useCallback(async () => {
+    if (!token) {
+      setJobs([]);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setJobs(await fetchJobs(token));
+      setError(null);
+    } catch (err) {
+      setJobs([]);
+      setError(getErrorMessage(err, "Couldn't load scheduled jobs"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  // Load the saved jobs whenever the token changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Resolves once saved; rejects with the Worker's validation message
+  const createJob = async (input: CaptureJobInput) => {
+    const job = await postJob(token, input);
+    setJobs((prev) => [...prev, job]);
+  };
+
+  const deleteJob = async (jobId: string) => {
+    try {
+      await removeJob(token, jobId);
+      setJobs((prev) => prev.filter((job) => job.id !== jobId));
+    } catch (err) {
+      setError(getErrorMessage(err, "Couldn't delete the job"));
+    }
+  };
+
+  // Resolves once the run is queued; rejects if the Worker refused it
+  const runJob = (jobId: string) => startJobRun(token, jobId);
+
+  return {
+    token,
+    changeToken,
+    jobs,
+    isLoading,
+    error,
+    createJob,
+    deleteJob,
+    runJob,
+  };
+}
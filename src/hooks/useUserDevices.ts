@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import {
+  parseStoredDevices,
+  type UserDevice,
+  validateUserDevice,
+} from "@/lib/devices";
+
+const DEVICES_STORAGE_KEY = "screenshotgun-devices";
+
+// The user's own devices persisted in localStorage
+export function useUserDevices() {
+  const [devices, setDevices] = useState<UserDevice[]>([]);
+
+  // Load devices from localStorage on mount
+  useEffect(() => {
+    const stored = localStorage.getItem(DEVICES_STORAGE_KEY);
+    if (stored) {
+      setDevices(parseStoredDevices(stored));
+    }
+  }, []);
+
+  const persistDevices = (next: UserDevice[]) => {
+    setDevices(next);
+    localStorage.setItem(DEVICES_STORAGE_KEY, JSON.stringify(next));
+  };
+
+  // Add a device or replace the one with the same name; throws a
+  // DeviceError if a field is invalid
+  const saveDevice = (input: UserDevice): UserDevice => {
+    const device = validateUserDevice(input);
+    persistDevices(
+      [...devices.filter((item) => item.name !== device.name), device].sort(
+        (a, b) => a.name.localeCompare(b.name)
+      )
+    );
+    return device;
+  };
+
+  const deleteDevice = (name: string) => {
+    persistDevices(devices.filter((device) => device.name !== name));
+  };
+
+  return { devices, saveDevice, deleteDevice };
+}
@@ -0,0 +1,132 @@
+import type {
+  FailedResponse,
+  ProviderError,
+  ScreenshotProvider,
+} from "@/lib/providers";
+import {
+  isLossyFormat,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+import { getInlineScrollScript } from "@/lib/scroll-script";
+
+// ApiFlash: a Chrome-based screenshot API with a simpler parameter set.
+// See https://apiflash.com/documentation
+
+export const APIFLASH_API_URL = "https://api.apiflash.com/v1/urltoimage";
+
+// ApiFlash waits at most 10 seconds before capturing
+const MAX_DELAY_SECONDS = 10;
+
+// Our wait conditions (Puppeteer's names) mapped to ApiFlash's
+const WAIT_UNTIL: Record<string, string> = {
+  load: "page_loaded",
+  domcontentloaded: "dom_loaded",
+  networkidle0: "network_idle",
+  networkidle2: "network_idle",
+};
+
+// ApiFlash has no named devices, so the viewport size is always sent; user
+// devices have theirs copied into the options
+function setViewportParams(apiUrl: URL, options: ScreenshotOptions) {
+  apiUrl.searchParams.set("width", options.viewportWidth);
+  if (options.viewportHeight) {
+    apiUrl.searchParams.set("height", options.viewportHeight);
+  }
+  if (options.deviceScaleFactor !== "1") {
+    apiUrl.searchParams.set("scale_factor", options.deviceScaleFactor);
+  }
+  if (options.userAgent.trim()) {
+    apiUrl.searchParams.set("user_agent", options.userAgent.trim());
+  }
+}
+
+function setContentParams(apiUrl: URL, options: ScreenshotOptions) {
+  if (options.blockAds) {
+    apiUrl.searchParams.set("no_ads", "true");
+  }
+  if (options.blockCookieBanners) {
+    apiUrl.searchParams.set("no_cookie_banners", "true");
+  }
+  if (!options.cache) {
+    apiUrl.searchParams.set("fresh", "true");
+  }
+  if (isLossyFormat(options.format)) {
+    apiUrl.searchParams.set("quality", options.imageQuality);
+  }
+}
+
+function setTimingParams(apiUrl: URL, options: ScreenshotOptions) {
+  const delay = Math.min(
+    Number.parseInt(options.delay, 10) || 0,
+    MAX_DELAY_SECONDS
+  );
+  if (delay > 0) {
+    apiUrl.searchParams.set("delay", delay.toString());
+  }
+  const waitUntil = WAIT_UNTIL[options.waitUntil];
+  if (waitUntil && waitUntil !== "page_loaded") {
+    apiUrl.searchParams.set("wait_until", waitUntil);
+  }
+  const scrollScript = getInlineScrollScript(options);
+  if (scrollScript) {
+    apiUrl.searchParams.set("js", scrollScript);
+  }
+}
+
+export function buildApiFlashUrl(
+  fullUrl: string,
+  accessKey: string,
+  options: ScreenshotOptions,
+  endpoint = APIFLASH_API_URL
+): URL {
+  const apiUrl = new URL(endpoint);
+  apiUrl.searchParams.set("access_key", accessKey);
+  apiUrl.searchParams.set("url", fullUrl);
+  apiUrl.searchParams.set("format", options.format);
+  apiUrl.searchParams.set("full_page", options.fullPage.toString());
+  apiUrl.searchParams.set("response_type", "image");
+
+  setViewportParams(apiUrl, options);
+  setContentParams(apiUrl, options);
+  setTimingParams(apiUrl, options);
+
+  return apiUrl;
+}
+
+function describeError(response: FailedResponse): ProviderError {
+  const message = `API error: ${response.detail}`;
+  if (response.status === 401) {
+    return {
+      message,
+      hint: "This usually means your ApiFlash access key is invalid.",
+    };
+  }
+  if (response.status === 402) {
+    return {
+      message,
+      hint: "Your ApiFlash monthly quota is used up; upgrade the plan or switch provider.",
+    };
+  }
+  if (response.status === 429) {
+    return {
+      message,
+      hint: "Too many captures at once for your ApiFlash plan; lower the concurrency.",
+    };
+  }
+  return { message };
+}
+
+export const apiFlashProvider: ScreenshotProvider = {
+  id: "apiflash",
+  name: "ApiFlash",
+  signupUrl: "https://apiflash.com/",
+  capabilities: {
+    formats: ["png", "jpeg", "webp"],
+    devicePresets: false,
+    mobileEmulation: false,
+    elementCapture: false,
+    signedRequests: false,
+  },
+  buildRequestUrl: buildApiFlashUrl,
+  describeError,
+};
@@ -0,0 +1,50 @@
+import { parseSitemap } from "@/lib/sitemap";
+import { isValidUrl, normalizeUrl } from "@/lib/url";
+
+// Top-level regex for better performance
+const LINE_BREAK_REGEX = /\r?\n/;
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 10;
+
+// Accept either a newline-separated list or a pasted sitemap.xml, returning
+// valid, de-duplicated URLs in their original order
+export function parseUrlList(input: string): string[] {
+  const { locs } = parseSitemap(input);
+  const candidates = locs.length > 0 ? locs : input.split(LINE_BREAK_REGEX);
+
+  const urls = new Set<string>();
+  for (const candidate of candidates) {
+    const trimmed = candidate.trim();
+    if (trimmed && isValidUrl(trimmed)) {
+      urls.add(normalizeUrl(trimmed));
+    }
+  }
+  return Array.from(urls);
+}
+
+export function clampConcurrency(value: string): number {
+  const parsed = Number.parseInt(value, 10) || DEFAULT_BATCH_CONCURRENCY;
+  return Math.min(Math.max(parsed, 1), MAX_BATCH_CONCURRENCY);
+}
+
+// Run `task` over every item with at most `limit` in flight at once
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let nextIndex = 0;
+  const runNext = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      await task(items[index], index);
+    }
+  };
+  const runners = Array.from(
+    { length: Math.min(limit, items.length) },
+    runNext
+  );
+  await Promise.all(runners);
+}
@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { buildSectionFilename } from "@/lib/filenames";
+import { describeIssue, screenshotOptionsShape } from "@/lib/options-schema";
+import {
+  DEFAULT_PROVIDER_ID,
+  findUnsupportedOption,
+  getProvider,
+  type ProviderId,
+  SCREENSHOT_PROVIDERS,
+  type ScreenshotProvider,
+} from "@/lib/providers";
+import {
+  DEFAULT_SCREENSHOT_OPTIONS,
+  type ScreenshotFormat,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+import { isValidUrl, normalizeUrl } from "@/lib/url";
+
+export const CAPTURE_API_ROUTE = "/api/capture";
+
+// Decoded captures take four bytes a pixel, and a Worker has 128 MB in
+// all, so the server never holds more pixels than this at once. PNGs are
+// decoded a section at a time, so this limits width × section height;
+// JPEG and WebP are decoded whole, which limits them to about 1920 × 5200.
+export const MAX_SERVER_SPLIT_PIXELS = 10_000_000;
+
+// The body of POST /api/capture. Options use the app's field names and
+// string values, and missing ones take the app's defaults.
+export const captureRequestSchema = z.strictObject({
+  url: z
+    .string()
+    .refine(isValidUrl, {
+      message:
+        "Please enter a valid URL (e.g., https://example.com or example.com)",
+    })
+    .meta({ description: "Page to capture, e.g. example.com" }),
+  options: z.object(screenshotOptionsShape).partial().optional().meta({
+    description:
+      "Capture and split options, as in the app; sectionHeight, sectionOverlap and splitAtWhitespace control the sections",
+  }),
+  provider: z
+    .enum(Object.keys(SCREENSHOT_PROVIDERS) as [ProviderId, ...ProviderId[]])
+    .optional()
+    .meta({
+      description: `Capture API to use (default ${DEFAULT_PROVIDER_ID})`,
+    }),
+  signed: z
+    .boolean()
+    .optional()
+    .meta({ description: "Sign the request with the provider's secret key" }),
+});
+
+export interface CaptureRequest {
+  url: string;
+  options: ScreenshotOptions;
+  provider: ScreenshotProvider;
+  signed: boolean;
+}
+
+export class CaptureRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CaptureRequestError";
+  }
+}
+
+// Check a capture request and fill in the default options. Throws a
+// CaptureRequestError saying what's wrong.
+export function validateCaptureRequest(input: unknown): CaptureRequest {
+  const result = captureRequestSchema.safeParse(input);
+  if (!result.success) {
+    throw new CaptureRequestError(describeIssue(result.error));
+  }
+  const { url, options, provider: providerId, signed } = result.data;
+  const provider = getProvider(providerId ?? DEFAULT_PROVIDER_ID);
+  const captureOptions = { ...DEFAULT_SCREENSHOT_OPTIONS, ...options };
+  const unsupported = findUnsupportedOption(provider, captureOptions);
+  if (unsupported) {
+    throw new CaptureRequestError(unsupported);
+  }
+  return {
+    url: normalizeUrl(url),
+    options: captureOptions,
+    provider,
+    signed: signed === true,
+  };
+}
+
+// One stored section of an API capture
+export interface ApiCaptureSection {
+  index: number;
+  filename: string;
+  // Absolute URL of GET /api/capture/:id/sections/:index
+  url: string;
+  offsetY: number;
+  // Null for formats the Worker can't read the size of (PDF, MP4)
+  width: number | null;
+  height: number | null;
+  size: number;
+}
+
+// What POST /api/capture returns, and GET /api/capture/:id after it
+export interface ApiCapture {
+  id: string;
+  url: string;
+  provider: ProviderId;
+  format: ScreenshotFormat;
+  capturedAt: string;
+  width: number | null;
+  height: number | null;
+  options: ScreenshotOptions;
+  sections: ApiCaptureSection[];
+}
+
+// R2 layout: api/<id>/capture.json plus one file per section
+export const API_CAPTURES_PREFIX = "api/";
+
+export function apiCaptureKey(id: string): string {
+  return `${API_CAPTURES_PREFIX}${id}/capture.json`;
+}
+
+export function apiSectionKey(id: string, index: number): string {
+  return `${API_CAPTURES_PREFIX}${id}/section-${index}`;
+}
+
+// Sections are named like batch downloads, with the page path
+export function getApiSectionFilename(
+  url: string,
+  format: ScreenshotFormat,
+  index: number
+): string {
+  return buildSectionFilename(url, format, index, { includePath: true });
+}
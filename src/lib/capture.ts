@@ -0,0 +1,511 @@
+import {
+  explainFailedResponse,
+  getProvider,
+  type ProviderError,
+  type ProviderId,
+  type SuggestedFix,
+} from "@/lib/providers";
+import {
+  type CaptureAttempt,
+  classifyStatus,
+  DEFAULT_RETRY_POLICY,
+  type FailureKind,
+  getRetryDelay,
+  isTransient,
+  parseRetryAfter,
+  wait,
+} from "@/lib/retry";
+import {
+  isSplitCapture,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+import {
+  type FindCut,
+  findUniformRow,
+  getSectionEncoding,
+  getSplitSettings,
+  planSections,
+  type SectionEncoding,
+  type SplitSettings,
+} from "@/lib/split";
+import type { SplitMessage, SplitRequest } from "@/lib/split.worker";
+import { normalizeUrl } from "@/lib/url";
+import { formatBytes } from "@/lib/utils";
+
+const SCREENSHOT_ROUTE = "/api/screenshot";
+
+export interface ScreenshotSection {
+  blob: Blob;
+  // Object URL for `blob`; release it with revokeSections when done
+  objectUrl: string;
+  index: number;
+  // Position and size within the full capture; unknown for PDF and video
+  offsetY: number;
+  width?: number;
+  height?: number;
+}
+
+// What was captured and how, recorded alongside the sections
+export interface CaptureInfo {
+  url: string;
+  options: ScreenshotOptions;
+  capturedAt: string;
+}
+
+export type CaptureStage =
+  | "requesting"
+  | "retrying"
+  | "downloading"
+  | "decoding"
+  | "splitting";
+
+// Where a capture is up to. `completed` and `total` count bytes while
+// downloading (total is null without a Content-Length), sections while
+// splitting and the next attempt number while waiting to retry.
+export interface CaptureProgress {
+  stage: CaptureStage;
+  completed: number;
+  total: number | null;
+}
+
+export interface CaptureControls {
+  onProgress?: (progress: CaptureProgress) => void;
+  // Aborting cancels the request, or stops splitting where it can
+  signal?: AbortSignal;
+}
+
+// A capture that failed for good, with the provider's explanation and
+// every attempt made along the way
+export class CaptureError extends Error {
+  readonly kind: FailureKind;
+  readonly attempts: CaptureAttempt[];
+  readonly code?: string;
+  readonly hint?: string;
+  readonly documentationUrl?: string;
+  readonly fix?: SuggestedFix;
+
+  constructor(
+    { message, code, hint, documentationUrl, fix }: ProviderError,
+    kind: FailureKind,
+    attempts: CaptureAttempt[]
+  ) {
+    super(message);
+    this.name = "CaptureError";
+    this.kind = kind;
+    this.attempts = attempts;
+    this.code = code;
+    this.hint = hint;
+    this.documentationUrl = documentationUrl;
+    this.fix = fix;
+  }
+}
+
+export interface CaptureCredentials {
+  provider: ProviderId;
+  apiKey: string;
+  secretKey: string;
+  signedRequests: boolean;
+  // Where Screenshotgun is deployed, for callers on another origin such as
+  // the Figma plugin; the page's own Worker when left out
+  serverUrl?: string;
+  // The deployment's API token, which callers on another origin need to
+  // capture with its keys
+  apiToken?: string;
+}
+
+// Only send keys when the user supplied their own; otherwise the
+// Worker falls back to the selected provider's secrets
+function buildRequestHeaders(credentials: CaptureCredentials) {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  const apiKey = credentials.apiKey.trim();
+  const secretKey = credentials.secretKey.trim();
+  const apiToken = credentials.apiToken?.trim();
+  if (apiKey) {
+    headers["X-Capture-Access-Key"] = apiKey;
+    if (credentials.signedRequests && secretKey) {
+      headers["X-Capture-Secret-Key"] = secretKey;
+    }
+  } else if (apiToken) {
+    headers.Authorization = `Bearer ${apiToken}`;
+  }
+  return headers;
+}
+
+// Read the response body chunk by chunk so download progress can be shown
+async function readBody(
+  response: Response,
+  onProgress?: (progress: CaptureProgress) => void
+): Promise<Blob> {
+  const type = response.headers.get("Content-Type") ?? "";
+  if (!response.body) {
+    return response.blob();
+  }
+  const length = Number(response.headers.get("Content-Length"));
+  const total = length > 0 ? length : null;
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let completed = 0;
+  onProgress?.({ stage: "downloading", completed, total });
+
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value);
+    completed += value.byteLength;
+    onProgress?.({ stage: "downloading", completed, total });
+  }
+  return new Blob(chunks, { type });
+}
+
+interface FailedRequest {
+  kind: FailureKind;
+  status: number | null;
+  error: ProviderError;
+  retryAfterMs: number | null;
+}
+
+// Send one capture request. Failures are returned rather than thrown so the
+// caller can decide whether to try again; cancelling still throws.
+async function sendCaptureRequest(
+  url: string,
+  options: ScreenshotOptions,
+  credentials: CaptureCredentials,
+  signal?: AbortSignal
+): Promise<Response | FailedRequest> {
+  const provider = getProvider(credentials.provider);
+  let response: Response;
+  try {
+    const endpoint = credentials.serverUrl
+      ? new URL(SCREENSHOT_ROUTE, credentials.serverUrl).toString()
+      : SCREENSHOT_ROUTE;
+    response = await fetch(endpoint, {
+      method: "POST",
+      signal,
+      headers: buildRequestHeaders(credentials),
+      body: JSON.stringify({
+        url: normalizeUrl(url),
+        options,
+        provider: provider.id,
+        signed:
+          credentials.signedRequests && provider.capabilities.signedRequests,
+      }),
+    });
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    return {
+      kind: "network",
+      status: null,
+      error: {
+        message:
+          "Couldn't reach the screenshot server. Check your connection and try again.",
+      },
+      retryAfterMs: null,
+    };
+  }
+
+  if (response.ok) {
+    return response;
+  }
+  return {
+    kind: classifyStatus(response.status),
+    status: response.status,
+    error: await explainFailedResponse(provider, response, options),
+    retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+  };
+}
+
+// Take screenshot through the Worker proxy at /api/screenshot, retrying
+// network errors, rate limits, timeouts and 5xx responses with backoff.
+// Throws a CaptureError listing every attempt once it gives up.
+export async function requestScreenshot(
+  url: string,
+  options: ScreenshotOptions,
+  credentials: CaptureCredentials,
+  { onProgress, signal }: CaptureControls = {}
+): Promise<Blob> {
+  const { maxAttempts } = DEFAULT_RETRY_POLICY;
+  const attempts: CaptureAttempt[] = [];
+
+  for (let attempt = 1; ; attempt += 1) {
+    onProgress?.({ stage: "requesting", completed: 0, total: null });
+    const result = await sendCaptureRequest(url, options, credentials, signal);
+    if (result instanceof Response) {
+      return readBody(result, onProgress);
+    }
+
+    const retryDelayMs =
+      isTransient(result.kind) && attempt < maxAttempts
+        ? getRetryDelay(attempt, result.retryAfterMs)
+        : null;
+    attempts.push({
+      attempt,
+      kind: result.kind,
+      status: result.status,
+      retryDelayMs,
+    });
+    if (retryDelayMs === null) {
+      throw new CaptureError(result.error, result.kind, attempts);
+    }
+
+    onProgress?.({
+      stage: "retrying",
+      completed: attempt + 1,
+      total: maxAttempts,
+    });
+    await wait(retryDelayMs, signal);
+  }
+}
+
+function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  const imageUrl = URL.createObjectURL(blob);
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(imageUrl);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(imageUrl);
+      reject(new Error("Failed to load the screenshot image"));
+    };
+    img.src = imageUrl;
+  });
+}
+
+// Report the lowest near-uniform row in a band of the image, so cuts land in
+// whitespace instead of through text or pictures
+function createCutFinder(
+  img: HTMLImageElement,
+  ctx: CanvasRenderingContext2D
+): FindCut {
+  return (minY, maxY) => {
+    const bandHeight = maxY - minY + 1;
+    ctx.canvas.width = img.width;
+    ctx.canvas.height = bandHeight;
+    ctx.drawImage(
+      img,
+      0,
+      minY,
+      img.width,
+      bandHeight,
+      0,
+      0,
+      img.width,
+      bandHeight
+    );
+    const { data } = ctx.getImageData(0, 0, img.width, bandHeight);
+    const row = findUniformRow(data, img.width);
+    return row === null ? null : minY + row;
+  };
+}
+
+function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  encoding: SectionEncoding
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob
+          ? resolve(blob)
+          : reject(new Error("Failed to process the screenshot image")),
+      encoding.type,
+      encoding.quality
+    );
+  });
+}
+
+export function createSection(
+  blob: Blob,
+  bounds: Omit<ScreenshotSection, "blob" | "objectUrl">
+): ScreenshotSection {
+  return { ...bounds, blob, objectUrl: URL.createObjectURL(blob) };
+}
+
+// Free the memory held by sections that are no longer displayed
+export function revokeSections(sections: ScreenshotSection[]) {
+  for (const section of sections) {
+    URL.revokeObjectURL(section.objectUrl);
+  }
+}
+
+// Total encoded size of a set of sections, in bytes
+export function getSectionsSize(sections: ScreenshotSection[]): number {
+  return sections.reduce((total, section) => total + section.blob.size, 0);
+}
+
+// Split image into sections using the configured height, overlap and
+// whitespace settings, encoding each one like the original capture
+export async function splitImage(
+  img: HTMLImageElement,
+  settings: SplitSettings,
+  encoding: SectionEncoding
+): Promise<ScreenshotSection[]> {
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    return [];
+  }
+
+  const bounds = planSections(img.height, settings, createCutFinder(img, ctx));
+
+  const sections: ScreenshotSection[] = [];
+  for (const [i, { offsetY, height }] of bounds.entries()) {
+    // Set canvas dimensions for this section
+    canvas.width = img.width;
+    canvas.height = height;
+
+    // Clear canvas and draw the section
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(
+      img,
+      0,
+      offsetY,
+      img.width,
+      height, // source
+      0,
+      0,
+      img.width,
+      height // destination
+    );
+
+    const blob = await canvasToBlob(canvas, encoding);
+    sections.push(
+      createSection(blob, { index: i + 1, offsetY, width: img.width, height })
+    );
+  }
+
+  return sections;
+}
+
+// Split on the main thread; used where OffscreenCanvas is missing and where
+// workers can't be started, like the Figma plugin's UI
+export async function splitOnMainThread(
+  blob: Blob,
+  request: Omit<SplitRequest, "blob">
+): Promise<ScreenshotSection[]> {
+  const img = await loadImage(blob);
+  try {
+    return await splitImage(img, request.settings, request.encoding);
+  } catch {
+    throw new Error("Failed to process the screenshot image");
+  }
+}
+
+// Decode, split and encode in a Web Worker, reporting each finished section.
+// Aborting the signal stops the worker straight away.
+function splitInWorker(
+  request: SplitRequest,
+  { onProgress, signal }: CaptureControls
+): Promise<ScreenshotSection[]> {
+  const worker = new Worker(new URL("./split.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  let cancel: (() => void) | undefined;
+
+  return new Promise<ScreenshotSection[]>((resolve, reject) => {
+    cancel = () => reject(new DOMException("Capture cancelled", "AbortError"));
+    if (signal?.aborted) {
+      cancel();
+    }
+    signal?.addEventListener("abort", cancel, { once: true });
+    worker.onmessage = (event: MessageEvent<SplitMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.({
+          stage: "splitting",
+          completed: message.completed,
+          total: message.total,
+        });
+      } else if (message.type === "done") {
+        resolve(
+          message.sections.map(({ blob, ...bounds }) =>
+            createSection(blob, bounds)
+          )
+        );
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = () => {
+      reject(new Error("Failed to process the screenshot image"));
+    };
+    worker.postMessage(request);
+  }).finally(() => {
+    if (cancel) {
+      signal?.removeEventListener("abort", cancel);
+    }
+    worker.terminate();
+  });
+}
+
+// Turn a downloaded capture into sections: full-page and element PNG/JPEG/
+// WebP shots are split, anything else comes back as a single section
+// pointing at the original file
+export async function splitCapture(
+  blob: Blob,
+  options: ScreenshotOptions,
+  controls: CaptureControls = {}
+): Promise<ScreenshotSection[]> {
+  if (!isSplitCapture(options)) {
+    return [createSection(blob, { index: 1, offsetY: 0 })];
+  }
+
+  // The worker's first progress message moves this on to splitting
+  controls.onProgress?.({ stage: "decoding", completed: 0, total: null });
+  const request = {
+    settings: getSplitSettings(options),
+    encoding: getSectionEncoding(options),
+  };
+  if (typeof OffscreenCanvas === "undefined") {
+    const sections = await splitOnMainThread(blob, request);
+    if (controls.signal?.aborted) {
+      revokeSections(sections);
+      throw new DOMException("Capture cancelled", "AbortError");
+    }
+    return sections;
+  }
+  return splitInWorker({ blob, ...request }, controls);
+}
+
+// Capture a page and split it into sections (see splitCapture)
+export async function captureScreenshot(
+  url: string,
+  options: ScreenshotOptions,
+  credentials: CaptureCredentials,
+  controls: CaptureControls = {}
+): Promise<ScreenshotSection[]> {
+  const blob = await requestScreenshot(url, options, credentials, controls);
+  return splitCapture(blob, options, controls);
+}
+
+// True for the error thrown when a capture is cancelled through its signal
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+// One line describing a capture's progress, e.g. "Downloading 1.2 MB of 3.4 MB"
+export function describeProgress(progress: CaptureProgress): string {
+  if (progress.stage === "requesting") {
+    return "Waiting for the capture...";
+  }
+  if (progress.stage === "retrying") {
+    return `Retrying (attempt ${progress.completed} of ${progress.total})...`;
+  }
+  if (progress.stage === "downloading") {
+    const received = formatBytes(progress.completed);
+    return progress.total
+      ? `Downloading ${received} of ${formatBytes(progress.total)}...`
+      : `Downloading ${received}...`;
+  }
+  if (progress.stage === "decoding") {
+    return "Decoding...";
+  }
+  return `Splitting ${progress.completed}/${progress.total}...`;
+}
@@ -0,0 +1,43 @@
+import type { ScreenshotSection } from "@/lib/capture";
+
+// Browsers only accept PNG for image clipboard writes
+const CLIPBOARD_IMAGE_TYPE = "image/png";
+
+// Whether the async Clipboard API can take images in this browser
+export function canCopyImages(): boolean {
+  if (typeof ClipboardItem === "undefined" || !navigator.clipboard?.write) {
+    return false;
+  }
+  // Older browsers lack ClipboardItem.supports but still accept PNG
+  return ClipboardItem.supports?.(CLIPBOARD_IMAGE_TYPE) ?? true;
+}
+
+// Re-encode JPEG/WebP sections as PNG so the clipboard accepts them
+async function toPngBlob(blob: Blob): Promise<Blob> {
+  if (blob.type === CLIPBOARD_IMAGE_TYPE) {
+    return blob;
+  }
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (png) =>
+        png ? resolve(png) : reject(new Error("Failed to convert to PNG")),
+      CLIPBOARD_IMAGE_TYPE
+    );
+  });
+}
+
+// Copy one section as a PNG image
+export async function copySection(section: ScreenshotSection): Promise<void> {
+  // Hand the clipboard a promise so Safari keeps the click's user activation
+  // while the PNG is being prepared
+  await navigator.clipboard.write([
+    new ClipboardItem({ [CLIPBOARD_IMAGE_TYPE]: toPngBlob(section.blob) }),
+  ]);
+}
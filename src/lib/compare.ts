@@ -0,0 +1,60 @@
+import type { ScreenshotSection } from "@/lib/capture";
+import type {
+  CompareImagePart,
+  CompareMessage,
+  CompareRequest,
+  CompareResult,
+} from "@/lib/diff.worker";
+
+export type { CompareImagePart, CompareResult } from "@/lib/diff.worker";
+
+// One side of a comparison: a capture's sections or an uploaded image
+export interface CompareSource {
+  label: string;
+  // Page the capture was taken of; unknown for uploads
+  url: string | null;
+  parts: CompareImagePart[];
+}
+
+export function sectionsToParts(
+  sections: ScreenshotSection[]
+): CompareImagePart[] {
+  return sections.map(({ blob, offsetY }) => ({ blob, offsetY }));
+}
+
+// Stitch and diff two captures in a Web Worker. Aborting the signal stops
+// the worker straight away; the abort listener goes once the worker is done.
+export function compareInWorker(
+  request: CompareRequest,
+  signal?: AbortSignal
+): Promise<CompareResult> {
+  const worker = new Worker(new URL("./diff.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  let cancel: (() => void) | undefined;
+
+  return new Promise<CompareResult>((resolve, reject) => {
+    cancel = () =>
+      reject(new DOMException("Comparison cancelled", "AbortError"));
+    if (signal?.aborted) {
+      cancel();
+    }
+    signal?.addEventListener("abort", cancel, { once: true });
+    worker.onmessage = (event: MessageEvent<CompareMessage>) => {
+      if (event.data.type === "done") {
+        resolve(event.data.result);
+      } else {
+        reject(new Error(event.data.message));
+      }
+    };
+    worker.onerror = () => {
+      reject(new Error("Failed to compare the captures"));
+    };
+    worker.postMessage(request);
+  }).finally(() => {
+    if (cancel) {
+      signal?.removeEventListener("abort", cancel);
+    }
+    worker.terminate();
+  });
+}
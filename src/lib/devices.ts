@@ -0,0 +1,153 @@
+import { z } from "zod";
+import { describeIssue } from "@/lib/options-schema";
+import {
+  DEVICE_PRESETS,
+  type ScreenshotOptions,
+  USER_DEVICE_PREFIX,
+} from "@/lib/screenshot-options";
+
+// Top-level regex for better performance
+const WHOLE_NUMBER_REGEX = /^\d+$/;
+
+export const MAX_DEVICE_NAME_LENGTH = 40;
+export const MAX_DEVICE_SCALE_FACTOR = 5;
+
+// A viewport of our own, captured through ScreenshotOne's emulation options
+export interface UserDevice {
+  name: string;
+  width: string;
+  height: string;
+  scaleFactor: string;
+  mobile: boolean;
+  touch: boolean;
+  userAgent: string;
+}
+
+export class DeviceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeviceError";
+  }
+}
+
+const pixelsSchema = z
+  .string()
+  .trim()
+  .regex(WHOLE_NUMBER_REGEX, "Must be a whole number of pixels")
+  .refine((value) => Number(value) >= 1 && Number(value) <= 10_000, {
+    message: "Must be between 1 and 10000",
+  });
+
+const userDeviceSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_DEVICE_NAME_LENGTH),
+  width: pixelsSchema,
+  height: pixelsSchema,
+  scaleFactor: z
+    .string()
+    .trim()
+    .refine(
+      (value) => Number(value) >= 1 && Number(value) <= MAX_DEVICE_SCALE_FACTOR,
+      { message: `Must be between 1 and ${MAX_DEVICE_SCALE_FACTOR}` }
+    ),
+  mobile: z.boolean(),
+  touch: z.boolean(),
+  userAgent: z.string().trim(),
+});
+
+export function userDeviceValue(device: UserDevice): string {
+  return `${USER_DEVICE_PREFIX}${device.name}`;
+}
+
+export function isUserDeviceValue(value: string): boolean {
+  return value.startsWith(USER_DEVICE_PREFIX);
+}
+
+// One of the provider's named devices, as opposed to a custom viewport or
+// one of the user's own
+export function isNamedDevice(value: string): boolean {
+  return value !== "" && value !== "custom" && !isUserDeviceValue(value);
+}
+
+export function findUserDevice(
+  devices: UserDevice[],
+  value: string
+): UserDevice | undefined {
+  return devices.find((device) => userDeviceValue(device) === value);
+}
+
+// Check a device from the editor, throwing a DeviceError that names the
+// field at fault
+export function validateUserDevice(input: UserDevice): UserDevice {
+  const result = userDeviceSchema.safeParse(input);
+  if (!result.success) {
+    throw new DeviceError(describeIssue(result.error));
+  }
+  return result.data;
+}
+
+// Stored devices that no longer validate are dropped rather than breaking
+// the form
+export function parseStoredDevices(text: string): UserDevice[] {
+  try {
+    const result = z.array(userDeviceSchema).safeParse(JSON.parse(text));
+    return result.success ? result.data : [];
+  } catch {
+    return [];
+  }
+}
+
+// Switch the options to a device. A user device copies its viewport and
+// emulation settings in, so the capture doesn't depend on the device list.
+export function applyDevice(
+  options: ScreenshotOptions,
+  value: string,
+  devices: UserDevice[]
+): ScreenshotOptions {
+  const device = findUserDevice(devices, value);
+  if (!device) {
+    return { ...options, devicePreset: value };
+  }
+  return {
+    ...options,
+    devicePreset: value,
+    viewportWidth: device.width,
+    viewportHeight: device.height,
+    deviceScaleFactor: device.scaleFactor,
+    viewportMobile: device.mobile,
+    viewportHasTouch: device.touch,
+    userAgent: device.userAgent,
+  };
+}
+
+export interface DeviceChoice {
+  value: string;
+  label: string;
+}
+
+// ScreenshotOne's devices followed by the user's own. Without
+// `namedDevices` only the custom viewport is offered before the user's.
+export function listDeviceChoices(
+  devices: UserDevice[],
+  namedDevices: boolean
+): DeviceChoice[] {
+  return [
+    ...DEVICE_PRESETS.filter(
+      (preset) => namedDevices || !isNamedDevice(preset.value)
+    ),
+    ...devices.map((device) => ({
+      value: userDeviceValue(device),
+      label: device.name,
+    })),
+  ];
+}
+
+// Short description of a device's viewport, e.g. "390×844 @3x, mobile"
+export function describeUserDevice(device: UserDevice): string {
+  const flags = [
+    device.mobile ? "mobile" : "",
+    device.touch ? "touch" : "",
+    device.userAgent ? "custom user agent" : "",
+  ].filter(Boolean);
+  const size = `${device.width}×${device.height} @${device.scaleFactor}x`;
+  return flags.length > 0 ? `${size}, ${flags.join(", ")}` : size;
+}
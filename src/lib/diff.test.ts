@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  colorDelta,
+  diffImages,
+  findRegions,
+  type PixelImage,
+} from "@/lib/diff";
+
+type Rgba = [number, number, number, number];
+
+const BLACK: Rgba = [0, 0, 0, 255];
+const WHITE: Rgba = [255, 255, 255, 255];
+
+function pixel(rgba: Rgba) {
+  return new Uint8ClampedArray(rgba);
+}
+
+function solid(width: number, height: number, rgba: Rgba): PixelImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set(rgba, i);
+  }
+  return { data, width, height };
+}
+
+function paint(image: PixelImage, x: number, y: number, rgba: Rgba) {
+  image.data.set(rgba, (y * image.width + x) * 4);
+}
+
+function readPixel(image: PixelImage, x: number, y: number) {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(i, i + 4));
+}
+
+describe("colorDelta", () => {
+  it("is 0 for identical colours", () => {
+    expect(
+      colorDelta(pixel([12, 34, 56, 255]), 0, pixel([12, 34, 56, 255]), 0)
+    ).toBe(0);
+  });
+
+  it("is largest for black against white", () => {
+    const delta = colorDelta(pixel(BLACK), 0, pixel(WHITE), 0);
+    expect(delta).toBeGreaterThan(0.9);
+    expect(delta).toBeLessThanOrEqual(1);
+    expect(
+      colorDelta(pixel(BLACK), 0, pixel([40, 40, 40, 255]), 0)
+    ).toBeLessThan(delta);
+  });
+
+  it("blends transparent pixels onto white", () => {
+    expect(colorDelta(pixel([0, 0, 0, 0]), 0, pixel(WHITE), 0)).toBe(0);
+  });
+
+  it("reads the pixels at the given offsets", () => {
+    const a = new Uint8ClampedArray([...WHITE, ...BLACK]);
+    const b = new Uint8ClampedArray([...BLACK]);
+    expect(colorDelta(a, 4, b, 0)).toBe(0);
+  });
+});
+
+describe("findRegions", () => {
+  it("finds nothing when no cell changed", () => {
+    expect(findRegions(new Uint8Array(4), 2, 2, 10, 20, 20)).toEqual([]);
+  });
+
+  it("merges cells that share an edge", () => {
+    // 3 x 2 grid, an L of changed cells in the first two columns
+    const cells = new Uint8Array([1, 1, 0, 0, 1, 0]);
+    expect(findRegions(cells, 3, 2, 10, 30, 20)).toEqual([
+      { x: 0, y: 0, width: 20, height: 20 },
+    ]);
+  });
+
+  it("keeps diagonal cells apart", () => {
+    const cells = new Uint8Array([1, 0, 0, 1]);
+    expect(findRegions(cells, 2, 2, 10, 20, 20)).toEqual([
+      { x: 0, y: 0, width: 10, height: 10 },
+      { x: 10, y: 10, width: 10, height: 10 },
+    ]);
+  });
+
+  it("clips the last row and column to the image", () => {
+    const cells = new Uint8Array([0, 0, 0, 1]);
+    expect(findRegions(cells, 2, 2, 10, 15, 12)).toEqual([
+      { x: 10, y: 10, width: 5, height: 2 },
+    ]);
+  });
+});
+
+describe("diffImages", () => {
+  it("finds no changes between identical images", () => {
+    const result = diffImages(solid(4, 4, WHITE), solid(4, 4, WHITE), 0.1);
+    expect(result).toMatchObject({
+      mismatched: 0,
+      total: 16,
+      percentage: 0,
+      regions: [],
+    });
+    expect(readPixel(result.overlay, 0, 0)).toEqual([255, 255, 255, 255]);
+  });
+
+  it("highlights changed pixels and fades the rest", () => {
+    const before = solid(40, 40, BLACK);
+    const after = solid(40, 40, BLACK);
+    paint(after, 35, 5, WHITE);
+
+    const result = diffImages(before, after, 0.1);
+    expect(result.mismatched).toBe(1);
+    expect(result.percentage).toBeCloseTo(100 / 1600);
+    expect(result.regions).toEqual([{ x: 32, y: 0, width: 8, height: 32 }]);
+    expect(readPixel(result.overlay, 35, 5)).toEqual([255, 0, 64, 255]);
+    // Black faded a quarter of the way in from white
+    expect(readPixel(result.overlay, 0, 0)).toEqual([191, 191, 191, 255]);
+  });
+
+  it("ignores changes under the threshold", () => {
+    const before = solid(2, 2, [100, 100, 100, 255]);
+    const after = solid(2, 2, [104, 100, 100, 255]);
+    expect(diffImages(before, after, 0.1).mismatched).toBe(0);
+    expect(diffImages(before, after, 0).mismatched).toBe(4);
+  });
+
+  it("counts pixels only one image covers as changed", () => {
+    const result = diffImages(solid(2, 2, WHITE), solid(2, 3, WHITE), 0.1);
+    expect(result.overlay).toMatchObject({ width: 2, height: 3 });
+    expect(result.mismatched).toBe(2);
+    expect(result.total).toBe(6);
+  });
+
+  it("reports 0% for empty images", () => {
+    expect(
+      diffImages(solid(0, 0, WHITE), solid(0, 0, WHITE), 0.1)
+    ).toMatchObject({ total: 0, percentage: 0, regions: [] });
+  });
+});
@@ -0,0 +1,230 @@
+// Pixel diff between two images, written against plain RGBA buffers so it
+// runs the same in a worker, the main thread or a test runner
+
+export interface PixelImage {
+  data: Uint8ClampedArray<ArrayBuffer>;
+  width: number;
+  height: number;
+}
+
+export interface DiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DiffResult {
+  // RGBA overlay: changed pixels in red over a faded copy of the first image
+  overlay: PixelImage;
+  mismatched: number;
+  total: number;
+  // 0-100
+  percentage: number;
+  regions: DiffRegion[];
+}
+
+// Changed pixels are grouped into cells of this size to form regions
+const REGION_CELL_SIZE = 32;
+// Largest possible YIQ colour distance, used to normalise deltas to 0-1
+const MAX_YIQ_DELTA = 35_215;
+const HIGHLIGHT = [255, 0, 64, 255];
+// How much of the original image shows through unchanged areas
+const FADE_ALPHA = 0.25;
+
+function blendWithWhite(value: number, alpha: number): number {
+  return 255 + (value - 255) * alpha;
+}
+
+// Perceptual colour distance in the YIQ space, with alpha blended onto
+// white, normalised to 0 (identical) - 1 (black vs white)
+export function colorDelta(
+  a: Uint8ClampedArray,
+  i: number,
+  b: Uint8ClampedArray,
+  j: number
+): number {
+  const alphaA = a[i + 3] / 255;
+  const alphaB = b[j + 3] / 255;
+  const r1 = blendWithWhite(a[i], alphaA);
+  const g1 = blendWithWhite(a[i + 1], alphaA);
+  const b1 = blendWithWhite(a[i + 2], alphaA);
+  const r2 = blendWithWhite(b[j], alphaB);
+  const g2 = blendWithWhite(b[j + 1], alphaB);
+  const b2 = blendWithWhite(b[j + 2], alphaB);
+
+  const y =
+    (r1 - r2) * 0.298_895_31 +
+    (g1 - g2) * 0.586_622_47 +
+    (b1 - b2) * 0.114_482_23;
+  const iq =
+    (r1 - r2) * 0.595_977_99 -
+    (g1 - g2) * 0.274_176_46 -
+    (b1 - b2) * 0.321_801_53;
+  const q =
+    (r1 - r2) * 0.211_470_17 -
+    (g1 - g2) * 0.522_617_02 +
+    (b1 - b2) * 0.311_146_85;
+
+  return (0.5053 * y * y + 0.299 * iq * iq + 0.1957 * q * q) / MAX_YIQ_DELTA;
+}
+
+// Cells sharing an edge with `cell` in a grid of `columns` x `rows`
+function neighbourCells(cell: number, columns: number, rows: number) {
+  const col = cell % columns;
+  const row = Math.floor(cell / columns);
+  const cells: number[] = [];
+  if (col > 0) {
+    cells.push(cell - 1);
+  }
+  if (col < columns - 1) {
+    cells.push(cell + 1);
+  }
+  if (row > 0) {
+    cells.push(cell - columns);
+  }
+  if (row < rows - 1) {
+    cells.push(cell + columns);
+  }
+  return cells;
+}
+
+// Visit every changed cell connected to `start`, returning the cell
+// bounds of the group
+function fillCellGroup(
+  start: number,
+  changedCells: Uint8Array,
+  visited: Uint8Array,
+  columns: number,
+  rows: number
+) {
+  const bounds = { minCol: columns, maxCol: 0, minRow: rows, maxRow: 0 };
+  const stack = [start];
+  visited[start] = 1;
+
+  let cell = stack.pop();
+  while (cell !== undefined) {
+    const col = cell % columns;
+    const row = Math.floor(cell / columns);
+    bounds.minCol = Math.min(bounds.minCol, col);
+    bounds.maxCol = Math.max(bounds.maxCol, col);
+    bounds.minRow = Math.min(bounds.minRow, row);
+    bounds.maxRow = Math.max(bounds.maxRow, row);
+
+    for (const next of neighbourCells(cell, columns, rows)) {
+      if (changedCells[next] && !visited[next]) {
+        visited[next] = 1;
+        stack.push(next);
+      }
+    }
+    cell = stack.pop();
+  }
+
+  return bounds;
+}
+
+// Merge neighbouring changed cells into bounding boxes
+export function findRegions(
+  changedCells: Uint8Array,
+  columns: number,
+  rows: number,
+  cellSize: number,
+  width: number,
+  height: number
+): DiffRegion[] {
+  const visited = new Uint8Array(changedCells.length);
+  const regions: DiffRegion[] = [];
+
+  for (let start = 0; start < changedCells.length; start++) {
+    if (!changedCells[start] || visited[start]) {
+      continue;
+    }
+    const { minCol, maxCol, minRow, maxRow } = fillCellGroup(
+      start,
+      changedCells,
+      visited,
+      columns,
+      rows
+    );
+    const x = minCol * cellSize;
+    const y = minRow * cellSize;
+    regions.push({
+      x,
+      y,
+      width: Math.min((maxCol + 1) * cellSize, width) - x,
+      height: Math.min((maxRow + 1) * cellSize, height) - y,
+    });
+  }
+
+  return regions;
+}
+
+// Compare two images pixel by pixel. `threshold` (0-1) is the colour
+// distance above which a pixel counts as changed. Images of different
+// sizes are compared over the larger area; pixels only one image covers
+// always count as changed.
+export function diffImages(
+  before: PixelImage,
+  after: PixelImage,
+  threshold: number
+): DiffResult {
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+  const overlay = new Uint8ClampedArray(width * height * 4);
+  const columns = Math.ceil(width / REGION_CELL_SIZE);
+  const rows = Math.ceil(height / REGION_CELL_SIZE);
+  const changedCells = new Uint8Array(columns * rows);
+  // Squared like pixelmatch, so 0.1 behaves the way QA tools usually mean it
+  const maxDelta = threshold * threshold;
+  let mismatched = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const inBefore = x < before.width && y < before.height;
+      const inAfter = x < after.width && y < after.height;
+      const i = (y * before.width + x) * 4;
+      const j = (y * after.width + x) * 4;
+
+      const changed =
+        !(inBefore && inAfter) ||
+        colorDelta(before.data, i, after.data, j) > maxDelta;
+
+      if (changed) {
+        mismatched += 1;
+        changedCells[
+          Math.floor(y / REGION_CELL_SIZE) * columns +
+            Math.floor(x / REGION_CELL_SIZE)
+        ] = 1;
+        overlay.set(HIGHLIGHT, out);
+      } else {
+        // Faded greyscale copy so the changes stand out
+        const grey =
+          before.data[i] * 0.299 +
+          before.data[i + 1] * 0.587 +
+          before.data[i + 2] * 0.114;
+        const faded = blendWithWhite(grey, FADE_ALPHA);
+        overlay[out] = faded;
+        overlay[out + 1] = faded;
+        overlay[out + 2] = faded;
+        overlay[out + 3] = 255;
+      }
+    }
+  }
+
+  const total = width * height;
+  return {
+    overlay: { data: overlay, width, height },
+    mismatched,
+    total,
+    percentage: total === 0 ? 0 : (mismatched / total) * 100,
+    regions: findRegions(
+      changedCells,
+      columns,
+      rows,
+      REGION_CELL_SIZE,
+      width,
+      height
+    ),
+  };
+}
@@ -0,0 +1,140 @@
+import { type DiffRegion, diffImages, type PixelImage } from "@/lib/diff";
+
+// Stitches two captures back together and diffs them off the main thread
+
+export interface CompareImagePart {
+  blob: Blob;
+  offsetY: number;
+}
+
+export interface CompareRequest {
+  before: CompareImagePart[];
+  after: CompareImagePart[];
+  threshold: number;
+}
+
+export interface CompareResult {
+  before: Blob;
+  after: Blob;
+  overlay: Blob;
+  width: number;
+  height: number;
+  // Images above MAX_COMPARE_PIXELS are scaled down by this factor first
+  scale: number;
+  mismatched: number;
+  total: number;
+  percentage: number;
+  regions: DiffRegion[];
+}
+
+export type CompareMessage =
+  | { type: "done"; result: CompareResult }
+  | { type: "error"; message: string };
+
+// Caps memory at a few hundred MB for very tall 2x captures
+const MAX_COMPARE_PIXELS = 24_000_000;
+const PREVIEW_ENCODING = { type: "image/webp", quality: 0.9 };
+
+interface Stitched {
+  canvas: OffscreenCanvas;
+  image: PixelImage;
+}
+
+async function loadParts(parts: CompareImagePart[]) {
+  const bitmaps = await Promise.all(
+    parts.map(async (part) => ({
+      bitmap: await createImageBitmap(part.blob),
+      offsetY: part.offsetY,
+    }))
+  );
+  const width = Math.max(...bitmaps.map(({ bitmap }) => bitmap.width));
+  const height = Math.max(
+    ...bitmaps.map(({ bitmap, offsetY }) => offsetY + bitmap.height)
+  );
+  return { bitmaps, width, height };
+}
+
+// Draw the sections of a capture at their offsets to rebuild the full page
+function stitch(
+  { bitmaps, width, height }: Awaited<ReturnType<typeof loadParts>>,
+  scale: number
+): Stitched {
+  const canvas = new OffscreenCanvas(
+    Math.max(1, Math.round(width * scale)),
+    Math.max(1, Math.round(height * scale))
+  );
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("Failed to compare the captures");
+  }
+  for (const { bitmap, offsetY } of bitmaps) {
+    ctx.drawImage(
+      bitmap,
+      0,
+      offsetY * scale,
+      bitmap.width * scale,
+      bitmap.height * scale
+    );
+    bitmap.close();
+  }
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return {
+    canvas,
+    image: { data, width: canvas.width, height: canvas.height },
+  };
+}
+
+async function compare(request: CompareRequest): Promise<CompareResult> {
+  const [beforeParts, afterParts] = await Promise.all([
+    loadParts(request.before),
+    loadParts(request.after),
+  ]);
+  const area =
+    Math.max(beforeParts.width, afterParts.width) *
+    Math.max(beforeParts.height, afterParts.height);
+  const scale = Math.min(1, Math.sqrt(MAX_COMPARE_PIXELS / area));
+
+  const before = stitch(beforeParts, scale);
+  const after = stitch(afterParts, scale);
+  const diff = diffImages(before.image, after.image, request.threshold);
+
+  const overlayCanvas = new OffscreenCanvas(
+    diff.overlay.width,
+    diff.overlay.height
+  );
+  overlayCanvas
+    .getContext("2d")
+    ?.putImageData(
+      new ImageData(diff.overlay.data, diff.overlay.width, diff.overlay.height),
+      0,
+      0
+    );
+
+  return {
+    before: await before.canvas.convertToBlob(PREVIEW_ENCODING),
+    after: await after.canvas.convertToBlob(PREVIEW_ENCODING),
+    overlay: await overlayCanvas.convertToBlob({ type: "image/png" }),
+    width: diff.overlay.width,
+    height: diff.overlay.height,
+    scale,
+    mismatched: diff.mismatched,
+    total: diff.total,
+    percentage: diff.percentage,
+    regions: diff.regions,
+  };
+}
+
+self.onmessage = async (event: MessageEvent<CompareRequest>) => {
+  const post = (message: CompareMessage) => self.postMessage(message);
+  try {
+    post({ type: "done", result: await compare(event.data) });
+  } catch (error) {
+    post({
+      type: "error",
+      message:
+        error instanceof Error
+          ? error.message
+          : "Failed to compare the captures",
+    });
+  }
+};
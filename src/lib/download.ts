@@ -0,0 +1,16 @@
+// Download a single file
+export function downloadFile(href: string, filename: string) {
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+// Download a generated file, releasing its object URL once the click is done
+export function downloadBlob(blob: Blob, filename: string) {
+  const objectUrl = URL.createObjectURL(blob);
+  downloadFile(objectUrl, filename);
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 0);
+}
@@ -0,0 +1,86 @@
+import {
+  type ScreenshotFormat,
+  type ScreenshotOptions,
+  USER_DEVICE_PREFIX,
+} from "@/lib/screenshot-options";
+import { extractRootDomain, normalizeUrl } from "@/lib/url";
+
+// Top-level regex for better performance
+const NON_SLUG_CHARS_REGEX = /[^a-z0-9]+/g;
+const EDGE_DASHES_REGEX = /^-+|-+$/g;
+
+const MAX_SLUG_LENGTH = 60;
+
+// Format current date as DD-MM-YYYY
+export function getCurrentDate(): string {
+  const now = new Date();
+  const day = now.getDate().toString().padStart(2, "0");
+  const month = (now.getMonth() + 1).toString().padStart(2, "0");
+  const year = now.getFullYear();
+  return `${day}-${month}-${year}`;
+}
+
+export function getFileExtension(format: ScreenshotFormat): string {
+  return format === "jpeg" ? "jpg" : format;
+}
+
+function toSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(NON_SLUG_CHARS_REGEX, "-")
+    .replace(EDGE_DASHES_REGEX, "")
+    .slice(0, MAX_SLUG_LENGTH);
+}
+
+// Turn the URL path into a filename-safe slug ("" for the home page)
+export function getPageSlug(urlString: string): string {
+  try {
+    const { pathname } = new URL(normalizeUrl(urlString));
+    return toSlug(pathname);
+  } catch {
+    return "";
+  }
+}
+
+// Filename-safe device name: the preset or user device name, or the
+// viewport size for custom
+export function getDeviceSlug(options: ScreenshotOptions): string {
+  if (options.devicePreset === "custom") {
+    return `${options.viewportWidth}x${options.viewportHeight}`;
+  }
+  if (options.devicePreset.startsWith(USER_DEVICE_PREFIX)) {
+    return toSlug(options.devicePreset.slice(USER_DEVICE_PREFIX.length));
+  }
+  return toSlug(options.devicePreset);
+}
+
+interface FilenameParts {
+  // Add the page path so several pages of one site don't collide
+  includePath?: boolean;
+  // Device slug, so captures of one page on several devices don't collide
+  device?: string;
+}
+
+// Shared `[rootdomain]-[DD-MM-YYYY]` prefix for downloads, followed by the
+// device when given
+export function buildFilenamePrefix(
+  urlString: string,
+  { includePath = false, device }: FilenameParts = {}
+): string {
+  const slug = includePath ? getPageSlug(urlString) : "";
+  const name = slug
+    ? `${extractRootDomain(urlString)}-${slug}`
+    : extractRootDomain(urlString);
+  const prefix = `${name}-${getCurrentDate()}`;
+  return device ? `${prefix}-${device}` : prefix;
+}
+
+export function buildSectionFilename(
+  urlString: string,
+  format: ScreenshotFormat,
+  index: number,
+  parts: FilenameParts = {}
+): string {
+  const prefix = buildFilenamePrefix(urlString, parts);
+  return `${prefix}-section-${index}.${getFileExtension(format)}`;
+}
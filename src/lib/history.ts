@@ -0,0 +1,211 @@
+import {
+  type CaptureInfo,
+  createSection,
+  getSectionsSize,
+  type ScreenshotSection,
+} from "@/lib/capture";
+
+const DB_NAME = "screenshotgun";
+const DB_VERSION = 1;
+// Capture metadata and thumbnails, small enough to list all at once
+const CAPTURES_STORE = "captures";
+// Section blobs, keyed by [captureId, index] and only read when re-opened
+const SECTIONS_STORE = "sections";
+
+export const DEFAULT_HISTORY_QUOTA_MB = 200;
+
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_HEIGHT = 200;
+
+export interface HistoryEntry extends CaptureInfo {
+  id: string;
+  // Updated whenever the capture is re-opened; the oldest is evicted first
+  lastUsedAt: string;
+  sectionCount: number;
+  // Bytes used by the sections and thumbnail
+  size: number;
+  thumbnail: Blob | null;
+}
+
+interface StoredSection {
+  captureId: string;
+  index: number;
+  offsetY: number;
+  width?: number;
+  height?: number;
+  blob: Blob;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(CAPTURES_STORE, { keyPath: "id" });
+      const sections = db.createObjectStore(SECTIONS_STORE, {
+        keyPath: ["captureId", "index"],
+      });
+      sections.createIndex("captureId", "captureId");
+    };
+    dbPromise = requestToPromise(request).catch((error) => {
+      // Let the next call try again, e.g. after a blocked upgrade
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+// Scale the top of the first section down to a small preview
+async function createThumbnail(section: ScreenshotSection): Promise<Blob> {
+  const bitmap = await createImageBitmap(section.blob);
+  const scale = THUMBNAIL_WIDTH / bitmap.width;
+  const canvas = document.createElement("canvas");
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.min(THUMBNAIL_HEIGHT, Math.round(bitmap.height * scale));
+  canvas.getContext("2d")?.drawImage(
+    bitmap,
+    0,
+    0,
+    bitmap.width,
+    canvas.height / scale, // source
+    0,
+    0,
+    canvas.width,
+    canvas.height // destination
+  );
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to create thumbnail")),
+      "image/webp",
+      0.8
+    );
+  });
+}
+
+// Newest first
+export async function listCaptures(): Promise<HistoryEntry[]> {
+  const db = await openDatabase();
+  const entries = await requestToPromise<HistoryEntry[]>(
+    db.transaction(CAPTURES_STORE).objectStore(CAPTURES_STORE).getAll()
+  );
+  return entries.sort((a, b) => b.capturedAt.localeCompare(a.capturedAt));
+}
+
+export async function deleteCapture(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [CAPTURES_STORE, SECTIONS_STORE],
+    "readwrite"
+  );
+  transaction.objectStore(CAPTURES_STORE).delete(id);
+  transaction
+    .objectStore(SECTIONS_STORE)
+    .delete(IDBKeyRange.bound([id, 0], [id, Number.MAX_SAFE_INTEGER]));
+  await transactionDone(transaction);
+}
+
+// Delete least recently used captures until the total fits the quota. The
+// capture named by `keepId` is never evicted, even if it alone is too big.
+export async function enforceQuota(
+  quotaBytes: number,
+  keepId?: string
+): Promise<void> {
+  const entries = await listCaptures();
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const evictable = entries
+    .filter((entry) => entry.id !== keepId)
+    .sort((a, b) => a.lastUsedAt.localeCompare(b.lastUsedAt));
+
+  for (const entry of evictable) {
+    if (total <= quotaBytes) {
+      break;
+    }
+    await deleteCapture(entry.id);
+    total -= entry.size;
+  }
+}
+
+export async function saveCapture(
+  info: CaptureInfo,
+  sections: ScreenshotSection[],
+  quotaBytes: number
+): Promise<HistoryEntry> {
+  // Thumbnails are a nicety; PDFs and videos simply don't get one
+  const thumbnail = await createThumbnail(sections[0]).catch(() => null);
+  const entry: HistoryEntry = {
+    ...info,
+    id: crypto.randomUUID(),
+    lastUsedAt: new Date().toISOString(),
+    sectionCount: sections.length,
+    size: getSectionsSize(sections) + (thumbnail?.size ?? 0),
+    thumbnail,
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [CAPTURES_STORE, SECTIONS_STORE],
+    "readwrite"
+  );
+  transaction.objectStore(CAPTURES_STORE).put(entry);
+  const sectionStore = transaction.objectStore(SECTIONS_STORE);
+  for (const section of sections) {
+    const stored: StoredSection = {
+      captureId: entry.id,
+      index: section.index,
+      offsetY: section.offsetY,
+      width: section.width,
+      height: section.height,
+      blob: section.blob,
+    };
+    sectionStore.put(stored);
+  }
+  await transactionDone(transaction);
+
+  await enforceQuota(quotaBytes, entry.id);
+  return entry;
+}
+
+// Load a capture's sections and mark it as recently used
+export async function openCapture(
+  entry: HistoryEntry
+): Promise<ScreenshotSection[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [CAPTURES_STORE, SECTIONS_STORE],
+    "readwrite"
+  );
+  const stored = await requestToPromise<StoredSection[]>(
+    transaction.objectStore(SECTIONS_STORE).index("captureId").getAll(entry.id)
+  );
+  transaction
+    .objectStore(CAPTURES_STORE)
+    .put({ ...entry, lastUsedAt: new Date().toISOString() });
+  await transactionDone(transaction);
+
+  return stored
+    .sort((a, b) => a.index - b.index)
+    .map(({ blob, index, offsetY, width, height }) =>
+      createSection(blob, { index, offsetY, width, height })
+    );
+}
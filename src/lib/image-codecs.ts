@@ -0,0 +1,131 @@
+import decodeJpeg, { init as initJpegDecode } from "@jsquash/jpeg/decode";
+import encodeJpeg, { init as initJpegEncode } from "@jsquash/jpeg/encode";
+import decodePng, { init as initPngDecode } from "@jsquash/png/decode";
+import encodePng, { init as initPngEncode } from "@jsquash/png/encode";
+import decodeWebp, { init as initWebpDecode } from "@jsquash/webp/decode";
+import encodeWebp, { init as initWebpEncode } from "@jsquash/webp/encode";
+import type { ScreenshotFormat } from "@/lib/screenshot-options";
+import type { RgbaImage } from "@/lib/split";
+
+// WebAssembly image codecs for splitting captures without a canvas, in the
+// Worker and the CLI. Each runtime loads the .wasm files its own way.
+
+// The codec builds in @jsquash/*/codec. The WebP encoder is the SIMD
+// build, which Workers and Node both support.
+export type CodecWasm =
+  | "png"
+  | "jpegDecode"
+  | "jpegEncode"
+  | "webpDecode"
+  | "webpEncode";
+
+export const CODEC_WASM_PATHS: Record<CodecWasm, string> = {
+  png: "@jsquash/png/codec/pkg/squoosh_png_bg.wasm",
+  jpegDecode: "@jsquash/jpeg/codec/dec/mozjpeg_dec.wasm",
+  jpegEncode: "@jsquash/jpeg/codec/enc/mozjpeg_enc.wasm",
+  webpDecode: "@jsquash/webp/codec/dec/webp_dec.wasm",
+  webpEncode: "@jsquash/webp/codec/enc/webp_enc_simd.wasm",
+};
+
+export type LoadWasm = (
+  name: CodecWasm
+) => WebAssembly.Module | Promise<WebAssembly.Module>;
+
+export interface ImageCodecs {
+  decodeImage: (
+    data: ArrayBuffer,
+    format: ScreenshotFormat
+  ) => Promise<RgbaImage>;
+  // Quality is 0-1 like the canvas encoder's, and ignored for PNG
+  encodeImage: (
+    image: RgbaImage,
+    format: ScreenshotFormat,
+    quality?: number
+  ) => Promise<ArrayBuffer>;
+}
+
+interface Codec {
+  init: (load: LoadWasm) => Promise<unknown>;
+  decode: (data: ArrayBuffer) => Promise<RgbaImage>;
+  encode: (image: RgbaImage, quality?: number) => Promise<ArrayBuffer>;
+}
+
+// The Emscripten codecs accept a compiled module at runtime, but their
+// typings only list the options argument
+type InitWithModule = (wasmModule: WebAssembly.Module) => Promise<unknown>;
+
+async function initWith(
+  init: unknown,
+  load: LoadWasm,
+  name: CodecWasm
+): Promise<unknown> {
+  return (init as InitWithModule)(await load(name));
+}
+
+// The encoders are typed to take a canvas ImageData but only read its data,
+// width and height
+type EncoderInput = Parameters<typeof encodeJpeg>[0];
+
+function toPercent(quality: number | undefined): number | undefined {
+  return quality === undefined ? undefined : Math.round(quality * 100);
+}
+
+const CODECS: Partial<Record<ScreenshotFormat, Codec>> = {
+  png: {
+    init: async (load) => {
+      const wasm = await load("png");
+      return Promise.all([initPngDecode(wasm), initPngEncode(wasm)]);
+    },
+    decode: (data) => decodePng(data),
+    encode: (image) => encodePng(image as EncoderInput),
+  },
+  jpeg: {
+    init: (load) =>
+      Promise.all([
+        initWith(initJpegDecode, load, "jpegDecode"),
+        initWith(initJpegEncode, load, "jpegEncode"),
+      ]),
+    decode: (data) => decodeJpeg(data),
+    encode: (image, quality) =>
+      encodeJpeg(image as EncoderInput, { quality: toPercent(quality) }),
+  },
+  webp: {
+    init: (load) =>
+      Promise.all([
+        initWith(initWebpDecode, load, "webpDecode"),
+        initWith(initWebpEncode, load, "webpEncode"),
+      ]),
+    decode: (data) => decodeWebp(data),
+    encode: (image, quality) =>
+      encodeWebp(image as EncoderInput, { quality: toPercent(quality) }),
+  },
+};
+
+// Codecs for PNG, JPEG and WebP, each instantiated on first use and kept
+// for the life of the process
+export function createImageCodecs(load: LoadWasm): ImageCodecs {
+  const loaded = new Map<ScreenshotFormat, Promise<unknown>>();
+
+  const getCodec = async (format: ScreenshotFormat): Promise<Codec> => {
+    const codec = CODECS[format];
+    if (!codec) {
+      throw new Error(`Can't decode ${format.toUpperCase()} images`);
+    }
+    if (!loaded.has(format)) {
+      loaded.set(format, codec.init(load));
+    }
+    await loaded.get(format);
+    return codec;
+  };
+
+  return {
+    decodeImage: async (data, format) => {
+      const codec = await getCodec(format);
+      return codec.decode(data);
+    },
+    encodeImage: async (image, format, quality) => {
+      const codec = await getCodec(format);
+      return codec.encode(image, quality);
+    },
+  };
+}
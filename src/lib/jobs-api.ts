@@ -0,0 +1,82 @@
+import type { CaptureJob, CaptureJobInput, JobRun } from "@/lib/schedules";
+
+// Browser side of the Worker's /api/jobs routes. Each call takes the
+// deployment's API_TOKEN secret.
+
+function authorize(token: string): Record<string, string> {
+  return { Authorization: `Bearer ${token}` };
+}
+
+async function readError(response: Response, fallback: string) {
+  const body = (await response.json().catch(() => null)) as {
+    error?: string;
+  } | null;
+  return new Error(body?.error ?? `${fallback}: ${response.status}`);
+}
+
+export async function fetchJobs(token: string): Promise<CaptureJob[]> {
+  const response = await fetch("/api/jobs", { headers: authorize(token) });
+  if (!response.ok) {
+    throw await readError(response, "Couldn't load scheduled jobs");
+  }
+  return response.json();
+}
+
+export async function postJob(
+  token: string,
+  input: CaptureJobInput
+): Promise<CaptureJob> {
+  const response = await fetch("/api/jobs", {
+    method: "POST",
+    headers: { ...authorize(token), "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) {
+    throw await readError(response, "Couldn't save the job");
+  }
+  return response.json();
+}
+
+export async function removeJob(token: string, jobId: string): Promise<void> {
+  const response = await fetch(`/api/jobs/${jobId}`, {
+    method: "DELETE",
+    headers: authorize(token),
+  });
+  if (!response.ok) {
+    throw await readError(response, "Couldn't delete the job");
+  }
+}
+
+// Queues a run and returns it with every page pending; its record fills in
+// as the Worker captures each page
+export async function startJobRun(
+  token: string,
+  jobId: string
+): Promise<JobRun> {
+  const response = await fetch(`/api/jobs/${jobId}/run`, {
+    method: "POST",
+    headers: authorize(token),
+  });
+  if (!response.ok) {
+    throw await readError(response, "Couldn't start the run");
+  }
+  return response.json();
+}
+
+export async function fetchJobRuns(
+  token: string,
+  jobId: string
+): Promise<JobRun[]> {
+  const response = await fetch(`/api/jobs/${jobId}/runs`, {
+    headers: authorize(token),
+  });
+  if (!response.ok) {
+    throw await readError(response, "Couldn't load past runs");
+  }
+  return response.json();
+}
+
+// Where the Worker serves a stored section
+export function getCaptureFileUrl(key: string): string {
+  return `/api/captures/${key.split("/").map(encodeURIComponent).join("/")}`;
+}
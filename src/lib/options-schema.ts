@@ -0,0 +1,59 @@
+import { z } from "zod";
+import {
+  DEFAULT_SCREENSHOT_OPTIONS,
+  SCREENSHOT_FORMATS,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+
+// Field-by-field validators for ScreenshotOptions
+export const screenshotOptionsShape = {
+  format: z.enum(SCREENSHOT_FORMATS),
+  fullPage: z.boolean(),
+  viewportWidth: z.string(),
+  viewportHeight: z.string(),
+  devicePreset: z.string(),
+  blockAds: z.boolean(),
+  blockCookieBanners: z.boolean(),
+  timeout: z.string(),
+  cache: z.boolean(),
+  deviceScaleFactor: z.string(),
+  delay: z.string(),
+  enableAnimatedCapture: z.boolean(),
+  animationDuration: z.string(),
+  scrollDelay: z.string(),
+  waitUntil: z.string(),
+  preScroll: z.boolean(),
+  scrollStrategy: z.enum(["simple", "progressive", "custom"]),
+  progressiveScrollSteps: z.string(),
+  customScrollScript: z.string(),
+  sectionHeight: z.string(),
+  sectionOverlap: z.string(),
+  splitAtWhitespace: z.boolean(),
+  imageQuality: z.string(),
+  viewportMobile: z.boolean(),
+  viewportHasTouch: z.boolean(),
+  userAgent: z.string(),
+  selector: z.string(),
+  selectorScrollIntoView: z.boolean(),
+  selectorRequired: z.boolean(),
+} satisfies Record<keyof ScreenshotOptions, z.ZodType>;
+
+// Every field is optional so options saved before newer fields existed
+// still load; missing fields take the current defaults
+export const screenshotOptionsSchema = z
+  .object(screenshotOptionsShape)
+  .partial()
+  .transform(
+    (options): ScreenshotOptions => ({
+      ...DEFAULT_SCREENSHOT_OPTIONS,
+      ...options,
+    })
+  );
+
+// Turn the first schema problem into something a person can act on, e.g.
+// `presets.0.options.format: Invalid option: expected one of "png"|...`
+export function describeIssue(error: z.ZodError): string {
+  const [issue] = error.issues;
+  const path = issue.path.join(".");
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { buildPermalinkSearch, parsePermalink } from "@/lib/permalink";
+import { DEFAULT_SCREENSHOT_OPTIONS } from "@/lib/screenshot-options";
+
+describe("buildPermalinkSearch", () => {
+  it("keeps the URL and the options that differ from the defaults", () => {
+    expect(
+      buildPermalinkSearch("example.com", {
+        ...DEFAULT_SCREENSHOT_OPTIONS,
+        deviceScaleFactor: "2",
+        selector: "#pricing",
+      })
+    ).toBe("?url=example.com&scale=2&element=%23pricing");
+  });
+
+  it("never includes a custom scroll script", () => {
+    const search = buildPermalinkSearch("example.com", {
+      ...DEFAULT_SCREENSHOT_OPTIONS,
+      scrollStrategy: "custom",
+      customScrollScript: "fetch('https://evil.example')",
+    });
+    expect(search).not.toContain("evil");
+    expect(parsePermalink(search).options).not.toHaveProperty(
+      "customScrollScript"
+    );
+  });
+});
+
+describe("parsePermalink", () => {
+  it("reads options back from their short names", () => {
+    expect(parsePermalink("?url=example.com&full=0&scale=2")).toEqual({
+      url: "example.com",
+      options: { fullPage: false, deviceScaleFactor: "2" },
+    });
+  });
+
+  it("ignores a scroll script in a link", () => {
+    expect(parsePermalink("?script=alert(1)").options).toEqual({});
+  });
+
+  it("skips values that don't fit their option", () => {
+    expect(parsePermalink("?format=bmp&full=maybe").options).toEqual({});
+  });
+});
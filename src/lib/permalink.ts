@@ -0,0 +1,114 @@
+import { screenshotOptionsShape } from "@/lib/options-schema";
+import {
+  DEFAULT_SCREENSHOT_OPTIONS,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+
+// A custom scroll script runs in the provider's browser on the recipient's
+// API key, so it's never shared: opening a link must not run someone else's
+// code. Everything else is safe to pass along
+type SharedOption = Exclude<keyof ScreenshotOptions, "customScrollScript">;
+
+// Short query parameter names, so shared links stay readable
+const PARAM_NAMES: Record<SharedOption, string> = {
+  format: "format",
+  fullPage: "full",
+  viewportWidth: "width",
+  viewportHeight: "height",
+  devicePreset: "device",
+  blockAds: "noads",
+  blockCookieBanners: "nocookies",
+  timeout: "timeout",
+  cache: "cache",
+  deviceScaleFactor: "scale",
+  delay: "delay",
+  enableAnimatedCapture: "animated",
+  animationDuration: "duration",
+  scrollDelay: "scrolldelay",
+  waitUntil: "wait",
+  preScroll: "prescroll",
+  scrollStrategy: "scroll",
+  progressiveScrollSteps: "steps",
+  sectionHeight: "section",
+  sectionOverlap: "overlap",
+  splitAtWhitespace: "whitespace",
+  imageQuality: "quality",
+  viewportMobile: "mobile",
+  viewportHasTouch: "touch",
+  userAgent: "ua",
+  selector: "element",
+  selectorScrollIntoView: "scrollto",
+  selectorRequired: "strict",
+};
+
+const URL_PARAM = "url";
+
+const OPTION_KEYS = Object.keys(PARAM_NAMES) as SharedOption[];
+
+export interface Permalink {
+  url: string | null;
+  // Only the options present (and valid) in the link
+  options: Partial<ScreenshotOptions>;
+}
+
+function formatValue(value: string | boolean): string {
+  if (typeof value === "boolean") {
+    return value ? "1" : "0";
+  }
+  return value;
+}
+
+function parseValue(key: SharedOption, raw: string): unknown {
+  if (typeof DEFAULT_SCREENSHOT_OPTIONS[key] === "boolean") {
+    if (raw === "1" || raw === "true") {
+      return true;
+    }
+    if (raw === "0" || raw === "false") {
+      return false;
+    }
+  }
+  return raw;
+}
+
+// Encode the page URL and every shared option that differs from the
+// defaults. The API key is deliberately not part of ScreenshotOptions, so it
+// never ends up in a link.
+export function buildPermalinkSearch(
+  url: string,
+  options: ScreenshotOptions
+): string {
+  const params = new URLSearchParams();
+  if (url.trim()) {
+    params.set(URL_PARAM, url.trim());
+  }
+  for (const key of OPTION_KEYS) {
+    const value = options[key];
+    if (value !== DEFAULT_SCREENSHOT_OPTIONS[key]) {
+      params.set(PARAM_NAMES[key], formatValue(value));
+    }
+  }
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+// Read a permalink back, skipping values that don't fit their option
+export function parsePermalink(search: string): Permalink {
+  const params = new URLSearchParams(search);
+  const options: Partial<Record<keyof ScreenshotOptions, unknown>> = {};
+
+  for (const key of OPTION_KEYS) {
+    const raw = params.get(PARAM_NAMES[key]);
+    if (raw === null) {
+      continue;
+    }
+    const result = screenshotOptionsShape[key].safeParse(parseValue(key, raw));
+    if (result.success) {
+      options[key] = result.data;
+    }
+  }
+
+  return {
+    url: params.get(URL_PARAM),
+    options: options as Partial<ScreenshotOptions>,
+  };
+}
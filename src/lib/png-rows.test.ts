@@ -0,0 +1,211 @@
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { createPngRowReader } from "@/lib/png-rows";
+
+interface TestPng {
+  width: number;
+  height: number;
+  colorType?: number;
+  bitDepth?: number;
+  interlaced?: boolean;
+  // One filter type per row, cycling
+  filters?: number[];
+  // Raw samples per row, `channels` bytes a pixel
+  rows: number[][];
+  extraChunks?: [string, Uint8Array][];
+}
+
+function chunk(type: string, body: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + body.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, body.length);
+  out.set(
+    Array.from(type, (c) => c.charCodeAt(0)),
+    4
+  );
+  out.set(body, 8);
+  // The reader doesn't check CRCs, so they're left as zeroes
+  return out;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) {
+    return left;
+  }
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+// Apply a PNG filter to one row of samples
+function filterRow(
+  filter: number,
+  row: number[],
+  previous: number[],
+  bpp: number
+): number[] {
+  return row.map((value, i) => {
+    const left = i >= bpp ? row[i - bpp] : 0;
+    const up = previous[i] ?? 0;
+    const upLeft = i >= bpp ? (previous[i - bpp] ?? 0) : 0;
+    const predictors = [
+      0,
+      left,
+      up,
+      Math.floor((left + up) / 2),
+      paeth(left, up, upLeft),
+    ];
+    return (value - predictors[filter] + 256) % 256;
+  });
+}
+
+function encodePng({
+  width,
+  height,
+  colorType = 6,
+  bitDepth = 8,
+  interlaced = false,
+  filters = [0],
+  rows,
+  extraChunks = [],
+}: TestPng): ArrayBuffer {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([bitDepth, colorType, 0, 0, interlaced ? 1 : 0], 8);
+
+  const bpp = rows[0].length / width;
+  const scanlines: number[] = [];
+  for (const [y, row] of rows.entries()) {
+    const filter = filters[y % filters.length];
+    scanlines.push(filter, ...filterRow(filter, row, rows[y - 1] ?? [], bpp));
+  }
+  const compressed = deflateSync(Uint8Array.from(scanlines));
+  // Split the stream over two IDAT chunks, as encoders often do
+  const half = Math.floor(compressed.length / 2);
+
+  const parts = [
+    Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    ...extraChunks.map(([type, body]) => chunk(type, body)),
+    chunk("IDAT", compressed.subarray(0, half)),
+    chunk("IDAT", compressed.subarray(half)),
+    chunk("IEND", new Uint8Array(0)),
+  ];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out.buffer;
+}
+
+// Deterministic RGBA noise, so every filter has something to predict
+function noiseRows(width: number, height: number, channels: number) {
+  return Array.from({ length: height }, (_, y) =>
+    Array.from(
+      { length: width * channels },
+      (_, i) => (y * 97 + i * 31 + ((y * i) % 13)) % 256
+    )
+  );
+}
+
+async function readAll(data: ArrayBuffer, bandRows: number) {
+  const reader = createPngRowReader(data);
+  if (!reader) {
+    throw new Error("Not streamable");
+  }
+  const out: number[] = [];
+  for (let y = 0; y < reader.height; y += bandRows) {
+    const band = new Uint8ClampedArray(
+      Math.min(bandRows, reader.height - y) * reader.width * 4
+    );
+    await reader.read(band);
+    out.push(...band);
+  }
+  return out;
+}
+
+describe("createPngRowReader", () => {
+  it("undoes every filter type", async () => {
+    const rows = noiseRows(7, 10, 4);
+    const data = encodePng({
+      width: 7,
+      height: 10,
+      filters: [0, 1, 2, 3, 4],
+      rows,
+    });
+    expect(await readAll(data, 3)).toEqual(rows.flat());
+  });
+
+  it("expands RGB and greyscale to RGBA", async () => {
+    const rgb = encodePng({
+      width: 2,
+      height: 1,
+      colorType: 2,
+      rows: [[10, 20, 30, 40, 50, 60]],
+    });
+    expect(await readAll(rgb, 1)).toEqual([10, 20, 30, 255, 40, 50, 60, 255]);
+
+    const greyAlpha = encodePng({
+      width: 2,
+      height: 1,
+      colorType: 4,
+      filters: [1],
+      rows: [[100, 128, 200, 0]],
+    });
+    expect(await readAll(greyAlpha, 1)).toEqual([
+      100, 100, 100, 128, 200, 200, 200, 0,
+    ]);
+  });
+
+  it("reports the image size", () => {
+    const reader = createPngRowReader(
+      encodePng({ width: 3, height: 2, rows: noiseRows(3, 2, 4) })
+    );
+    expect(reader).toMatchObject({ width: 3, height: 2 });
+  });
+
+  it("refuses PNGs it can't stream", () => {
+    const rows = [[0, 0]];
+    expect(
+      createPngRowReader(encodePng({ width: 2, height: 1, colorType: 3, rows }))
+    ).toBeNull();
+    expect(
+      createPngRowReader(
+        encodePng({ width: 1, height: 1, bitDepth: 16, colorType: 0, rows })
+      )
+    ).toBeNull();
+    expect(
+      createPngRowReader(
+        encodePng({ width: 2, height: 1, colorType: 0, interlaced: true, rows })
+      )
+    ).toBeNull();
+    expect(
+      createPngRowReader(
+        encodePng({
+          width: 2,
+          height: 1,
+          colorType: 0,
+          rows,
+          extraChunks: [["tRNS", new Uint8Array(2)]],
+        })
+      )
+    ).toBeNull();
+  });
+
+  it("fails when the image data runs out", async () => {
+    const data = encodePng({ width: 2, height: 1, rows: noiseRows(2, 1, 4) });
+    const header = new DataView(data, 8 + 8);
+    // Claim a second row the data doesn't have
+    header.setUint32(4, 2);
+    const reader = createPngRowReader(data);
+    await expect(
+      reader?.read(new Uint8ClampedArray(2 * 2 * 4))
+    ).rejects.toThrow("ended before its last row");
+  });
+});
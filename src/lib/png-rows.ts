@@ -0,0 +1,223 @@
+import type { RowReader } from "@/lib/split";
+
+// Decode a PNG a band of rows at a time, so a tall capture can be split
+// without holding all of its pixels at once. Only what screenshot APIs
+// return can be streamed: 8-bit, non-interlaced greyscale, RGB and RGBA
+// images without a transparent colour key.
+
+const PNG_SIGNATURE_LENGTH = 8;
+
+// Channels per pixel for each streamable colour type
+const CHANNELS: Record<number, number> = {
+  0: 1, // greyscale
+  2: 3, // RGB
+  4: 2, // greyscale and alpha
+  6: 4, // RGBA
+};
+
+const FILTER_NONE = 0;
+const FILTER_SUB = 1;
+const FILTER_UP = 2;
+const FILTER_AVERAGE = 3;
+const FILTER_PAETH = 4;
+
+interface PngLayout {
+  width: number;
+  height: number;
+  channels: number;
+  // The zlib stream, split across the IDAT chunks
+  idat: Uint8Array<ArrayBuffer>[];
+}
+
+function chunkType(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+// Size and channels from the IHDR chunk at `body`, or null when the image
+// isn't streamable
+function readHeader(
+  view: DataView,
+  body: number
+): Omit<PngLayout, "idat"> | null {
+  const bitDepth = view.getUint8(body + 8);
+  const channels = CHANNELS[view.getUint8(body + 9)];
+  const interlaced = view.getUint8(body + 12) !== 0;
+  if (bitDepth !== 8 || !channels || interlaced) {
+    return null;
+  }
+  return {
+    width: view.getUint32(body),
+    height: view.getUint32(body + 4),
+    channels,
+  };
+}
+
+// Walk the chunks, returning null for PNGs the row reader can't handle
+function readLayout(data: ArrayBuffer): PngLayout | null {
+  const bytes = new Uint8Array(data);
+  const view = new DataView(data);
+  let header: Omit<PngLayout, "idat"> | null = null;
+  const idat: Uint8Array<ArrayBuffer>[] = [];
+  let offset = PNG_SIGNATURE_LENGTH;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = chunkType(bytes, offset + 4);
+    const body = offset + 8;
+    if (body + length > bytes.length || type === "tRNS") {
+      return null;
+    }
+    if (type === "IHDR") {
+      header = readHeader(view, body);
+    } else if (type === "IDAT") {
+      idat.push(bytes.subarray(body, body + length));
+    } else if (type === "IEND") {
+      break;
+    }
+    // Length, type, body and CRC
+    offset = body + length + 4;
+  }
+
+  return header && idat.length > 0 ? { ...header, idat } : null;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) {
+    return left;
+  }
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+// The value a filter predicts from the neighbouring bytes
+function predict(
+  filter: number,
+  left: number,
+  up: number,
+  upLeft: number
+): number {
+  if (filter === FILTER_SUB) {
+    return left;
+  }
+  if (filter === FILTER_UP) {
+    return up;
+  }
+  if (filter === FILTER_AVERAGE) {
+    return Math.floor((left + up) / 2);
+  }
+  return paeth(left, up, upLeft);
+}
+
+// Undo one scanline's filter in place. `line` holds the filtered bytes
+// (without the filter type byte) and `previous` the unfiltered line above,
+// all zeroes for the first. Uint8Array stores wrap modulo 256, as PNG's
+// arithmetic does.
+function unfilter(
+  filter: number,
+  line: Uint8Array,
+  previous: Uint8Array,
+  bytesPerPixel: number
+) {
+  if (filter === FILTER_NONE) {
+    return;
+  }
+  if (filter > FILTER_PAETH) {
+    throw new Error(`Unknown PNG filter type ${filter}`);
+  }
+  for (let i = 0; i < line.length; i++) {
+    const left = i >= bytesPerPixel ? line[i - bytesPerPixel] : 0;
+    const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+    line[i] += predict(filter, left, previous[i], upLeft);
+  }
+}
+
+// Expand one unfiltered scanline to RGBA at `offset` in `out`
+function writeRgba(
+  line: Uint8Array,
+  channels: number,
+  out: Uint8ClampedArray,
+  offset: number
+) {
+  const pixels = line.length / channels;
+  for (let x = 0; x < pixels; x++) {
+    const i = x * channels;
+    const o = offset + x * 4;
+    if (channels < 3) {
+      out[o] = line[i];
+      out[o + 1] = line[i];
+      out[o + 2] = line[i];
+      out[o + 3] = channels === 2 ? line[i + 1] : 255;
+    } else {
+      out[o] = line[i];
+      out[o + 1] = line[i + 1];
+      out[o + 2] = line[i + 2];
+      out[o + 3] = channels === 4 ? line[i + 3] : 255;
+    }
+  }
+}
+
+// Inflated bytes from the IDAT chunks, handed out a scanline at a time
+function createScanlineSource(idat: Uint8Array<ArrayBuffer>[]) {
+  const compressed = new ReadableStream<BufferSource>({
+    start(controller) {
+      for (const chunk of idat) {
+        controller.enqueue(chunk);
+      }
+      controller.close();
+    },
+  });
+  const reader = compressed
+    .pipeThrough(new DecompressionStream("deflate"))
+    .getReader();
+  let pending = new Uint8Array(0);
+
+  // The next `length` bytes, copied so the caller can filter them in place
+  return async (length: number): Promise<Uint8Array> => {
+    while (pending.length < length) {
+      const { done, value } = await reader.read();
+      if (done) {
+        throw new Error("The PNG ended before its last row");
+      }
+      const joined = new Uint8Array(pending.length + value.length);
+      joined.set(pending);
+      joined.set(value, pending.length);
+      pending = joined;
+    }
+    const line = pending.slice(0, length);
+    pending = pending.subarray(length);
+    return line;
+  };
+}
+
+// A reader for the PNG's rows as RGBA, or null when the PNG can't be
+// streamed and has to be decoded whole
+export function createPngRowReader(data: ArrayBuffer): RowReader | null {
+  const layout = readLayout(data);
+  if (!layout) {
+    return null;
+  }
+  const { width, height, channels, idat } = layout;
+  const lineLength = width * channels;
+  let nextLine: ((length: number) => Promise<Uint8Array>) | null = null;
+  let previous: Uint8Array = new Uint8Array(lineLength);
+
+  return {
+    width,
+    height,
+    read: async (rows) => {
+      // Started on the first read, so refused captures never inflate
+      nextLine ??= createScanlineSource(idat);
+      const count = rows.length / (width * 4);
+      for (let row = 0; row < count; row++) {
+        const scanline = await nextLine(lineLength + 1);
+        const line = scanline.subarray(1);
+        unfilter(scanline[0], line, previous, channels);
+        writeRgba(line, channels, rows, row * width * 4);
+        previous = line;
+      }
+    },
+  };
+}
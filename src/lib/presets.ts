@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { describeIssue, screenshotOptionsSchema } from "@/lib/options-schema";
+import type { ScreenshotOptions } from "@/lib/screenshot-options";
+
+// Bump when the file layout changes in a way older builds can't read
+export const PRESET_FILE_VERSION = 1;
+export const MAX_PRESET_NAME_LENGTH = 60;
+
+export interface Preset {
+  name: string;
+  options: ScreenshotOptions;
+}
+
+export class PresetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PresetError";
+  }
+}
+
+const presetSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_PRESET_NAME_LENGTH),
+  options: screenshotOptionsSchema,
+});
+
+const presetFileSchema = z.object({
+  version: z.literal(PRESET_FILE_VERSION),
+  presets: z.array(presetSchema),
+});
+
+export function normalizePresetName(name: string): string {
+  return name.trim().slice(0, MAX_PRESET_NAME_LENGTH);
+}
+
+// Parse an exported presets file, throwing a PresetError that says what is
+// wrong with it
+export function parsePresetFile(text: string): Preset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PresetError("The preset file isn't valid JSON");
+  }
+
+  const version = (data as { version?: unknown } | null)?.version;
+  if (typeof version === "number" && version > PRESET_FILE_VERSION) {
+    throw new PresetError(
+      `This preset file was made by a newer version of Screenshotgun (version ${version})`
+    );
+  }
+
+  const result = presetFileSchema.safeParse(data);
+  if (!result.success) {
+    throw new PresetError(
+      `Invalid preset file - ${describeIssue(result.error)}`
+    );
+  }
+  return result.data.presets;
+}
+
+export function serializePresets(presets: Preset[]): string {
+  return JSON.stringify({ version: PRESET_FILE_VERSION, presets }, null, 2);
+}
+
+// Add or replace presets by name, keeping the list sorted
+export function mergePresets(existing: Preset[], incoming: Preset[]): Preset[] {
+  const byName = new Map(existing.map((preset) => [preset.name, preset]));
+  for (const preset of incoming) {
+    byName.set(preset.name, preset);
+  }
+  return Array.from(byName.values()).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
@@ -0,0 +1,198 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buildApiFlashUrl } from "@/lib/apiflash";
+import {
+  explainFailedResponse,
+  findUnsupportedOption,
+  getProvider,
+} from "@/lib/providers";
+import {
+  DEFAULT_SCREENSHOT_OPTIONS,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+import { buildApiUrl } from "@/lib/screenshotone";
+
+// A stub provider API: records each request's query and answers with the
+// status in its first path segment (e.g. /401/take), or 200 without one
+let server: Server;
+let stubUrl: string;
+const received: URLSearchParams[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://stub");
+    received.push(url.searchParams);
+    const status = Number(url.pathname.split("/")[1]) || 200;
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(
+      status === 200 ? "{}" : JSON.stringify({ error: "stubbed failure" })
+    );
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  stubUrl = `http://127.0.0.1:${port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+// Send a built request to the stub and return the query it received
+async function sendToStub(apiUrl: URL): Promise<URLSearchParams> {
+  const response = await fetch(apiUrl);
+  const query = received.at(-1);
+  if (!(response.ok && query)) {
+    throw new Error(`The stub answered ${response.status}`);
+  }
+  return query;
+}
+
+function withOptions(options: Partial<ScreenshotOptions>): ScreenshotOptions {
+  return { ...DEFAULT_SCREENSHOT_OPTIONS, ...options };
+}
+
+describe("ScreenshotOne requests", () => {
+  it("send the page, key and capture settings", async () => {
+    const query = await sendToStub(
+      buildApiUrl(
+        "https://example.com/",
+        "key-123",
+        withOptions({ format: "jpeg", deviceScaleFactor: "2" }),
+        `${stubUrl}/take`
+      )
+    );
+    expect(query.get("access_key")).toBe("key-123");
+    expect(query.get("url")).toBe("https://example.com/");
+    expect(query.get("format")).toBe("jpeg");
+    expect(query.get("full_page")).toBe("true");
+    expect(query.get("viewport_width")).toBe("1920");
+    expect(query.get("device_scale_factor")).toBe("2");
+    expect(query.get("image_quality")).toBe("80");
+  });
+
+  it("send a device ID instead of the viewport size", async () => {
+    const query = await sendToStub(
+      buildApiUrl(
+        "https://example.com/",
+        "key",
+        withOptions({ devicePreset: "iphone_15_pro" }),
+        `${stubUrl}/take`
+      )
+    );
+    expect(query.get("viewport_device")).toBe("iphone_15_pro");
+    expect(query.has("viewport_width")).toBe(false);
+  });
+
+  it("send element captures with both selector choices", async () => {
+    const query = await sendToStub(
+      buildApiUrl(
+        "https://example.com/",
+        "key",
+        withOptions({ selector: " #pricing ", selectorScrollIntoView: false }),
+        `${stubUrl}/take`
+      )
+    );
+    expect(query.get("selector")).toBe("#pricing");
+    expect(query.get("selector_scroll_into_view")).toBe("false");
+    expect(query.get("error_on_selector_not_found")).toBe("true");
+  });
+});
+
+describe("ApiFlash requests", () => {
+  it("send the page, key and viewport", async () => {
+    const query = await sendToStub(
+      buildApiFlashUrl(
+        "https://example.com/",
+        "key-456",
+        withOptions({ blockAds: true }),
+        `${stubUrl}/urltoimage`
+      )
+    );
+    expect(query.get("access_key")).toBe("key-456");
+    expect(query.get("url")).toBe("https://example.com/");
+    expect(query.get("response_type")).toBe("image");
+    expect(query.get("width")).toBe("1920");
+    expect(query.get("height")).toBe("1080");
+    expect(query.get("no_ads")).toBe("true");
+    expect(query.get("fresh")).toBe("true");
+  });
+
+  it("cap the delay and map wait conditions", async () => {
+    const query = await sendToStub(
+      buildApiFlashUrl(
+        "https://example.com/",
+        "key",
+        withOptions({ delay: "25", waitUntil: "networkidle0" }),
+        `${stubUrl}/urltoimage`
+      )
+    );
+    expect(query.get("delay")).toBe("10");
+    expect(query.get("wait_until")).toBe("network_idle");
+  });
+});
+
+describe("findUnsupportedOption", () => {
+  it("accepts what the provider can capture", () => {
+    const options = withOptions({ devicePreset: "iphone_15_pro" });
+    expect(findUnsupportedOption(getProvider("screenshotone"), options)).toBe(
+      null
+    );
+    expect(
+      findUnsupportedOption(
+        getProvider("apiflash"),
+        withOptions({ devicePreset: "custom" })
+      )
+    ).toBe(null);
+  });
+
+  it("refuses elements and named devices ApiFlash can't capture", () => {
+    const apiFlash = getProvider("apiflash");
+    expect(
+      findUnsupportedOption(apiFlash, withOptions({ selector: "#pricing" }))
+    ).toMatch("single element");
+    expect(
+      findUnsupportedOption(apiFlash, withOptions({ devicePreset: "ipad" }))
+    ).toMatch("no named devices such as ipad");
+  });
+});
+
+describe("explainFailedResponse", () => {
+  it("explains a rejected ScreenshotOne key", async () => {
+    const provider = getProvider("screenshotone");
+    const response = await fetch(
+      provider.buildRequestUrl(
+        "https://example.com/",
+        "bad",
+        DEFAULT_SCREENSHOT_OPTIONS,
+        `${stubUrl}/401/take`
+      )
+    );
+    const error = await explainFailedResponse(
+      provider,
+      response,
+      DEFAULT_SCREENSHOT_OPTIONS
+    );
+    expect(error.message).toContain("401");
+    expect(error.hint).toContain("API key is invalid");
+  });
+
+  it("explains a used-up ApiFlash quota", async () => {
+    const provider = getProvider("apiflash");
+    const response = await fetch(
+      provider.buildRequestUrl(
+        "https://example.com/",
+        "key",
+        DEFAULT_SCREENSHOT_OPTIONS,
+        `${stubUrl}/402/urltoimage`
+      )
+    );
+    const error = await explainFailedResponse(
+      provider,
+      response,
+      DEFAULT_SCREENSHOT_OPTIONS
+    );
+    expect(error.message).toBe(
+      'API error: 402 Payment Required - {"error":"stubbed failure"}'
+    );
+    expect(error.hint).toContain("quota is used up");
+  });
+});
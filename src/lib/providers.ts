@@ -0,0 +1,141 @@
+import { apiFlashProvider } from "@/lib/apiflash";
+import { isNamedDevice } from "@/lib/devices";
+import type {
+  ScreenshotFormat,
+  ScreenshotOptions,
+} from "@/lib/screenshot-options";
+import { screenshotOneProvider } from "@/lib/screenshotone";
+
+export type ProviderId = "screenshotone" | "apiflash";
+
+// What a capture API can do, so the form only offers what will work
+export interface ProviderCapabilities {
+  formats: ScreenshotFormat[];
+  // Named devices such as "iphone_15_pro"; without them only the viewport
+  // size is sent
+  devicePresets: boolean;
+  // Mobile and touch flags for custom viewports
+  mobileEmulation: boolean;
+  // Capturing a single element by CSS selector
+  elementCapture: boolean;
+  signedRequests: boolean;
+}
+
+// Options to change before trying a failed capture again
+export interface SuggestedFix {
+  // Button text, e.g. "Retry with a 120s timeout"
+  label: string;
+  options: Partial<ScreenshotOptions>;
+}
+
+// A failed capture, explained in terms of what to change
+export interface ProviderError {
+  message: string;
+  // The vendor's error code, when the response had one
+  code?: string;
+  hint?: string;
+  documentationUrl?: string;
+  fix?: SuggestedFix;
+}
+
+// A response the provider rejected
+export interface FailedResponse {
+  status: number;
+  body: string;
+  // Status line plus any body, e.g. "400 Bad Request - ..."
+  detail: string;
+}
+
+// A screenshot API the Worker can proxy captures to
+export interface ScreenshotProvider {
+  id: ProviderId;
+  name: string;
+  // Where to get an access key
+  signupUrl: string;
+  capabilities: ProviderCapabilities;
+  // Map our options onto the vendor's request. `endpoint` defaults to the
+  // vendor's API and can point at a stub server in tests.
+  buildRequestUrl: (
+    url: string,
+    accessKey: string,
+    options: ScreenshotOptions,
+    endpoint?: string
+  ) => URL;
+  // Only for providers with `signedRequests`
+  signRequestUrl?: (apiUrl: URL, secretKey: string) => Promise<URL>;
+  // Turn a failed response into a message with hints for the user, given
+  // the options the capture was attempted with
+  describeError: (
+    response: FailedResponse,
+    options: ScreenshotOptions
+  ) => ProviderError;
+}
+
+export const SCREENSHOT_PROVIDERS: Record<ProviderId, ScreenshotProvider> = {
+  screenshotone: screenshotOneProvider,
+  apiflash: apiFlashProvider,
+};
+
+export const DEFAULT_PROVIDER_ID: ProviderId = "screenshotone";
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return (
+    typeof value === "string" &&
+    Object.keys(SCREENSHOT_PROVIDERS).includes(value)
+  );
+}
+
+export function getProvider(id: ProviderId): ScreenshotProvider {
+  return SCREENSHOT_PROVIDERS[id];
+}
+
+// Read a rejected response and let the provider explain it
+export async function explainFailedResponse(
+  provider: ScreenshotProvider,
+  response: Response,
+  options: ScreenshotOptions
+): Promise<ProviderError> {
+  let body = "";
+  try {
+    body = await response.text();
+  } catch {
+    // If we can't read the error text, use the basic message
+  }
+  const statusLine = `${response.status} ${response.statusText}`;
+  return provider.describeError(
+    {
+      status: response.status,
+      body,
+      detail: body ? `${statusLine} - ${body}` : statusLine,
+    },
+    options
+  );
+}
+
+export function supportsFormat(
+  provider: ScreenshotProvider,
+  format: ScreenshotFormat
+): boolean {
+  return provider.capabilities.formats.includes(format);
+}
+
+// Why the provider can't capture with these options, or null when it can.
+// The form only offers what the provider supports, but links, presets, API
+// callers and saved jobs can still ask for more, and a provider would
+// otherwise drop it without saying so.
+export function findUnsupportedOption(
+  provider: ScreenshotProvider,
+  options: ScreenshotOptions
+): string | null {
+  const { capabilities, name } = provider;
+  if (!supportsFormat(provider, options.format)) {
+    return `${name} can't capture ${options.format.toUpperCase()}; pick another format or provider`;
+  }
+  if (options.selector.trim() && !capabilities.elementCapture) {
+    return `${name} can't capture a single element; clear the selector or pick another provider`;
+  }
+  if (isNamedDevice(options.devicePreset) && !capabilities.devicePresets) {
+    return `${name} has no named devices such as ${options.devicePreset}; use a custom viewport or pick another provider`;
+  }
+  return null;
+}
@@ -0,0 +1,123 @@
+// Why a capture attempt failed. Everything except "permanent" is worth
+// another try after a pause.
+export type FailureKind =
+  | "network"
+  | "rate-limit"
+  | "server"
+  | "timeout"
+  | "permanent";
+
+// One failed attempt at a capture, kept so the final error can show what
+// happened along the way
+export interface CaptureAttempt {
+  attempt: number;
+  kind: FailureKind;
+  // HTTP status, or null when no response came back
+  status: number | null;
+  // How long we waited before the next attempt; null if we gave up
+  retryDelayMs: number | null;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+// 524 is Cloudflare's "origin timed out", seen when the provider is slow
+const TIMEOUT_STATUSES = [408, 504, 524];
+
+export function classifyStatus(status: number): FailureKind {
+  if (status === 429) {
+    return "rate-limit";
+  }
+  if (TIMEOUT_STATUSES.includes(status)) {
+    return "timeout";
+  }
+  return status >= 500 ? "server" : "permanent";
+}
+
+export function isTransient(kind: FailureKind): boolean {
+  return kind !== "permanent";
+}
+
+// Retry-After holds either delay seconds or an HTTP date; returns
+// milliseconds to wait, or null when missing or unreadable
+export function parseRetryAfter(
+  value: string | null,
+  now = Date.now()
+): number | null {
+  if (!value?.trim()) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : null;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// Wait before attempt `attempt + 1`: exponential backoff with jitter over
+// the upper half of the window, so parallel captures don't retry in step.
+// A Retry-After from the server wins when it asks for longer. Returns null
+// when the server wants a longer pause than we're willing to wait.
+export function getRetryDelay(
+  attempt: number,
+  retryAfterMs: number | null,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random
+): number | null {
+  if (retryAfterMs !== null && retryAfterMs > policy.maxDelayMs) {
+    return null;
+  }
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  const backoff = Math.round(ceiling / 2 + (random() * ceiling) / 2);
+  return Math.max(backoff, retryAfterMs ?? 0);
+}
+
+const FAILURE_LABELS: Record<FailureKind, string> = {
+  network: "Network error",
+  "rate-limit": "Rate limited",
+  server: "Server error",
+  timeout: "Timed out",
+  permanent: "Failed",
+};
+
+// e.g. "Attempt 1: Rate limited (429), retried after 2.1s"
+export function describeAttempt(attempt: CaptureAttempt): string {
+  const status = attempt.status === null ? "" : ` (${attempt.status})`;
+  const retry =
+    attempt.retryDelayMs === null
+      ? ""
+      : `, retried after ${(attempt.retryDelayMs / 1000).toFixed(1)}s`;
+  return `Attempt ${attempt.attempt}: ${FAILURE_LABELS[attempt.kind]}${status}${retry}`;
+}
+
+// Resolve after `ms`, or reject straight away if the signal aborts
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,195 @@
+import { z } from "zod";
+import { buildSectionFilename } from "@/lib/filenames";
+import { describeIssue, screenshotOptionsSchema } from "@/lib/options-schema";
+import {
+  DEFAULT_PROVIDER_ID,
+  findUnsupportedOption,
+  getProvider,
+  isProviderId,
+  type ProviderId,
+} from "@/lib/providers";
+import type { ScreenshotOptions } from "@/lib/screenshot-options";
+import { isValidUrl, normalizeUrl } from "@/lib/url";
+
+// Top-level regex for better performance
+const TIMESTAMP_SEPARATORS_REGEX = /[:.]/g;
+
+export const MAX_JOB_NAME_LENGTH = 60;
+export const MAX_JOB_URLS = 50;
+// How many past runs of a job are listed
+export const MAX_LISTED_RUNS = 20;
+
+export type JobInterval = "daily" | "weekly";
+
+export const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// A saved set of pages the Worker's cron captures on a schedule
+export interface CaptureJob {
+  id: string;
+  name: string;
+  urls: string[];
+  options: ScreenshotOptions;
+  provider: ProviderId;
+  interval: JobInterval;
+  // 0 (Sunday) to 6, for weekly jobs
+  weekday: number;
+  createdAt: string;
+}
+
+export type CaptureJobInput = Omit<CaptureJob, "id" | "createdAt">;
+
+export type RunCaptureStatus = "pending" | "captured" | "failed";
+
+// One stored section of a captured page
+export interface RunSection {
+  index: number;
+  // R2 object key, served from /api/captures/<key>
+  key: string;
+  offsetY: number;
+  // Null for formats the Worker can't read the size of (PDF, MP4)
+  width: number | null;
+  height: number | null;
+  size: number;
+}
+
+// One page of a run: pending until the queue gets to it, then its sections
+// or why it failed
+export interface RunCapture {
+  url: string;
+  status: RunCaptureStatus;
+  contentType: string | null;
+  sections: RunSection[];
+  error: string | null;
+}
+
+// The record of one scheduled (or manually started) run of a job, updated
+// as each page is captured
+export interface JobRun {
+  id: string;
+  jobId: string;
+  jobName: string;
+  options: ScreenshotOptions;
+  provider: ProviderId;
+  startedAt: string;
+  // Null until no page is pending
+  finishedAt: string | null;
+  captures: RunCapture[];
+}
+
+export class JobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobError";
+  }
+}
+
+const jobInputSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Give the job a name")
+    .max(MAX_JOB_NAME_LENGTH),
+  urls: z
+    .array(z.string())
+    .min(1, "Add at least one URL")
+    .max(MAX_JOB_URLS, `A job can capture at most ${MAX_JOB_URLS} pages`),
+  options: screenshotOptionsSchema,
+  provider: z
+    .string()
+    .optional()
+    .refine((value) => value === undefined || isProviderId(value), {
+      message: "Unknown capture provider",
+    }),
+  interval: z.enum(["daily", "weekly"]),
+  weekday: z.number().int().min(0).max(6).default(1),
+});
+
+// Check a job sent by the app, normalising its URLs. Throws a JobError
+// saying what's wrong, including options the job's provider can't capture.
+export function validateJobInput(input: unknown): CaptureJobInput {
+  const result = jobInputSchema.safeParse(input);
+  if (!result.success) {
+    throw new JobError(describeIssue(result.error));
+  }
+  const { provider, urls, ...job } = result.data;
+  const invalid = urls.find((url) => !isValidUrl(url));
+  if (invalid) {
+    throw new JobError(`Not a valid URL: ${invalid}`);
+  }
+  const providerId = isProviderId(provider) ? provider : DEFAULT_PROVIDER_ID;
+  const unsupported = findUnsupportedOption(
+    getProvider(providerId),
+    job.options
+  );
+  if (unsupported) {
+    throw new JobError(unsupported);
+  }
+  return {
+    ...job,
+    provider: providerId,
+    urls: Array.from(new Set(urls.map(normalizeUrl))),
+  };
+}
+
+// Cron fires daily; weekly jobs only run on their weekday (UTC)
+export function isJobDue(job: CaptureJob, scheduledTime: Date): boolean {
+  return job.interval === "daily" || scheduledTime.getUTCDay() === job.weekday;
+}
+
+// e.g. "Weekly on Monday" or "Daily"
+export function describeSchedule(job: CaptureJob): string {
+  return job.interval === "daily"
+    ? "Daily"
+    : `Weekly on ${WEEKDAYS[job.weekday]}`;
+}
+
+// R2 layout: jobs/<jobId>.json for jobs, and runs/<jobId>/<runId>/ holding
+// run.json plus the sections of each captured page. Run IDs start with the
+// time so they sort oldest first.
+export const JOBS_PREFIX = "jobs/";
+export const RUNS_PREFIX = "runs/";
+
+export function jobKey(jobId: string): string {
+  return `${JOBS_PREFIX}${jobId}.json`;
+}
+
+export function jobRunsPrefix(jobId: string): string {
+  return `${RUNS_PREFIX}${jobId}/`;
+}
+
+export function runKey(jobId: string, runId: string): string {
+  return `${jobRunsPrefix(jobId)}${runId}/run.json`;
+}
+
+export function createRunId(startedAt: Date): string {
+  return `${startedAt.toISOString().replace(TIMESTAMP_SEPARATORS_REGEX, "-")}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+// e.g. 2-example-com-pricing-19-10-2026-section-1.png for the first section
+// of the run's second page
+export function sectionKey(
+  jobId: string,
+  runId: string,
+  index: number,
+  url: string,
+  options: ScreenshotOptions,
+  section: number
+): string {
+  const filename = buildSectionFilename(url, options.format, section, {
+    includePath: true,
+  });
+  return `${jobRunsPrefix(jobId)}${runId}/${index + 1}-${filename}`;
+}
+
+// Total stored size of a page's sections, in bytes
+export function getRunCaptureSize(capture: RunCapture): number {
+  return capture.sections.reduce((total, section) => total + section.size, 0);
+}
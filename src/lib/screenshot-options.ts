@@ -0,0 +1,138 @@
+export type ScreenshotFormat = "png" | "jpeg" | "webp" | "pdf" | "gif" | "mp4";
+
+export type ScrollStrategy = "simple" | "progressive" | "custom";
+
+export interface ScreenshotOptions {
+  format: ScreenshotFormat;
+  fullPage: boolean;
+  viewportWidth: string;
+  viewportHeight: string;
+  devicePreset: string;
+  blockAds: boolean;
+  blockCookieBanners: boolean;
+  timeout: string;
+  cache: boolean;
+  deviceScaleFactor: string;
+  delay: string;
+  enableAnimatedCapture: boolean;
+  animationDuration: string;
+  scrollDelay: string;
+  waitUntil: string;
+  preScroll: boolean;
+  scrollStrategy: ScrollStrategy;
+  progressiveScrollSteps: string;
+  customScrollScript: string;
+  // How captures are cut into sections after download
+  sectionHeight: string;
+  sectionOverlap: string;
+  splitAtWhitespace: boolean;
+  // 1-100, used for JPEG and WebP
+  imageQuality: string;
+  // Emulation for custom viewports; ScreenshotOne devices bring their own
+  viewportMobile: boolean;
+  viewportHasTouch: boolean;
+  userAgent: string;
+  // CSS selector of a single element to capture instead of the page
+  selector: string;
+  selectorScrollIntoView: boolean;
+  // Fail when nothing matches the selector, rather than capturing the page
+  selectorRequired: boolean;
+}
+
+export const SCREENSHOT_FORMATS: ScreenshotFormat[] = [
+  "png",
+  "jpeg",
+  "webp",
+  "pdf",
+  "gif",
+  "mp4",
+];
+
+export const DEFAULT_SCREENSHOT_OPTIONS: ScreenshotOptions = {
+  format: "png",
+  fullPage: true,
+  viewportWidth: "1920",
+  viewportHeight: "1080",
+  devicePreset: "custom",
+  blockAds: false,
+  blockCookieBanners: false,
+  timeout: "60",
+  cache: false,
+  deviceScaleFactor: "1",
+  delay: "0",
+  enableAnimatedCapture: false,
+  animationDuration: "5",
+  scrollDelay: "500",
+  waitUntil: "load",
+  preScroll: false,
+  scrollStrategy: "simple",
+  progressiveScrollSteps: "10",
+  customScrollScript: "",
+  sectionHeight: "4096",
+  sectionOverlap: "0",
+  splitAtWhitespace: false,
+  imageQuality: "80",
+  viewportMobile: false,
+  viewportHasTouch: false,
+  userAgent: "",
+  selector: "",
+  selectorScrollIntoView: true,
+  selectorRequired: true,
+};
+
+// Still image formats that can be cut into sections in the browser
+export const RASTER_FORMATS: ScreenshotFormat[] = ["png", "jpeg", "webp"];
+
+export function isRasterFormat(format: ScreenshotFormat): boolean {
+  return RASTER_FORMATS.includes(format);
+}
+
+// Full-page and element captures can run past the section height, so
+// they're split; viewport shots and other formats stay as one file
+export function isSplitCapture(options: ScreenshotOptions): boolean {
+  return (
+    isRasterFormat(options.format) &&
+    (options.fullPage || options.selector.trim() !== "")
+  );
+}
+
+export function isLossyFormat(format: ScreenshotFormat): boolean {
+  return format === "jpeg" || format === "webp";
+}
+
+export const DEVICE_PRESETS = [
+  { value: "custom", label: "Custom viewport" },
+  { value: "ipad_pro", label: "iPad Pro (Desktop-like)" },
+  { value: "ipad_pro_landscape", label: "iPad Pro Landscape" },
+  { value: "ipad", label: "iPad" },
+  { value: "ipad_landscape", label: "iPad Landscape" },
+  { value: "iphone_15_pro", label: "iPhone 15 Pro" },
+  { value: "iphone_15_pro_landscape", label: "iPhone 15 Pro Landscape" },
+  { value: "iphone_14", label: "iPhone 14" },
+  { value: "iphone_14_landscape", label: "iPhone 14 Landscape" },
+  { value: "galaxy_s8", label: "Galaxy S8" },
+  { value: "galaxy_s8_landscape", label: "Galaxy S8 Landscape" },
+  { value: "pixel_5", label: "Pixel 5" },
+  { value: "pixel_5_landscape", label: "Pixel 5 Landscape" },
+];
+
+// User devices share the device preset field with ScreenshotOne's devices,
+// told apart by this prefix (see devices.ts)
+export const USER_DEVICE_PREFIX = "device:";
+
+// Devices ticked the first time the device matrix is used
+export const DEFAULT_MATRIX_DEVICES = ["custom", "ipad", "iphone_15_pro"];
+
+// Name of the device a capture is taken with, shown in results
+export function getDeviceLabel(options: ScreenshotOptions): string {
+  if (options.devicePreset === "custom") {
+    return `Custom viewport (${options.viewportWidth}×${options.viewportHeight})`;
+  }
+  if (options.devicePreset.startsWith(USER_DEVICE_PREFIX)) {
+    return options.devicePreset.slice(USER_DEVICE_PREFIX.length);
+  }
+  return (
+    DEVICE_PRESETS.find((preset) => preset.value === options.devicePreset)
+      ?.label ?? options.devicePreset
+  );
+}
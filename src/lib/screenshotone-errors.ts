@@ -0,0 +1,198 @@
+import { z } from "zod";
+import type { ProviderError, SuggestedFix } from "@/lib/providers";
+import type { ScreenshotOptions } from "@/lib/screenshot-options";
+
+// ScreenshotOne's longest allowed timeout, in seconds
+const MAX_TIMEOUT_SECONDS = 300;
+
+// Top-level regex for better performance
+const TOO_LARGE_REGEX = /too (large|big)/i;
+const UNDERSCORE_REGEX = /_/g;
+
+// Failed requests come back as JSON, e.g.
+// {"is_successful":false,"error_code":"timeout_error","error_message":"..."}
+const errorBodySchema = z.object({
+  error_code: z.string(),
+  error_message: z.string().optional(),
+  documentation_url: z.string().optional(),
+});
+
+export interface ScreenshotOneError {
+  code: string;
+  message: string;
+  documentationUrl?: string;
+}
+
+export function parseScreenshotOneError(
+  body: string
+): ScreenshotOneError | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return null;
+  }
+  const result = errorBodySchema.safeParse(json);
+  if (!result.success) {
+    return null;
+  }
+  const { error_code, error_message, documentation_url } = result.data;
+  return {
+    code: error_code,
+    message: error_message || error_code.replace(UNDERSCORE_REGEX, " "),
+    documentationUrl: documentation_url,
+  };
+}
+
+interface Guidance {
+  hint: string;
+  fix?: SuggestedFix;
+}
+
+function timeoutGuidance(options: ScreenshotOptions): Guidance {
+  const current = Number.parseInt(options.timeout, 10) || 60;
+  if (current < MAX_TIMEOUT_SECONDS) {
+    const timeout = Math.min(current * 2, MAX_TIMEOUT_SECONDS);
+    return {
+      hint: `The page didn't finish loading within ${current} seconds. Raise the timeout, or wait for DOM Ready instead of the full page load.`,
+      fix: {
+        label: `Retry with a ${timeout}s timeout`,
+        options: { timeout: timeout.toString() },
+      },
+    };
+  }
+  return {
+    hint: "The page didn't finish loading even with the longest timeout. Wait for DOM Ready instead of the full page load.",
+    fix:
+      options.waitUntil === "domcontentloaded"
+        ? undefined
+        : {
+            label: "Retry waiting for DOM Ready",
+            options: { waitUntil: "domcontentloaded" },
+          },
+  };
+}
+
+// Blocking scripts run inside the page, which some sites detect as a
+// headless browser and refuse
+function blockedGuidance(options: ScreenshotOptions): Guidance {
+  const blocking = options.blockAds || options.blockCookieBanners;
+  return {
+    hint: blocking
+      ? "The site refused the capture. Some sites block headless browsers; try turning off ad and cookie banner blocking."
+      : "The site refused the capture or returned an error. Check the URL opens in a normal browser; some sites block headless browsers.",
+    fix: blocking
+      ? {
+          label: "Retry without ad and cookie banner blocking",
+          options: { blockAds: false, blockCookieBanners: false },
+        }
+      : undefined,
+  };
+}
+
+// Large pages at a high scale factor get big fast; try the scale first, then
+// the full page
+function tooLargeGuidance(options: ScreenshotOptions): Guidance {
+  if (Number.parseFloat(options.deviceScaleFactor) > 1) {
+    return {
+      hint: "The capture is too large. Lower the scale factor or turn off full page.",
+      fix: {
+        label: "Retry at 1x scale",
+        options: { deviceScaleFactor: "1" },
+      },
+    };
+  }
+  return {
+    hint: "The capture is too large. Turn off full page to capture just the viewport.",
+    fix: options.fullPage
+      ? { label: "Retry without full page", options: { fullPage: false } }
+      : undefined,
+  };
+}
+
+function scriptGuidance(options: ScreenshotOptions): Guidance {
+  return {
+    hint: "A script run before the capture navigated away from the page. Check the custom scroll script or switch to simple scrolling.",
+    fix:
+      options.preScroll && options.scrollStrategy === "custom"
+        ? {
+            label: "Retry with simple scrolling",
+            options: { scrollStrategy: "simple" },
+          }
+        : undefined,
+  };
+}
+
+// Only sent when the capture was told to fail on a missing element
+function selectorGuidance(options: ScreenshotOptions): Guidance {
+  return {
+    hint: `Nothing on the page matches "${options.selector.trim()}". Check the selector in your browser's dev tools; if a script adds the element, wait for the network to go idle or add a delay.`,
+    fix: {
+      label: "Retry capturing the whole page",
+      options: { selector: "" },
+    },
+  };
+}
+
+const GUIDANCE: Record<string, (options: ScreenshotOptions) => Guidance> = {
+  timeout_error: timeoutGuidance,
+  host_returned_error: blockedGuidance,
+  network_error: blockedGuidance,
+  script_triggers_redirect: scriptGuidance,
+  selector_not_found: selectorGuidance,
+  name_not_resolved: () => ({
+    hint: "The domain couldn't be found. Check the URL for typos.",
+  }),
+  request_not_valid: () => ({
+    hint: "One of the options isn't accepted. Check the values in the advanced options.",
+  }),
+  access_key_required: () => ({
+    hint: "Enter your ScreenshotOne access key, or configure one on the server.",
+  }),
+  access_key_invalid: () => ({
+    hint: "Check the access key. Use the access key, not the secret key.",
+  }),
+  signature_is_required: () => ({
+    hint: "This key only accepts signed requests. Turn on signed requests and enter the secret key.",
+  }),
+  signature_is_not_valid: () => ({
+    hint: "The signature didn't match. Check the secret key, or turn off signed requests.",
+  }),
+  screenshots_limit_reached: () => ({
+    hint: "Your ScreenshotOne plan's capture quota is used up. Upgrade the plan or switch provider.",
+  }),
+  concurrency_limit_reached: () => ({
+    hint: "Too many captures at once for your plan. Lower the number of concurrent captures.",
+  }),
+  temporary_unavailable: () => ({
+    hint: "ScreenshotOne is temporarily unavailable. Try again in a minute.",
+  }),
+  internal_application_error: () => ({
+    hint: "ScreenshotOne hit an internal error. Try again in a minute.",
+  }),
+};
+
+function findGuidance(
+  error: ScreenshotOneError
+): ((options: ScreenshotOptions) => Guidance) | undefined {
+  if (Object.keys(GUIDANCE).includes(error.code)) {
+    return GUIDANCE[error.code];
+  }
+  // Oversized captures don't have a code of their own
+  return TOO_LARGE_REGEX.test(error.message) ? tooLargeGuidance : undefined;
+}
+
+// Explain a parsed error in terms of what to change, with a fix to retry
+// with when one option is the likely cause
+export function explainScreenshotOneError(
+  error: ScreenshotOneError,
+  options: ScreenshotOptions
+): ProviderError {
+  const guide = findGuidance(error);
+  return {
+    message: `ScreenshotOne error: ${error.message}`,
+    code: error.code,
+    documentationUrl: error.documentationUrl,
+    ...guide?.(options),
+  };
+}
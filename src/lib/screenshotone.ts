@@ -0,0 +1,193 @@
+import { isNamedDevice } from "@/lib/devices";
+import type {
+  FailedResponse,
+  ProviderError,
+  ScreenshotProvider,
+} from "@/lib/providers";
+import {
+  isLossyFormat,
+  SCREENSHOT_FORMATS,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+import {
+  explainScreenshotOneError,
+  parseScreenshotOneError,
+} from "@/lib/screenshotone-errors";
+import { getInlineScrollScript } from "@/lib/scroll-script";
+import { signApiUrl } from "@/lib/signing";
+
+export const SCREENSHOTONE_API_URL = "https://api.screenshotone.com/take";
+
+// Set viewport parameters. Custom viewports and user devices send their
+// size and emulation settings; ScreenshotOne devices only need their ID.
+function setViewportParams(apiUrl: URL, screenshotOptions: ScreenshotOptions) {
+  const { devicePreset } = screenshotOptions;
+  if (isNamedDevice(devicePreset)) {
+    apiUrl.searchParams.set("viewport_device", devicePreset);
+    return;
+  }
+
+  apiUrl.searchParams.set("viewport_width", screenshotOptions.viewportWidth);
+  if (screenshotOptions.viewportHeight) {
+    apiUrl.searchParams.set(
+      "viewport_height",
+      screenshotOptions.viewportHeight
+    );
+  }
+  if (screenshotOptions.viewportMobile) {
+    apiUrl.searchParams.set("viewport_mobile", "true");
+  }
+  if (screenshotOptions.viewportHasTouch) {
+    apiUrl.searchParams.set("viewport_has_touch", "true");
+  }
+  if (screenshotOptions.userAgent.trim()) {
+    apiUrl.searchParams.set("user_agent", screenshotOptions.userAgent.trim());
+  }
+}
+
+// Set content blocking parameters
+function setContentBlockingParams(
+  apiUrl: URL,
+  screenshotOptions: ScreenshotOptions
+) {
+  if (screenshotOptions.blockAds) {
+    apiUrl.searchParams.set("block_ads", "true");
+  }
+  if (screenshotOptions.blockCookieBanners) {
+    apiUrl.searchParams.set("block_cookie_banners", "true");
+  }
+}
+
+// Set rendering parameters
+function setRenderingParams(apiUrl: URL, screenshotOptions: ScreenshotOptions) {
+  if (screenshotOptions.deviceScaleFactor !== "1") {
+    apiUrl.searchParams.set(
+      "device_scale_factor",
+      screenshotOptions.deviceScaleFactor
+    );
+  }
+  if (screenshotOptions.timeout !== "60") {
+    apiUrl.searchParams.set("timeout", screenshotOptions.timeout);
+  }
+  apiUrl.searchParams.set("cache", screenshotOptions.cache.toString());
+  if (isLossyFormat(screenshotOptions.format)) {
+    apiUrl.searchParams.set("image_quality", screenshotOptions.imageQuality);
+  }
+}
+
+// Capture one element instead of the page. ScreenshotOne scrolls to it by
+// default and quietly captures the page when nothing matches, so both
+// choices are always sent.
+function setElementParams(apiUrl: URL, screenshotOptions: ScreenshotOptions) {
+  const selector = screenshotOptions.selector.trim();
+  if (!selector) {
+    return;
+  }
+  apiUrl.searchParams.set("selector", selector);
+  apiUrl.searchParams.set(
+    "selector_scroll_into_view",
+    screenshotOptions.selectorScrollIntoView.toString()
+  );
+  apiUrl.searchParams.set(
+    "error_on_selector_not_found",
+    screenshotOptions.selectorRequired.toString()
+  );
+}
+
+// Set animation and scroll parameters
+function setAnimationParams(apiUrl: URL, screenshotOptions: ScreenshotOptions) {
+  if (screenshotOptions.delay !== "0") {
+    const delayValue = Math.min(
+      Number.parseInt(screenshotOptions.delay, 10),
+      30
+    );
+    apiUrl.searchParams.set("delay", delayValue.toString());
+  }
+  if (screenshotOptions.waitUntil !== "load") {
+    apiUrl.searchParams.set("scripts_wait_until", screenshotOptions.waitUntil);
+  }
+  const scrollScript = getInlineScrollScript(screenshotOptions);
+  if (scrollScript) {
+    apiUrl.searchParams.set("scripts", scrollScript);
+  }
+}
+
+// Build API URL with all parameters. `endpoint` can point at a stub server
+// in tests.
+export function buildApiUrl(
+  fullUrl: string,
+  apiKeyValue: string,
+  screenshotOptions: ScreenshotOptions,
+  endpoint = SCREENSHOTONE_API_URL
+): URL {
+  const apiUrl = new URL(endpoint);
+  apiUrl.searchParams.set("access_key", apiKeyValue);
+  apiUrl.searchParams.set("url", fullUrl);
+  apiUrl.searchParams.set("format", screenshotOptions.format);
+  apiUrl.searchParams.set("full_page", screenshotOptions.fullPage.toString());
+
+  setViewportParams(apiUrl, screenshotOptions);
+  setContentBlockingParams(apiUrl, screenshotOptions);
+  setRenderingParams(apiUrl, screenshotOptions);
+  setElementParams(apiUrl, screenshotOptions);
+  setAnimationParams(apiUrl, screenshotOptions);
+
+  // For GIF format, use basic parameters only
+  if (
+    screenshotOptions.format === "gif" &&
+    screenshotOptions.enableAnimatedCapture
+  ) {
+    // Add any valid GIF-specific parameters here when confirmed
+  }
+
+  return apiUrl;
+}
+
+// Explain failures in terms of what to change. ScreenshotOne's JSON error
+// bodies get specific guidance; anything else falls back to the status.
+function describeError(
+  response: FailedResponse,
+  options: ScreenshotOptions
+): ProviderError {
+  const parsed = parseScreenshotOneError(response.body);
+  if (parsed) {
+    return explainScreenshotOneError(parsed, options);
+  }
+
+  const { detail } = response;
+  if (response.status === 400) {
+    return {
+      message: `API error: ${detail}`,
+      hint: "Common causes: Invalid API key (use access key, not secret key), invalid URL format, or missing required parameters.",
+    };
+  }
+  if (response.status === 401) {
+    return {
+      message: `API error: ${detail}`,
+      hint: "This usually means your API key is invalid or expired.",
+    };
+  }
+  if (response.status === 403) {
+    return {
+      message: `API error: ${detail}`,
+      hint: "This usually means you've exceeded your API quota or the API key doesn't have permission.",
+    };
+  }
+  return { message: `API error: ${detail}` };
+}
+
+export const screenshotOneProvider: ScreenshotProvider = {
+  id: "screenshotone",
+  name: "ScreenshotOne",
+  signupUrl: "https://screenshotone.com/?via=charles",
+  capabilities: {
+    formats: SCREENSHOT_FORMATS,
+    devicePresets: true,
+    mobileEmulation: true,
+    elementCapture: true,
+    signedRequests: true,
+  },
+  buildRequestUrl: buildApiUrl,
+  signRequestUrl: signApiUrl,
+  describeError,
+};
@@ -0,0 +1,78 @@
+import type { ScreenshotOptions } from "@/lib/screenshot-options";
+
+// Top-level regex for better performance
+const WHITESPACE_REGEX = /\s+/g;
+
+// Generate scroll script based on strategy
+export function generateScrollScript(scrollOptions: ScreenshotOptions): string {
+  if (!scrollOptions.preScroll) {
+    return "";
+  }
+
+  if (scrollOptions.scrollStrategy === "simple") {
+    return `
+        // Simple scroll through page
+        const scrollHeight = document.documentElement.scrollHeight;
+        const viewportHeight = window.innerHeight;
+        const scrollSteps = Math.ceil(scrollHeight / viewportHeight);
+
+        for (let i = 0; i < scrollSteps; i++) {
+          window.scrollTo(0, i * viewportHeight);
+          await new Promise(resolve => setTimeout(resolve, 300));
+        }
+
+        window.scrollTo(0, 0);
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      `;
+  }
+
+  if (scrollOptions.scrollStrategy === "progressive") {
+    const steps =
+      Number.parseInt(scrollOptions.progressiveScrollSteps, 10) || 10;
+    return `
+        // Progressive scroll with multiple pause points for scroll-driven content
+        const scrollHeight = document.documentElement.scrollHeight;
+        const viewportHeight = window.innerHeight;
+        const totalSteps = ${steps};
+
+        // Scroll down progressively with longer pauses
+        for (let i = 0; i <= totalSteps; i++) {
+          const scrollPosition = (scrollHeight * i) / totalSteps;
+          window.scrollTo(0, scrollPosition);
+
+          // Longer pause at each step to let scroll-driven animations complete
+          await new Promise(resolve => setTimeout(resolve, 800));
+
+          // Extra pause at quarter, half, three-quarter, and full scroll positions
+          if (i === Math.floor(totalSteps * 0.25) ||
+              i === Math.floor(totalSteps * 0.5) ||
+              i === Math.floor(totalSteps * 0.75) ||
+              i === totalSteps) {
+            await new Promise(resolve => setTimeout(resolve, 1500));
+          }
+        }
+
+        // Go back to top and wait for final state
+        window.scrollTo(0, 0);
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      `;
+  }
+
+  if (
+    scrollOptions.scrollStrategy === "custom" &&
+    scrollOptions.customScrollScript
+  ) {
+    return scrollOptions.customScrollScript;
+  }
+
+  return "";
+}
+
+// The scroll script collapsed onto one line, ready for a query parameter
+export function getInlineScrollScript(
+  scrollOptions: ScreenshotOptions
+): string {
+  return generateScrollScript(scrollOptions)
+    .replace(WHITESPACE_REGEX, " ")
+    .trim();
+}
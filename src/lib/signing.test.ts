@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { createSignature, signApiUrl } from "@/lib/signing";
+
+describe("createSignature", () => {
+  it("matches the RFC 4231 HMAC-SHA256 test vector", async () => {
+    // RFC 4231, test case 2
+    await expect(
+      createSignature("what do ya want for nothing?", "Jefe")
+    ).resolves.toBe(
+      "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843"
+    );
+  });
+
+  it("changes with the key", async () => {
+    const query = "access_key=abc&url=https%3A%2F%2Fexample.com";
+    expect(await createSignature(query, "one")).not.toBe(
+      await createSignature(query, "two")
+    );
+  });
+});
+
+describe("signApiUrl", () => {
+  const apiUrl = new URL(
+    "https://api.screenshotone.com/take?access_key=abc&url=https%3A%2F%2Fexample.com%2Fa%3Fb%3Dc&format=png&full_page=true"
+  );
+
+  it("appends the signature of the exact query string as the last parameter", async () => {
+    const signed = await signApiUrl(apiUrl, "secret");
+    const query = apiUrl.search.slice(1);
+
+    expect(signed.search).toBe(
+      `?${query}&signature=${await createSignature(query, "secret")}`
+    );
+    expect([...signed.searchParams.keys()].at(-1)).toBe("signature");
+  });
+
+  it("leaves the original URL untouched", async () => {
+    const before = apiUrl.toString();
+    await signApiUrl(apiUrl, "secret");
+    expect(apiUrl.toString()).toBe(before);
+  });
+
+  it("replaces an existing signature instead of signing it", async () => {
+    const signed = await signApiUrl(apiUrl, "secret");
+    const resigned = await signApiUrl(signed, "secret");
+    expect(resigned.toString()).toBe(signed.toString());
+    expect(resigned.searchParams.getAll("signature")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,42 @@
+// ScreenshotOne signed requests: an HMAC-SHA256 of the query string, keyed
+// with the account's secret key, appended as the final `signature` parameter.
+// See https://screenshotone.com/docs/signed-requests/
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+// Sign a raw query string (without the leading "?")
+export async function createSignature(
+  queryString: string,
+  secretKey: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secretKey),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(queryString)
+  );
+  return toHex(signature);
+}
+
+// Return a copy of the API URL with its signature appended. The signature
+// must come last so the query string ScreenshotOne verifies matches the one
+// that was signed.
+export async function signApiUrl(apiUrl: URL, secretKey: string): Promise<URL> {
+  const signedUrl = new URL(apiUrl);
+  signedUrl.searchParams.delete("signature");
+  const signature = await createSignature(signedUrl.search.slice(1), secretKey);
+  signedUrl.searchParams.append("signature", signature);
+  return signedUrl;
+}
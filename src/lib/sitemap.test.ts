@@ -0,0 +1,318 @@
+import { describe, expect, it } from "vitest";
+import {
+  discoverSitemapUrls,
+  filterUrls,
+  globToRegExp,
+  isSitemapXml,
+  MAX_SITEMAP_FILES,
+  MAX_SITEMAP_URLS,
+  parsePatterns,
+  parseSitemap,
+  resolveSitemapUrl,
+} from "@/lib/sitemap";
+
+function urlset(locs: string[]): string {
+  const entries = locs.map((loc) => `<url><loc>${loc}</loc></url>`).join("");
+  return `<?xml version="1.0" encoding="UTF-8"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${entries}</urlset>`;
+}
+
+function sitemapIndex(locs: string[]): string {
+  const entries = locs
+    .map((loc) => `<sitemap><loc>${loc}</loc></sitemap>`)
+    .join("");
+  return `<?xml version="1.0" encoding="UTF-8"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${entries}</sitemapindex>`;
+}
+
+// A fetchText serving fixed documents, recording what was asked for
+function serve(files: Record<string, string>) {
+  const requested: string[] = [];
+  const fetchText = (url: string) => {
+    requested.push(url);
+    return url in files
+      ? Promise.resolve(files[url])
+      : Promise.reject(new Error(`404 ${url}`));
+  };
+  return { fetchText, requested };
+}
+
+describe("parseSitemap", () => {
+  it("reads page URLs from a urlset", () => {
+    expect(
+      parseSitemap(
+        urlset(["https://example.com/", "https://example.com/pricing"])
+      )
+    ).toEqual({
+      kind: "urlset",
+      locs: ["https://example.com/", "https://example.com/pricing"],
+    });
+  });
+
+  it("reads nested sitemaps from a sitemap index", () => {
+    expect(
+      parseSitemap(sitemapIndex(["https://example.com/posts.xml"]))
+    ).toEqual({
+      kind: "sitemapindex",
+      locs: ["https://example.com/posts.xml"],
+    });
+  });
+
+  it("unwraps CDATA and trims whitespace", () => {
+    const xml = `<urlset><url><loc>
+      <![CDATA[https://example.com/a?b=1&c=2]]>
+    </loc></url></urlset>`;
+    expect(parseSitemap(xml).locs).toEqual(["https://example.com/a?b=1&c=2"]);
+  });
+
+  it("decodes XML entities", () => {
+    const xml = urlset(["https://example.com/?q=&lt;a&gt;&amp;b=&quot;&apos;"]);
+    expect(parseSitemap(xml).locs).toEqual([
+      "https://example.com/?q=<a>&b=\"'",
+    ]);
+  });
+
+  it("accepts namespace-prefixed tags", () => {
+    const xml = `<sm:sitemapindex xmlns:sm="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <sm:sitemap><sm:loc>https://example.com/a.xml</sm:loc></sm:sitemap>
+    </sm:sitemapindex>`;
+    expect(parseSitemap(xml)).toEqual({
+      kind: "sitemapindex",
+      locs: ["https://example.com/a.xml"],
+    });
+  });
+
+  it("ignores entries without a loc", () => {
+    const xml =
+      "<urlset><url><lastmod>2025-01-01</lastmod></url><url><loc>https://example.com/</loc></url></urlset>";
+    expect(parseSitemap(xml).locs).toEqual(["https://example.com/"]);
+  });
+});
+
+describe("isSitemapXml", () => {
+  it("accepts urlsets and sitemap indexes", () => {
+    expect(isSitemapXml(urlset([]))).toBe(true);
+    expect(isSitemapXml(sitemapIndex([]))).toBe(true);
+  });
+
+  it("refuses other documents", () => {
+    expect(isSitemapXml("<!doctype html><html><body>Hi</body></html>")).toBe(
+      false
+    );
+    expect(isSitemapXml('{"urlset":[]}')).toBe(false);
+  });
+});
+
+describe("resolveSitemapUrl", () => {
+  it("points a domain or page at /sitemap.xml", () => {
+    expect(resolveSitemapUrl("example.com/blog")).toBe(
+      "https://example.com/sitemap.xml"
+    );
+  });
+
+  it("keeps a URL that already names a sitemap", () => {
+    expect(resolveSitemapUrl("https://example.com/posts.xml.gz")).toBe(
+      "https://example.com/posts.xml.gz"
+    );
+  });
+});
+
+describe("discoverSitemapUrls", () => {
+  it("follows sitemap indexes and collects unique pages", async () => {
+    const { fetchText } = serve({
+      "https://example.com/sitemap.xml": sitemapIndex([
+        "https://example.com/pages.xml",
+        "https://example.com/posts.xml",
+      ]),
+      "https://example.com/pages.xml": urlset([
+        "https://example.com/",
+        "https://example.com/about",
+      ]),
+      "https://example.com/posts.xml": urlset([
+        "https://example.com/about",
+        "https://example.com/blog/hello",
+      ]),
+    });
+
+    await expect(
+      discoverSitemapUrls("https://example.com/sitemap.xml", fetchText)
+    ).resolves.toEqual({
+      sitemaps: [
+        "https://example.com/sitemap.xml",
+        "https://example.com/pages.xml",
+        "https://example.com/posts.xml",
+      ],
+      urls: [
+        "https://example.com/",
+        "https://example.com/about",
+        "https://example.com/blog/hello",
+      ],
+      truncated: false,
+    });
+  });
+
+  it("skips nested sitemaps that fail to load", async () => {
+    const { fetchText } = serve({
+      "https://example.com/sitemap.xml": sitemapIndex([
+        "https://example.com/missing.xml",
+        "https://example.com/pages.xml",
+      ]),
+      "https://example.com/pages.xml": urlset(["https://example.com/"]),
+    });
+
+    const discovery = await discoverSitemapUrls(
+      "https://example.com/sitemap.xml",
+      fetchText
+    );
+    expect(discovery.urls).toEqual(["https://example.com/"]);
+  });
+
+  it("fails when the root sitemap doesn't load", async () => {
+    const { fetchText } = serve({});
+    await expect(
+      discoverSitemapUrls("https://example.com/sitemap.xml", fetchText)
+    ).rejects.toThrow("404");
+  });
+
+  it("only follows http(s) sitemaps", async () => {
+    const { fetchText, requested } = serve({
+      "https://example.com/sitemap.xml": sitemapIndex([
+        "file:///etc/passwd",
+        "ftp://example.com/a.xml",
+      ]),
+    });
+
+    await discoverSitemapUrls("https://example.com/sitemap.xml", fetchText);
+    expect(requested).toEqual(["https://example.com/sitemap.xml"]);
+  });
+
+  it(`stops after ${MAX_SITEMAP_FILES} sitemap files`, async () => {
+    const nested = Array.from(
+      { length: MAX_SITEMAP_FILES + 10 },
+      (_, i) => `https://example.com/part-${i}.xml`
+    );
+    const files: Record<string, string> = {
+      "https://example.com/sitemap.xml": sitemapIndex(nested),
+    };
+    for (const [i, url] of nested.entries()) {
+      files[url] = urlset([`https://example.com/page-${i}`]);
+    }
+    const { fetchText, requested } = serve(files);
+
+    const discovery = await discoverSitemapUrls(
+      "https://example.com/sitemap.xml",
+      fetchText
+    );
+    expect(requested).toHaveLength(MAX_SITEMAP_FILES);
+    expect(discovery.sitemaps).toHaveLength(MAX_SITEMAP_FILES);
+    expect(discovery.truncated).toBe(true);
+  });
+
+  it(`keeps at most ${MAX_SITEMAP_URLS} pages`, async () => {
+    const pages = Array.from(
+      { length: MAX_SITEMAP_URLS + 1 },
+      (_, i) => `https://example.com/page-${i}`
+    );
+    const { fetchText } = serve({
+      "https://example.com/sitemap.xml": urlset(pages),
+    });
+
+    const discovery = await discoverSitemapUrls(
+      "https://example.com/sitemap.xml",
+      fetchText
+    );
+    expect(discovery.urls).toHaveLength(MAX_SITEMAP_URLS);
+    expect(discovery.urls.at(-1)).toBe(pages[MAX_SITEMAP_URLS - 1]);
+    expect(discovery.truncated).toBe(true);
+  });
+
+  it("isn't truncated when the pages fit exactly", async () => {
+    const pages = Array.from(
+      { length: MAX_SITEMAP_URLS },
+      (_, i) => `https://example.com/page-${i}`
+    );
+    const { fetchText } = serve({
+      "https://example.com/sitemap.xml": urlset(pages),
+    });
+
+    const discovery = await discoverSitemapUrls(
+      "https://example.com/sitemap.xml",
+      fetchText
+    );
+    expect(discovery.urls).toHaveLength(MAX_SITEMAP_URLS);
+    expect(discovery.truncated).toBe(false);
+  });
+});
+
+describe("globToRegExp", () => {
+  it("matches * within one path segment", () => {
+    const regex = globToRegExp("/blog/*");
+    expect(regex.test("/blog/hello")).toBe(true);
+    expect(regex.test("/blog/2025/hello")).toBe(false);
+  });
+
+  it("matches ** across segments", () => {
+    const regex = globToRegExp("/blog/**");
+    expect(regex.test("/blog/hello")).toBe(true);
+    expect(regex.test("/blog/2025/hello")).toBe(true);
+    expect(regex.test("/about")).toBe(false);
+  });
+
+  it("matches ? as one character", () => {
+    const regex = globToRegExp("/page-?");
+    expect(regex.test("/page-1")).toBe(true);
+    expect(regex.test("/page-12")).toBe(false);
+  });
+
+  it("adds a leading slash and ignores case", () => {
+    expect(globToRegExp("Blog/*").test("/blog/hello")).toBe(true);
+  });
+
+  it("treats regex characters literally", () => {
+    const regex = globToRegExp("/a.b+(c)");
+    expect(regex.test("/a.b+(c)")).toBe(true);
+    expect(regex.test("/axbb(c)")).toBe(false);
+  });
+});
+
+describe("parsePatterns", () => {
+  it("splits on commas and newlines and drops blanks", () => {
+    expect(parsePatterns("/blog/**, /tag/*\n\n /docs ")).toEqual([
+      "/blog/**",
+      "/tag/*",
+      "/docs",
+    ]);
+  });
+});
+
+describe("filterUrls", () => {
+  const urls = [
+    "https://example.com/",
+    "https://example.com/blog/hello",
+    "https://example.com/blog/tag/news",
+    "https://example.com/about",
+    "not a url",
+  ];
+
+  it("keeps every valid URL without patterns", () => {
+    expect(filterUrls(urls, [], [])).toEqual(urls.slice(0, 4));
+  });
+
+  it("keeps URLs matching any include pattern", () => {
+    expect(filterUrls(urls, ["/blog/**", "/about"], [])).toEqual([
+      "https://example.com/blog/hello",
+      "https://example.com/blog/tag/news",
+      "https://example.com/about",
+    ]);
+  });
+
+  it("drops URLs matching an exclude pattern, even when included", () => {
+    expect(filterUrls(urls, ["/blog/**"], ["/blog/tag/**"])).toEqual([
+      "https://example.com/blog/hello",
+    ]);
+  });
+
+  it("matches the path only, not the query string", () => {
+    expect(
+      filterUrls(["https://example.com/about?ref=x"], ["/about"], [])
+    ).toEqual(["https://example.com/about?ref=x"]);
+  });
+});
@@ -0,0 +1,198 @@
+import { normalizeUrl } from "@/lib/url";
+
+// Top-level regex for better performance
+const SITEMAP_INDEX_REGEX = /<(?:[\w-]+:)?sitemapindex\b/i;
+const SITEMAP_ROOT_REGEX = /<(?:[\w-]+:)?(?:urlset|sitemapindex)\b/i;
+const SITEMAP_ENTRY_REGEX =
+  /<((?:[\w-]+:)?(?:url|sitemap))\b[^>]*>([\s\S]*?)<\/\1>/gi;
+const LOC_REGEX =
+  /<(?:[\w-]+:)?loc>\s*(?:<!\[CDATA\[)?\s*([^<]*?)\s*(?:\]\]>)?\s*<\/(?:[\w-]+:)?loc>/i;
+const XML_ENTITY_REGEX = /&(lt|gt|quot|apos|amp);/g;
+const PATTERN_SEPARATOR_REGEX = /[\n,]/;
+const REGEX_SPECIAL_CHARS_REGEX = /[.+^${}()|[\]\\]/g;
+const XML_PATH_REGEX = /\.xml(\.gz)?$/i;
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  amp: "&",
+};
+
+// Stop crawling runaway sitemap indexes
+export const MAX_SITEMAP_FILES = 50;
+export const MAX_SITEMAP_URLS = 5000;
+
+export interface ParsedSitemap {
+  // "sitemapindex" files list further sitemaps; "urlset" files list pages
+  kind: "urlset" | "sitemapindex";
+  locs: string[];
+}
+
+export interface SitemapDiscovery {
+  sitemaps: string[];
+  urls: string[];
+  truncated: boolean;
+}
+
+// True for a urlset or sitemap index document, so other responses (HTML
+// error pages, images) are refused rather than parsed
+export function isSitemapXml(xml: string): boolean {
+  return SITEMAP_ROOT_REGEX.test(xml);
+}
+
+function isHttpUrl(urlString: string): boolean {
+  try {
+    const { protocol } = new URL(urlString);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(
+    XML_ENTITY_REGEX,
+    (_, name: string) => XML_ENTITIES[name]
+  );
+}
+
+// Parse a sitemap or sitemap index without a DOM, so the same code runs in
+// the browser and in the Worker
+export function parseSitemap(xml: string): ParsedSitemap {
+  const kind = SITEMAP_INDEX_REGEX.test(xml) ? "sitemapindex" : "urlset";
+  const locs: string[] = [];
+
+  for (const [, , entry] of xml.matchAll(SITEMAP_ENTRY_REGEX)) {
+    const loc = LOC_REGEX.exec(entry)?.[1];
+    if (loc) {
+      locs.push(decodeXmlEntities(loc));
+    }
+  }
+
+  return { kind, locs };
+}
+
+// Point at the site's /sitemap.xml unless the URL already names a sitemap
+export function resolveSitemapUrl(urlString: string): string {
+  const url = new URL(normalizeUrl(urlString.trim()));
+  if (XML_PATH_REGEX.test(url.pathname)) {
+    return url.toString();
+  }
+  return new URL("/sitemap.xml", url.origin).toString();
+}
+
+// Nested sitemaps that fail to load are skipped; the root sitemap must load
+async function loadSitemap(
+  url: string,
+  isRoot: boolean,
+  fetchText: (url: string) => Promise<string>
+): Promise<ParsedSitemap | null> {
+  try {
+    return parseSitemap(await fetchText(url));
+  } catch (error) {
+    if (isRoot) {
+      throw error;
+    }
+    return null;
+  }
+}
+
+// Walk a sitemap and any nested sitemap indexes breadth-first. Only http(s)
+// sitemaps are followed.
+export async function discoverSitemapUrls(
+  sitemapUrl: string,
+  fetchText: (url: string) => Promise<string>
+): Promise<SitemapDiscovery> {
+  const queue = [sitemapUrl];
+  const visited = new Set<string>();
+  const urls = new Set<string>();
+  let truncated = false;
+
+  for (const current of queue) {
+    if (visited.has(current)) {
+      continue;
+    }
+    if (visited.size >= MAX_SITEMAP_FILES) {
+      truncated = true;
+      break;
+    }
+    visited.add(current);
+
+    const sitemap = await loadSitemap(
+      current,
+      current === sitemapUrl,
+      fetchText
+    );
+    if (sitemap?.kind === "sitemapindex") {
+      // Appending while iterating is fine: for...of picks up new entries
+      queue.push(...sitemap.locs.filter(isHttpUrl));
+    } else if (sitemap) {
+      const room = MAX_SITEMAP_URLS - urls.size;
+      truncated ||= sitemap.locs.length > room;
+      for (const loc of sitemap.locs.slice(0, Math.max(room, 0))) {
+        urls.add(loc);
+      }
+    }
+  }
+
+  return {
+    sitemaps: Array.from(visited),
+    urls: Array.from(urls),
+    truncated,
+  };
+}
+
+// Split a comma- or newline-separated list of glob patterns
+export function parsePatterns(input: string): string[] {
+  return input
+    .split(PATTERN_SEPARATOR_REGEX)
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+}
+
+// Convert a path glob to a RegExp: `*` matches within one path segment,
+// `**` matches across segments and `?` matches a single character
+export function globToRegExp(pattern: string): RegExp {
+  const path = pattern.startsWith("/") ? pattern : `/${pattern}`;
+  let source = "";
+  for (let i = 0; i < path.length; i++) {
+    const char = path[i];
+    if (char === "*" && path[i + 1] === "*") {
+      source += ".*";
+      i += 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(REGEX_SPECIAL_CHARS_REGEX, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+// Keep URLs whose path matches any include pattern (or all URLs when there
+// are none) and no exclude pattern
+export function filterUrls(
+  urls: string[],
+  include: string[],
+  exclude: string[]
+): string[] {
+  const includeRegexes = include.map(globToRegExp);
+  const excludeRegexes = exclude.map(globToRegExp);
+
+  return urls.filter((urlString) => {
+    let pathname: string;
+    try {
+      pathname = new URL(urlString).pathname;
+    } catch {
+      return false;
+    }
+    const included =
+      includeRegexes.length === 0 ||
+      includeRegexes.some((regex) => regex.test(pathname));
+    return included && !excludeRegexes.some((regex) => regex.test(pathname));
+  });
+}
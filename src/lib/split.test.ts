@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  planSections,
+  type RgbaImage,
+  type RowReader,
+  type SplitSettings,
+  splitPixels,
+  splitRows,
+} from "@/lib/split";
+
+// A page of noisy content with a white gap every `gapEvery` rows
+function page(width: number, height: number, gapEvery: number): RgbaImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const gap = y % gapEvery === gapEvery - 1;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data.set(
+        gap ? [255, 255, 255, 255] : [(x * 40 + y) % 256, y % 256, 0, 255],
+        i
+      );
+    }
+  }
+  return { data, width, height };
+}
+
+// Serve an in-memory image a band at a time, recording the band sizes
+function rowReader(image: RgbaImage) {
+  const reads: number[] = [];
+  let next = 0;
+  const reader: RowReader = {
+    width: image.width,
+    height: image.height,
+    read: (rows) => {
+      rows.set(image.data.subarray(next, next + rows.length));
+      next += rows.length;
+      reads.push(rows.length / (image.width * 4));
+      return Promise.resolve();
+    },
+  };
+  return { reader, reads };
+}
+
+const keep = (section: { offsetY: number; height: number; image: RgbaImage }) =>
+  Promise.resolve({
+    offsetY: section.offsetY,
+    height: section.height,
+    data: Array.from(section.image.data),
+  });
+
+describe("planSections", () => {
+  it("cuts at the section height, sharing the overlap", () => {
+    expect(
+      planSections(250, {
+        sectionHeight: 100,
+        overlap: 10,
+        splitAtWhitespace: false,
+      })
+    ).toEqual([
+      { offsetY: 0, height: 100 },
+      { offsetY: 90, height: 100 },
+      { offsetY: 180, height: 70 },
+    ]);
+  });
+
+  it("moves cuts up to whitespace within reach", () => {
+    expect(
+      planSections(
+        250,
+        { sectionHeight: 100, overlap: 0, splitAtWhitespace: true },
+        (minY) => minY + 5
+      )
+    ).toEqual([
+      { offsetY: 0, height: 80 },
+      { offsetY: 80, height: 80 },
+      { offsetY: 160, height: 90 },
+    ]);
+  });
+});
+
+describe("splitRows", () => {
+  const settings: SplitSettings[] = [
+    { sectionHeight: 40, overlap: 0, splitAtWhitespace: false },
+    { sectionHeight: 40, overlap: 6, splitAtWhitespace: false },
+    { sectionHeight: 40, overlap: 0, splitAtWhitespace: true },
+    { sectionHeight: 40, overlap: 6, splitAtWhitespace: true },
+    { sectionHeight: 500, overlap: 0, splitAtWhitespace: true },
+  ];
+
+  for (const setting of settings) {
+    it(`matches splitPixels with ${JSON.stringify(setting)}`, async () => {
+      const image = page(5, 173, 17);
+      const { reader } = rowReader(image);
+      expect(await splitRows(reader, setting, keep)).toEqual(
+        await splitPixels(image, setting, keep)
+      );
+    });
+  }
+
+  it("reads at most a section and one row at a time", async () => {
+    const { reader, reads } = rowReader(page(5, 173, 17));
+    await splitRows(
+      reader,
+      { sectionHeight: 40, overlap: 0, splitAtWhitespace: true },
+      keep
+    );
+    expect(Math.max(...reads)).toBeLessThanOrEqual(41);
+    expect(reads.reduce((sum, rows) => sum + rows, 0)).toBe(173);
+  });
+});
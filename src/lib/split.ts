@@ -0,0 +1,281 @@
+import {
+  DEFAULT_SCREENSHOT_OPTIONS,
+  isLossyFormat,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+
+// Figma's texture limit, and the original fixed section height
+export const DEFAULT_SECTION_HEIGHT = 4096;
+export const MIN_SECTION_HEIGHT = 256;
+// Browsers refuse to allocate canvases much taller than this
+export const MAX_SECTION_HEIGHT = 16_384;
+
+// How far above the target cut line to look for whitespace, as a fraction of
+// the section height
+const WHITESPACE_SEARCH_RATIO = 0.25;
+// Per-channel difference still counted as "the same colour"
+const WHITESPACE_TOLERANCE = 12;
+// Share of a row's pixels that must match for it to count as whitespace
+const WHITESPACE_MIN_MATCH = 0.98;
+
+export interface SplitSettings {
+  sectionHeight: number;
+  overlap: number;
+  splitAtWhitespace: boolean;
+}
+
+// Canvas encoder arguments for the sections of a capture
+export interface SectionEncoding {
+  type: string;
+  quality?: number;
+}
+
+export interface SectionBounds {
+  offsetY: number;
+  height: number;
+}
+
+// Finds a cut line between minY and maxY (inclusive), or null to cut at maxY
+export type FindCut = (minY: number, maxY: number) => number | null;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+// Read the split settings out of the form's string fields, falling back to
+// the defaults for anything blank or out of range
+export function getSplitSettings(options: ScreenshotOptions): SplitSettings {
+  const height = Number.parseInt(options.sectionHeight, 10);
+  const sectionHeight = Number.isNaN(height)
+    ? DEFAULT_SECTION_HEIGHT
+    : clamp(height, MIN_SECTION_HEIGHT, MAX_SECTION_HEIGHT);
+  const overlap = Number.parseInt(options.sectionOverlap, 10);
+
+  return {
+    sectionHeight,
+    // Keep at least half of every section new so splitting always progresses
+    overlap: Number.isNaN(overlap)
+      ? 0
+      : clamp(overlap, 0, Math.floor(sectionHeight / 2)),
+    splitAtWhitespace: options.splitAtWhitespace,
+  };
+}
+
+// Encode sections in the captured format; quality only applies to JPEG/WebP
+export function getSectionEncoding(
+  options: ScreenshotOptions
+): SectionEncoding {
+  const type = `image/${options.format}`;
+  if (!isLossyFormat(options.format)) {
+    return { type };
+  }
+  const quality = Number.parseInt(options.imageQuality, 10);
+  const percent = Number.isNaN(quality)
+    ? Number.parseInt(DEFAULT_SCREENSHOT_OPTIONS.imageQuality, 10)
+    : clamp(quality, 1, 100);
+  return { type, quality: percent / 100 };
+}
+
+// Where the section starting at `offsetY` ends (exclusive). With whitespace
+// splitting the cut moves up to the nearest row `findCut` reports as uniform.
+function findSectionEnd(
+  offsetY: number,
+  totalHeight: number,
+  settings: SplitSettings,
+  findCut?: FindCut
+): number {
+  const { sectionHeight, overlap, splitAtWhitespace } = settings;
+  const maxEnd = offsetY + sectionHeight;
+  if (maxEnd >= totalHeight) {
+    return totalHeight;
+  }
+  if (!(splitAtWhitespace && findCut)) {
+    return maxEnd;
+  }
+  // Never cut so high that the next section would start at or before this
+  // one
+  const searchDistance = Math.floor(sectionHeight * WHITESPACE_SEARCH_RATIO);
+  const minEnd = Math.max(offsetY + overlap + 1, maxEnd - searchDistance);
+  return findCut(minEnd, maxEnd) ?? maxEnd;
+}
+
+// Work out where each section starts and how tall it is. Consecutive
+// sections share `overlap` pixels, and with whitespace splitting each cut
+// moves up to the nearest row `findCut` reports as uniform.
+export function planSections(
+  totalHeight: number,
+  settings: SplitSettings,
+  findCut?: FindCut
+): SectionBounds[] {
+  const sections: SectionBounds[] = [];
+  let offsetY = 0;
+
+  while (offsetY < totalHeight) {
+    const end = findSectionEnd(offsetY, totalHeight, settings, findCut);
+    sections.push({ offsetY, height: end - offsetY });
+    if (end === totalHeight) {
+      break;
+    }
+    offsetY = end - settings.overlap;
+  }
+
+  return sections;
+}
+
+// Whether most pixels of one RGBA row match its first pixel
+export function isUniformRow(
+  pixels: Uint8ClampedArray,
+  width: number,
+  row: number
+): boolean {
+  const start = row * width * 4;
+  const allowedMisses = Math.floor(width * (1 - WHITESPACE_MIN_MATCH));
+  let misses = 0;
+
+  for (let x = 0; x < width; x++) {
+    const i = start + x * 4;
+    const matches =
+      Math.abs(pixels[i] - pixels[start]) <= WHITESPACE_TOLERANCE &&
+      Math.abs(pixels[i + 1] - pixels[start + 1]) <= WHITESPACE_TOLERANCE &&
+      Math.abs(pixels[i + 2] - pixels[start + 2]) <= WHITESPACE_TOLERANCE &&
+      Math.abs(pixels[i + 3] - pixels[start + 3]) <= WHITESPACE_TOLERANCE;
+    if (!matches) {
+      misses += 1;
+      if (misses > allowedMisses) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+// Scan a block of RGBA rows from the bottom up and return the lowest
+// uniform row, or null when every row has content
+export function findUniformRow(
+  pixels: Uint8ClampedArray,
+  width: number
+): number | null {
+  const rows = Math.floor(pixels.length / (width * 4));
+  for (let row = rows - 1; row >= 0; row--) {
+    if (isUniformRow(pixels, width, row)) {
+      return row;
+    }
+  }
+  return null;
+}
+
+// Decoded RGBA pixels, laid out like a canvas ImageData
+export interface RgbaImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface PixelSection extends SectionBounds {
+  index: number;
+  image: RgbaImage;
+}
+
+// Split decoded pixels without a canvas (in the Worker and the CLI), with
+// the same plan as the browser's splitter. Each section is handed to
+// `onSection` before the next is cut, so it can be encoded and saved.
+export async function splitPixels<T>(
+  image: RgbaImage,
+  settings: SplitSettings,
+  onSection: (section: PixelSection) => Promise<T>
+): Promise<T[]> {
+  const { data, width } = image;
+  const rowBytes = width * 4;
+  const bounds = planSections(image.height, settings, (minY, maxY) => {
+    const band = data.subarray(minY * rowBytes, (maxY + 1) * rowBytes);
+    const row = findUniformRow(band, width);
+    return row === null ? null : minY + row;
+  });
+
+  const results: T[] = [];
+  for (const [i, { offsetY, height }] of bounds.entries()) {
+    // Copied rather than a view, since encoders read the whole buffer
+    const pixels = data.slice(
+      offsetY * rowBytes,
+      (offsetY + height) * rowBytes
+    );
+    results.push(
+      await onSection({
+        index: i + 1,
+        offsetY,
+        height,
+        image: { data: pixels, width, height },
+      })
+    );
+  }
+  return results;
+}
+
+// Decoded rows handed out a band at a time, for images too large to decode
+// at once. `read` fills `rows` (a whole number of RGBA rows) with the next
+// rows of the image.
+export interface RowReader {
+  width: number;
+  height: number;
+  read: (rows: Uint8ClampedArray) => Promise<void>;
+}
+
+// Split like splitPixels, with the same plan, while holding no more than one
+// section's rows (and the row below it) at a time
+export async function splitRows<T>(
+  reader: RowReader,
+  settings: SplitSettings,
+  onSection: (section: PixelSection) => Promise<T>
+): Promise<T[]> {
+  const { width, height } = reader;
+  const rowBytes = width * 4;
+  // Rows from `bandY` down, read but not yet part of a finished section
+  let band = new Uint8ClampedArray(0);
+  let bandY = 0;
+  const findCut: FindCut = (minY, maxY) => {
+    const rows = band.subarray(
+      (minY - bandY) * rowBytes,
+      (maxY + 1 - bandY) * rowBytes
+    );
+    const row = findUniformRow(rows, width);
+    return row === null ? null : minY + row;
+  };
+
+  const results: T[] = [];
+  let offsetY = 0;
+  while (offsetY < height) {
+    // Read down to the lowest row a cut could land on
+    const bandEnd = Math.min(offsetY + settings.sectionHeight + 1, height);
+    const grown = new Uint8ClampedArray((bandEnd - bandY) * rowBytes);
+    grown.set(band);
+    await reader.read(grown.subarray(band.length));
+    band = grown;
+
+    const end = findSectionEnd(offsetY, height, settings, findCut);
+    const sectionHeight = end - offsetY;
+    results.push(
+      await onSection({
+        index: results.length + 1,
+        offsetY,
+        height: sectionHeight,
+        image: {
+          data: band.slice(
+            (offsetY - bandY) * rowBytes,
+            (end - bandY) * rowBytes
+          ),
+          width,
+          height: sectionHeight,
+        },
+      })
+    );
+    if (end === height) {
+      break;
+    }
+    // Keep the overlap and any rows read past the cut for the next section
+    offsetY = end - settings.overlap;
+    band = band.slice((offsetY - bandY) * rowBytes);
+    bandY = offsetY;
+  }
+  return results;
+}
@@ -0,0 +1,100 @@
+import {
+  type FindCut,
+  findUniformRow,
+  planSections,
+  type SectionEncoding,
+  type SplitSettings,
+} from "@/lib/split";
+
+// Decodes, splits and encodes a capture off the main thread so huge
+// full-page shots don't freeze the UI
+
+export interface SplitRequest {
+  blob: Blob;
+  settings: SplitSettings;
+  encoding: SectionEncoding;
+}
+
+export interface SplitSectionResult {
+  blob: Blob;
+  index: number;
+  offsetY: number;
+  width: number;
+  height: number;
+}
+
+export type SplitMessage =
+  | { type: "progress"; completed: number; total: number }
+  | { type: "done"; sections: SplitSectionResult[] }
+  | { type: "error"; message: string };
+
+function createCutFinder(
+  bitmap: ImageBitmap,
+  ctx: OffscreenCanvasRenderingContext2D
+): FindCut {
+  return (minY, maxY) => {
+    const bandHeight = maxY - minY + 1;
+    ctx.canvas.width = bitmap.width;
+    ctx.canvas.height = bandHeight;
+    ctx.drawImage(bitmap, 0, -minY);
+    const { data } = ctx.getImageData(0, 0, bitmap.width, bandHeight);
+    const row = findUniformRow(data, bitmap.width);
+    return row === null ? null : minY + row;
+  };
+}
+
+async function splitBlob(
+  { blob, settings, encoding }: SplitRequest,
+  post: (message: SplitMessage) => void
+): Promise<SplitSectionResult[]> {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, 1);
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error("Failed to process the screenshot image");
+    }
+
+    const bounds = planSections(
+      bitmap.height,
+      settings,
+      createCutFinder(bitmap, ctx)
+    );
+    post({ type: "progress", completed: 0, total: bounds.length });
+
+    const sections: SplitSectionResult[] = [];
+    for (const [i, { offsetY, height }] of bounds.entries()) {
+      canvas.width = bitmap.width;
+      canvas.height = height;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(bitmap, 0, -offsetY);
+
+      sections.push({
+        blob: await canvas.convertToBlob(encoding),
+        index: i + 1,
+        offsetY,
+        width: bitmap.width,
+        height,
+      });
+      post({ type: "progress", completed: i + 1, total: bounds.length });
+    }
+    return sections;
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.onmessage = async (event: MessageEvent<SplitRequest>) => {
+  const post = (message: SplitMessage) => self.postMessage(message);
+  try {
+    post({ type: "done", sections: await splitBlob(event.data, post) });
+  } catch (error) {
+    post({
+      type: "error",
+      message:
+        error instanceof Error
+          ? error.message
+          : "Failed to process the screenshot image",
+    });
+  }
+};
@@ -0,0 +1,27 @@
+// Top-level regex for better performance
+const WWW_REGEX = /^www\./;
+
+// Prepend https:// when the user omitted the protocol
+export function normalizeUrl(urlString: string): string {
+  return urlString.startsWith("http") ? urlString : `https://${urlString}`;
+}
+
+// Validate URL format
+export function isValidUrl(urlString: string): boolean {
+  try {
+    const urlObj = new URL(normalizeUrl(urlString));
+    return urlObj.protocol === "http:" || urlObj.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// Extract root domain from URL for file naming
+export function extractRootDomain(urlString: string): string {
+  try {
+    const urlObj = new URL(normalizeUrl(urlString));
+    return urlObj.hostname.replace(WWW_REGEX, "");
+  } catch {
+    return "website";
+  }
+}
@@ -0,0 +1,81 @@
+import { strToU8, type Zippable, zipSync } from "fflate";
+import type { CaptureInfo, ScreenshotSection } from "@/lib/capture";
+import { buildSectionFilename, getDeviceSlug } from "@/lib/filenames";
+
+export interface ZipCapture {
+  info: CaptureInfo;
+  sections: ScreenshotSection[];
+}
+
+interface ManifestSection {
+  index: number;
+  filename: string;
+  offsetY: number;
+  width: number | null;
+  height: number | null;
+}
+
+interface ManifestEntry extends CaptureInfo {
+  sections: ManifestSection[];
+}
+
+interface ZipOptions {
+  includeManifest: boolean;
+  // Add the page path to filenames so batch captures of one site don't clash
+  includePath?: boolean;
+  // Add the device so device matrix captures of one page don't clash
+  includeDevice?: boolean;
+}
+
+// Images are already compressed, so they are stored rather than deflated
+const STORE = { level: 0 } as const;
+
+async function readSection(section: ScreenshotSection): Promise<Uint8Array> {
+  return new Uint8Array(await section.blob.arrayBuffer());
+}
+
+// Package every section of one or more captures into a single ZIP, with an
+// optional manifest.json describing where each section sits on the page
+export async function buildSectionsZip(
+  captures: ZipCapture[],
+  { includeManifest, includePath = false, includeDevice = false }: ZipOptions
+): Promise<Blob> {
+  const files: Zippable = {};
+  const manifest: ManifestEntry[] = [];
+
+  for (const { info, sections } of captures) {
+    const entries: ManifestSection[] = [];
+    for (const section of sections) {
+      const filename = buildSectionFilename(
+        info.url,
+        info.options.format,
+        section.index,
+        {
+          includePath,
+          device: includeDevice ? getDeviceSlug(info.options) : undefined,
+        }
+      );
+      files[filename] = [await readSection(section), STORE];
+      entries.push({
+        index: section.index,
+        filename,
+        offsetY: section.offsetY,
+        width: section.width ?? null,
+        height: section.height ?? null,
+      });
+    }
+    manifest.push({
+      url: info.url,
+      capturedAt: info.capturedAt,
+      options: info.options,
+      sections: entries,
+    });
+  }
+
+  if (includeManifest) {
+    const content = captures.length === 1 ? manifest[0] : manifest;
+    files["manifest.json"] = strToU8(JSON.stringify(content, null, 2));
+  }
+
+  return new Blob([zipSync(files)], { type: "application/zip" });
+}
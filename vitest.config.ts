@@ -0,0 +1,43 @@
+import { createRequire } from "node:module";
+import { fileURLToPath } from "node:url";
+import type { Plugin } from "vite";
+import { defineConfig } from "vitest/config";
+
+const WASM_MODULE_SUFFIX = ".wasm?module";
+
+const { resolve } = createRequire(import.meta.url);
+
+// The Worker imports its codecs' .wasm files as compiled modules, which the
+// Cloudflare plugin provides in builds. Tests compile them from
+// node_modules, as the CLI does.
+function wasmModules(): Plugin {
+  return {
+    name: "wasm-modules",
+    enforce: "pre",
+    resolveId(id) {
+      return id.endsWith(WASM_MODULE_SUFFIX) ? `\0${id}` : null;
+    },
+    load(id) {
+      if (!(id.startsWith("\0") && id.endsWith(WASM_MODULE_SUFFIX))) {
+        return null;
+      }
+      const path = resolve(id.slice(1, -"?module".length));
+      return `import { readFileSync } from "node:fs";
+export default new WebAssembly.Module(readFileSync(${JSON.stringify(path)}));`;
+    },
+  };
+}
+
+// Unit tests for the modules shared by the app, Worker and CLI. Kept apart
+// from vite.config.ts so the Cloudflare plugin isn't loaded for them.
+export default defineConfig({
+  plugins: [wasmModules()],
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["{src,worker,cli,figma}/**/*.test.ts"],
+  },
+});
@@ -0,0 +1,265 @@
+import { Miniflare } from "miniflare";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  API_CAPTURES_PREFIX,
+  type ApiCapture,
+  apiCaptureKey,
+  CaptureRequestError,
+  validateCaptureRequest,
+} from "@/lib/capture-api";
+import { DEFAULT_SCREENSHOT_OPTIONS } from "@/lib/screenshot-options";
+import { handleCaptureApi } from "./capture-api";
+import { decodeImage, encodeImage } from "./codec";
+
+const ORIGIN = "https://shots.example.com";
+const TOKEN = "test-token";
+const PAGE_WIDTH = 200;
+const PAGE_HEIGHT = 2500;
+// Claimed by the "huge" page: wider than the Worker can split 1000px
+// sections of
+const HUGE_WIDTH = 20_000;
+
+// Captures are stored in Miniflare's R2 bucket
+let mf: Miniflare;
+let env: Env;
+let pagePng: ArrayBuffer;
+
+// Stands in for ScreenshotOne: pages with "huge" in the URL claim to be
+// HUGE_WIDTH pixels wide, and anything else is a tall white PNG
+function takeScreenshot(apiUrl: URL): Response {
+  const page = apiUrl.searchParams.get("url") ?? "";
+  const png = pagePng.slice(0);
+  if (page.includes("huge")) {
+    new DataView(png).setUint32(16, HUGE_WIDTH);
+  }
+  return new Response(png, { headers: { "Content-Type": "image/png" } });
+}
+
+function capture(
+  body: unknown,
+  { token = TOKEN, bucket = env.CAPTURES } = {} as {
+    token?: string | null;
+    bucket?: R2Bucket;
+  }
+): Promise<Response> {
+  const headers = new Headers({ "Content-Type": "application/json" });
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+  return Promise.resolve(
+    handleCaptureApi(
+      new Request(`${ORIGIN}/api/capture`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+      }),
+      { ...env, CAPTURES: bucket }
+    )
+  );
+}
+
+async function listStoredKeys(): Promise<string[]> {
+  const { objects } = await env.CAPTURES.list({ prefix: API_CAPTURES_PREFIX });
+  return objects.map(({ key }) => key);
+}
+
+beforeAll(async () => {
+  const white = new Uint8ClampedArray(PAGE_WIDTH * PAGE_HEIGHT * 4).fill(255);
+  pagePng = await encodeImage(
+    { data: white, width: PAGE_WIDTH, height: PAGE_HEIGHT },
+    "png"
+  );
+
+  mf = new Miniflare({
+    modules: true,
+    script: "export default { fetch: () => new Response(null) };",
+    r2Buckets: ["CAPTURES"],
+  });
+  env = {
+    SCREENSHOTONE_ACCESS_KEY: "server-key",
+    SCREENSHOTONE_SECRET_KEY: "",
+    APIFLASH_ACCESS_KEY: "",
+    API_TOKEN: TOKEN,
+    CAPTURES: await mf.getR2Bucket("CAPTURES"),
+  } as unknown as Env;
+
+  const realFetch = globalThis.fetch;
+  vi.stubGlobal("fetch", (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    return url.hostname === "api.screenshotone.com"
+      ? Promise.resolve(takeScreenshot(url))
+      : realFetch(input, init);
+  });
+});
+
+afterEach(async () => {
+  const keys = await listStoredKeys();
+  if (keys.length > 0) {
+    await env.CAPTURES.delete(keys);
+  }
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await mf.dispose();
+});
+
+describe("validateCaptureRequest", () => {
+  it("fills in the default options and provider", () => {
+    const request = validateCaptureRequest({
+      url: "example.com",
+      options: { format: "jpeg" },
+    });
+    expect(request.url).toBe("https://example.com");
+    expect(request.options).toEqual({
+      ...DEFAULT_SCREENSHOT_OPTIONS,
+      format: "jpeg",
+    });
+    expect(request.provider.id).toBe("screenshotone");
+    expect(request.signed).toBe(false);
+  });
+
+  it("refuses invalid URLs, unknown fields and providers", () => {
+    for (const body of [
+      { url: "not a url" },
+      { url: "example.com", colour: "red" },
+      { url: "example.com", provider: "elsewhere" },
+      { url: "example.com", options: { format: "bmp" } },
+    ]) {
+      expect(() => validateCaptureRequest(body)).toThrow(CaptureRequestError);
+    }
+  });
+
+  it("refuses options the provider can't capture", () => {
+    expect(() =>
+      validateCaptureRequest({
+        url: "example.com",
+        provider: "apiflash",
+        options: { selector: "#pricing" },
+      })
+    ).toThrow("single element");
+  });
+});
+
+describe("POST /api/capture", () => {
+  it("asks for the API token", async () => {
+    const missing = await capture({ url: "example.com" }, { token: null });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("WWW-Authenticate")).toBe("Bearer");
+
+    const off = await handleCaptureApi(
+      new Request(`${ORIGIN}/api/capture`, { method: "POST" }),
+      { ...env, API_TOKEN: "" }
+    );
+    expect(off.status).toBe(403);
+  });
+
+  it("refuses invalid requests", async () => {
+    const response = await capture({ url: "example.com", signed: "yes" });
+    expect(response.status).toBe(400);
+  });
+
+  it("splits the capture and stores its sections", async () => {
+    const response = await capture({
+      url: "example.com/pricing",
+      options: { sectionHeight: "1000" },
+    });
+    expect(response.status).toBe(201);
+    const result: ApiCapture = await response.json();
+    expect(response.headers.get("Location")).toBe(
+      `${ORIGIN}/api/capture/${result.id}`
+    );
+    expect([result.width, result.height]).toEqual([PAGE_WIDTH, PAGE_HEIGHT]);
+    expect(
+      result.sections.map(({ index, offsetY, height, url }) => ({
+        index,
+        offsetY,
+        height,
+        url,
+      }))
+    ).toEqual(
+      [1, 2, 3].map((index) => ({
+        index,
+        offsetY: (index - 1) * 1000,
+        height: index === 3 ? 500 : 1000,
+        url: `${ORIGIN}/api/capture/${result.id}/sections/${index}`,
+      }))
+    );
+
+    // Read from the bucket, as writeHttpMetadata can't cross Miniflare's
+    // proxy to Node
+    const manifest = await env.CAPTURES.get(apiCaptureKey(result.id));
+    expect(await manifest?.json()).toEqual(result);
+    const file = await env.CAPTURES.get(
+      `${API_CAPTURES_PREFIX}${result.id}/section-3`
+    );
+    expect(file?.httpMetadata?.contentType).toBe("image/png");
+    const section = await decodeImage(
+      await (file as R2ObjectBody).arrayBuffer(),
+      "png"
+    );
+    expect([section.width, section.height]).toEqual([PAGE_WIDTH, 500]);
+  });
+
+  it("refuses captures too large to split, storing nothing", async () => {
+    const response = await capture({
+      url: "example.com/huge",
+      options: { sectionHeight: "1000" },
+    });
+    expect(response.status).toBe(413);
+    const { error } = await response.json<{ error: string }>();
+    expect(error).toMatch(`${HUGE_WIDTH} pixels wide`);
+    expect(await listStoredKeys()).toEqual([]);
+  });
+
+  it("deletes the stored sections when one can't be saved", async () => {
+    // A bucket that fails on the second section, after storing the first
+    const stored: string[] = [];
+    const failing = new Proxy(env.CAPTURES, {
+      get(bucket, property) {
+        if (property === "put") {
+          return async (...args: Parameters<R2Bucket["put"]>) => {
+            const [key] = args;
+            if (key.endsWith("/section-2")) {
+              throw new Error("R2 is down");
+            }
+            stored.push(key);
+            return await bucket.put(...args);
+          };
+        }
+        const value = Reflect.get(bucket, property);
+        return typeof value === "function" ? value.bind(bucket) : value;
+      },
+    });
+    const response = await capture(
+      { url: "example.com", options: { sectionHeight: "1000" } },
+      { bucket: failing }
+    );
+    expect(response.status).toBe(502);
+    expect(stored).toHaveLength(1);
+    expect(await listStoredKeys()).toEqual([]);
+  });
+});
+
+describe("GET /api/capture", () => {
+  it("answers 404 for unknown captures and routes", async () => {
+    const unknown = await handleCaptureApi(
+      new Request(`${ORIGIN}/api/capture/no-such-id`),
+      env
+    );
+    expect(unknown.status).toBe(404);
+    const route = await handleCaptureApi(
+      new Request(`${ORIGIN}/api/capture/a/b/c`),
+      env
+    );
+    expect(route.status).toBe(404);
+  });
+});
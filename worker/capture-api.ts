@@ -0,0 +1,214 @@
+import {
+  type ApiCapture,
+  type ApiCaptureSection,
+  apiCaptureKey,
+  apiSectionKey,
+  CAPTURE_API_ROUTE,
+  type CaptureRequest,
+  CaptureRequestError,
+  getApiSectionFilename,
+  validateCaptureRequest,
+} from "@/lib/capture-api";
+import { explainFailedResponse } from "@/lib/providers";
+import { checkApiToken, jsonError, methodNotAllowed } from "./http";
+import { buildCaptureUrl, resolveCredentials } from "./screenshot";
+import { type SavedSections, type SaveSection, saveSections } from "./sections";
+
+// Top-level regex for better performance
+const CAPTURE_ROUTE_REGEX =
+  /^\/api\/capture(?:\/([\w-]+)(?:\/sections\/(\d+))?)?$/;
+
+async function parseCaptureRequest(
+  request: Request
+): Promise<CaptureRequest | Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError(400, "Request body must be valid JSON");
+  }
+  try {
+    return validateCaptureRequest(body);
+  } catch (error) {
+    if (error instanceof CaptureRequestError) {
+      return jsonError(400, error.message);
+    }
+    throw error;
+  }
+}
+
+// Fetch the capture from the provider, or an error response explaining why
+// it failed
+async function fetchCapture(
+  request: Request,
+  env: Env,
+  { url, options, provider, signed }: CaptureRequest
+): Promise<Response> {
+  const apiUrl = await buildCaptureUrl(
+    provider,
+    url,
+    options,
+    resolveCredentials(request, env, provider.id),
+    signed
+  );
+  if (apiUrl instanceof Response) {
+    return apiUrl;
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(apiUrl.toString(), { signal: request.signal });
+  } catch {
+    return jsonError(502, `Couldn't reach ${provider.name}`);
+  }
+  if (upstream.ok) {
+    return upstream;
+  }
+
+  const { message, code, hint, documentationUrl } = await explainFailedResponse(
+    provider,
+    upstream,
+    options
+  );
+  const headers = new Headers();
+  const retryAfter = upstream.headers.get("Retry-After");
+  if (retryAfter) {
+    headers.set("Retry-After", retryAfter);
+  }
+  // Rejected options and keys stay client errors; provider outages are
+  // reported as a bad gateway
+  return Response.json(
+    { error: message, code, hint, documentationUrl },
+    { status: upstream.status >= 500 ? 502 : upstream.status, headers }
+  );
+}
+
+async function createCapture(request: Request, env: Env): Promise<Response> {
+  const unauthorized = await checkApiToken(request, env);
+  if (unauthorized) {
+    return unauthorized;
+  }
+  const capture = await parseCaptureRequest(request);
+  if (capture instanceof Response) {
+    return capture;
+  }
+  const upstream = await fetchCapture(request, env, capture);
+  if (!upstream.ok) {
+    return upstream;
+  }
+
+  const { url, options, provider } = capture;
+  const id = crypto.randomUUID();
+  // Deleted again if the capture can't be stored whole
+  const written: string[] = [];
+  const save: SaveSection<ApiCaptureSection> = async (
+    file,
+    bounds,
+    contentType
+  ) => {
+    const filename = getApiSectionFilename(url, options.format, bounds.index);
+    const key = apiSectionKey(id, bounds.index);
+    await env.CAPTURES.put(key, file, {
+      httpMetadata: {
+        contentType,
+        contentDisposition: `inline; filename="${filename}"`,
+      },
+    });
+    written.push(key);
+    return {
+      ...bounds,
+      filename,
+      url: new URL(
+        `${CAPTURE_API_ROUTE}/${id}/sections/${bounds.index}`,
+        request.url
+      ).toString(),
+      size: file.byteLength,
+    };
+  };
+  let saved: SavedSections<ApiCaptureSection> | Response;
+  try {
+    saved = await saveSections(
+      await upstream.arrayBuffer(),
+      upstream.headers.get("Content-Type"),
+      options,
+      save
+    );
+  } catch {
+    if (written.length > 0) {
+      await env.CAPTURES.delete(written);
+    }
+    return jsonError(502, "Couldn't split and store the capture");
+  }
+  if (saved instanceof Response) {
+    return saved;
+  }
+  const { size, sections } = saved;
+
+  const result: ApiCapture = {
+    id,
+    url,
+    provider: provider.id,
+    format: options.format,
+    capturedAt: new Date().toISOString(),
+    width: size?.width ?? null,
+    height: size?.height ?? null,
+    options,
+    sections,
+  };
+  await env.CAPTURES.put(apiCaptureKey(id), JSON.stringify(result), {
+    httpMetadata: { contentType: "application/json" },
+  });
+  return Response.json(result, {
+    status: 201,
+    headers: {
+      Location: new URL(`${CAPTURE_API_ROUTE}/${id}`, request.url).toString(),
+    },
+  });
+}
+
+async function getStoredFile(
+  env: Env,
+  key: string,
+  notFound: string
+): Promise<Response> {
+  const object = await env.CAPTURES.get(key);
+  if (!object) {
+    return jsonError(404, notFound);
+  }
+  const headers = new Headers();
+  object.writeHttpMetadata(headers);
+  // Captures never change once stored
+  headers.set("Cache-Control", "private, max-age=31536000, immutable");
+  headers.set("ETag", object.httpEtag);
+  return new Response(object.body, { headers });
+}
+
+// POST /api/capture: capture a page and split it. GET /api/capture/:id:
+// the capture's sections. GET /api/capture/:id/sections/:n: one section.
+export function handleCaptureApi(
+  request: Request,
+  env: Env
+): Response | Promise<Response> {
+  const match = CAPTURE_ROUTE_REGEX.exec(new URL(request.url).pathname);
+  if (!match) {
+    return jsonError(404, "No such capture route");
+  }
+  const [, id, section] = match;
+
+  if (!id) {
+    return request.method === "POST"
+      ? createCapture(request, env)
+      : methodNotAllowed("POST");
+  }
+  if (request.method !== "GET") {
+    return methodNotAllowed("GET");
+  }
+  if (section) {
+    return getStoredFile(
+      env,
+      apiSectionKey(id, Number(section)),
+      "No such section"
+    );
+  }
+  return getStoredFile(env, apiCaptureKey(id), "No such capture");
+}
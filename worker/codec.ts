@@ -0,0 +1,119 @@
+import JPEG_DEC_WASM from "@jsquash/jpeg/codec/dec/mozjpeg_dec.wasm?module";
+import JPEG_ENC_WASM from "@jsquash/jpeg/codec/enc/mozjpeg_enc.wasm?module";
+import PNG_WASM from "@jsquash/png/codec/pkg/squoosh_png_bg.wasm?module";
+import WEBP_DEC_WASM from "@jsquash/webp/codec/dec/webp_dec.wasm?module";
+import WEBP_ENC_WASM from "@jsquash/webp/codec/enc/webp_enc_simd.wasm?module";
+import { type CodecWasm, createImageCodecs } from "@/lib/image-codecs";
+
+// The codecs' .wasm files, compiled at build time (see CODEC_WASM_PATHS)
+const WASM_MODULES: Record<CodecWasm, WebAssembly.Module> = {
+  png: PNG_WASM,
+  jpegDecode: JPEG_DEC_WASM,
+  jpegEncode: JPEG_ENC_WASM,
+  webpDecode: WEBP_DEC_WASM,
+  webpEncode: WEBP_ENC_WASM,
+};
+
+export const { decodeImage, encodeImage } = createImageCodecs(
+  (name) => WASM_MODULES[name]
+);
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+function matches(bytes: Uint8Array, offset: number, text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Start-of-frame markers carry the size; C4, C8 and CC are other segments
+function isStartOfFrame(marker: number): boolean {
+  return (
+    marker >= 0xc0 &&
+    marker <= 0xcf &&
+    marker !== 0xc4 &&
+    marker !== 0xc8 &&
+    marker !== 0xcc
+  );
+}
+
+function readJpegSize(view: DataView): ImageSize | null {
+  let offset = 2;
+  while (offset + 9 < view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) {
+      return null;
+    }
+    const marker = view.getUint8(offset + 1);
+    if (isStartOfFrame(marker)) {
+      return {
+        height: view.getUint16(offset + 5),
+        width: view.getUint16(offset + 7),
+      };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+// 14-bit fields in lossy and lossless headers, 24-bit ones in extended
+const FOURTEEN_BITS = 2 ** 14;
+
+function readUint24(view: DataView, offset: number): number {
+  return view.getUint16(offset, true) + view.getUint8(offset + 2) * 2 ** 16;
+}
+
+function readWebpSize(view: DataView, bytes: Uint8Array): ImageSize | null {
+  if (matches(bytes, 12, "VP8 ")) {
+    return {
+      width: view.getUint16(26, true) % FOURTEEN_BITS,
+      height: view.getUint16(28, true) % FOURTEEN_BITS,
+    };
+  }
+  if (matches(bytes, 12, "VP8L")) {
+    // Width and height minus one, packed after the 0x2f signature byte
+    const bits = view.getUint32(21, true);
+    return {
+      width: (bits % FOURTEEN_BITS) + 1,
+      height: (Math.floor(bits / FOURTEEN_BITS) % FOURTEEN_BITS) + 1,
+    };
+  }
+  if (matches(bytes, 12, "VP8X")) {
+    return {
+      width: readUint24(view, 24) + 1,
+      height: readUint24(view, 27) + 1,
+    };
+  }
+  return null;
+}
+
+// Read an image's dimensions from its header, so oversized captures can be
+// refused before decoding them. Null when the header isn't recognised.
+export function readImageSize(data: ArrayBuffer): ImageSize | null {
+  const bytes = new Uint8Array(data);
+  if (bytes.length < 30) {
+    return null;
+  }
+  const view = new DataView(data);
+  if (matches(bytes, 1, "PNG")) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return readJpegSize(view);
+  }
+  if (matches(bytes, 0, "RIFF") && matches(bytes, 8, "WEBP")) {
+    return readWebpSize(view, bytes);
+  }
+  if (matches(bytes, 0, "GIF")) {
+    return {
+      width: view.getUint16(6, true),
+      height: view.getUint16(8, true),
+    };
+  }
+  return null;
+}
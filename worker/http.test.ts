@@ -0,0 +1,143 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  checkServerKeyAccess,
+  corsPreflight,
+  isAllowedOrigin,
+  withCors,
+} from "./http";
+import { handleScreenshot } from "./screenshot";
+
+const ROUTE = "https://shots.example.com/api/screenshot";
+const TOKEN = "test-token";
+
+const ENV = {
+  SCREENSHOTONE_ACCESS_KEY: "server-key",
+  SCREENSHOTONE_SECRET_KEY: "",
+  APIFLASH_ACCESS_KEY: "",
+  API_TOKEN: TOKEN,
+} as unknown as Env;
+
+function requestFrom(
+  origin?: string,
+  headers: Record<string, string> = {}
+): Request {
+  return new Request(ROUTE, {
+    method: "POST",
+    headers: origin ? { ...headers, Origin: origin } : headers,
+    body: JSON.stringify({ url: "example.com" }),
+  });
+}
+
+describe("isAllowedOrigin", () => {
+  it("allows the Figma plugin's origins", () => {
+    expect(isAllowedOrigin(requestFrom("null"))).toBe(true);
+    expect(isAllowedOrigin(requestFrom("https://www.figma.com"))).toBe(true);
+  });
+
+  it("allows the app itself and callers outside a browser", () => {
+    expect(isAllowedOrigin(requestFrom("https://shots.example.com"))).toBe(
+      true
+    );
+    expect(isAllowedOrigin(requestFrom())).toBe(true);
+  });
+
+  it("refuses other sites", () => {
+    expect(isAllowedOrigin(requestFrom("https://evil.example"))).toBe(false);
+    expect(isAllowedOrigin(requestFrom("https://figma.com.evil.example"))).toBe(
+      false
+    );
+  });
+});
+
+describe("checkServerKeyAccess", () => {
+  it("lets the app's own pages use the server's keys", async () => {
+    expect(
+      await checkServerKeyAccess(requestFrom("https://shots.example.com"), ENV)
+    ).toBe(null);
+  });
+
+  it("asks everyone else for the API token", async () => {
+    for (const request of [
+      requestFrom("null"),
+      requestFrom("https://www.figma.com"),
+      requestFrom(),
+      requestFrom("null", { Authorization: "Bearer guess" }),
+    ]) {
+      const refused = await checkServerKeyAccess(request, ENV);
+      expect(refused?.status).toBe(401);
+    }
+    const withToken = requestFrom("null", { Authorization: `Bearer ${TOKEN}` });
+    expect(await checkServerKeyAccess(withToken, ENV)).toBe(null);
+  });
+
+  it("refuses them while API_TOKEN isn't set", async () => {
+    const refused = await checkServerKeyAccess(requestFrom("null"), {
+      ...ENV,
+      API_TOKEN: "",
+    });
+    expect(refused?.status).toBe(401);
+  });
+});
+
+describe("handleScreenshot", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("doesn't capture with the server's keys for a null origin without the token", async () => {
+    const provider = vi.fn(() => Promise.resolve(new Response("image")));
+    vi.stubGlobal("fetch", provider);
+
+    const refused = await handleScreenshot(requestFrom("null"), ENV);
+    expect(refused.status).toBe(401);
+    expect(provider).not.toHaveBeenCalled();
+
+    const ownKey = await handleScreenshot(
+      requestFrom("null", { "X-Capture-Access-Key": "user-key" }),
+      ENV
+    );
+    expect(ownKey.status).toBe(200);
+    const [apiUrl] = provider.mock.calls[0] as unknown as [string];
+    expect(new URL(apiUrl).searchParams.get("access_key")).toBe("user-key");
+  });
+});
+
+describe("corsPreflight", () => {
+  it("answers the plugin with its own origin", () => {
+    const response = corsPreflight(requestFrom("null"), "POST");
+    expect(response.status).toBe(204);
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe("null");
+    expect(response.headers.get("Access-Control-Allow-Methods")).toBe("POST");
+    expect(response.headers.get("Access-Control-Allow-Headers")).toMatch(
+      "Authorization"
+    );
+    expect(response.headers.get("Vary")).toBe("Origin");
+  });
+
+  it("refuses other sites without CORS headers", () => {
+    const response = corsPreflight(requestFrom("https://evil.example"), "POST");
+    expect(response.status).toBe(403);
+    expect(response.headers.has("Access-Control-Allow-Origin")).toBe(false);
+  });
+});
+
+describe("withCors", () => {
+  it("never allows every origin", async () => {
+    const response = withCors(
+      requestFrom("https://www.figma.com"),
+      new Response("image", { status: 200, headers: { "Retry-After": "1" } })
+    );
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://www.figma.com"
+    );
+    expect(response.headers.get("Access-Control-Expose-Headers")).toBe(
+      "Retry-After"
+    );
+    expect(await response.text()).toBe("image");
+  });
+
+  it("leaves same-origin responses alone", () => {
+    const response = withCors(requestFrom(), new Response(null));
+    expect(response.headers.has("Access-Control-Allow-Origin")).toBe(false);
+  });
+});
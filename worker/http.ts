@@ -0,0 +1,143 @@
+export function jsonError(status: number, error: string): Response {
+  return Response.json({ error }, { status });
+}
+
+export function methodNotAllowed(allow: string): Response {
+  return new Response(null, { status: 405, headers: { Allow: allow } });
+}
+
+// Compare every byte of the digests, so the time taken doesn't depend on
+// the tokens' lengths or where they first differ
+async function tokensMatch(sent: string, expected: string): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const [sentDigest, expectedDigest] = await Promise.all(
+    [sent, expected].map(
+      async (token) =>
+        new Uint8Array(
+          await crypto.subtle.digest("SHA-256", encoder.encode(token))
+        )
+    )
+  );
+  let differences = 0;
+  for (const [i, byte] of sentDigest.entries()) {
+    differences += byte === expectedDigest[i] ? 0 : 1;
+  }
+  return differences === 0;
+}
+
+// Routes that store captures take the API_TOKEN secret as a bearer token,
+// and stay off until it's set. Returns an error response, or null to go on.
+export async function checkApiToken(
+  request: Request,
+  env: Env
+): Promise<Response | null> {
+  if (!env.API_TOKEN) {
+    return jsonError(403, "Set the API_TOKEN secret to turn on this route");
+  }
+  const authorization = request.headers.get("Authorization") ?? "";
+  const [scheme, token] = authorization.split(" ");
+  if (
+    scheme === "Bearer" &&
+    token &&
+    (await tokensMatch(token, env.API_TOKEN))
+  ) {
+    return null;
+  }
+  return Response.json(
+    { error: "Send the API token as Authorization: Bearer <token>" },
+    { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+  );
+}
+
+// The Figma plugin's UI runs in an iframe with an opaque ("null") origin, or
+// figma.com's in the browser. Browsers may only call routes that capture
+// from those and the app's own pages. Any sandboxed page can send "null",
+// though, so only the app's pages get the server's keys for free (see
+// checkServerKeyAccess). Retry-After isn't readable cross-origin unless
+// exposed.
+const PLUGIN_ORIGINS = new Set([
+  "null",
+  "https://www.figma.com",
+  "https://figma.com",
+]);
+
+function isSameOrigin(request: Request): boolean {
+  return request.headers.get("Origin") === new URL(request.url).origin;
+}
+
+export function isAllowedOrigin(request: Request): boolean {
+  const origin = request.headers.get("Origin");
+  return origin === null || isSameOrigin(request) || PLUGIN_ORIGINS.has(origin);
+}
+
+// Browsers send the app's origin with its POSTs. Everyone else, from the
+// Figma plugin to scripts sending no Origin at all, needs the API token to
+// capture with the server's keys rather than their own. Returns an error
+// response, or null to go on.
+export async function checkServerKeyAccess(
+  request: Request,
+  env: Env
+): Promise<Response | null> {
+  if (isSameOrigin(request)) {
+    return null;
+  }
+  const refused = await checkApiToken(request, env);
+  if (!refused) {
+    return null;
+  }
+  return Response.json(
+    {
+      error:
+        "Outside the app, send your own access key or the API token as Authorization: Bearer <token> to use the server's keys",
+    },
+    { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+  );
+}
+
+// Sent back to the allowed origin only, so caches keep responses apart
+function corsHeaders(request: Request): Record<string, string> {
+  const origin = request.headers.get("Origin");
+  if (!origin) {
+    return {};
+  }
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Expose-Headers": "Retry-After",
+    Vary: "Origin",
+  };
+}
+
+export function refuseOrigin(): Response {
+  return jsonError(
+    403,
+    "Only the app and its Figma plugin can call this route from a browser"
+  );
+}
+
+export function corsPreflight(request: Request, allow: string): Response {
+  if (!isAllowedOrigin(request)) {
+    return refuseOrigin();
+  }
+  return new Response(null, {
+    status: 204,
+    headers: {
+      ...corsHeaders(request),
+      "Access-Control-Allow-Methods": allow,
+      "Access-Control-Allow-Headers":
+        "Authorization, Content-Type, X-Capture-Access-Key, X-Capture-Secret-Key",
+      "Access-Control-Max-Age": "86400",
+    },
+  });
+}
+
+export function withCors(request: Request, response: Response): Response {
+  const headers = new Headers(response.headers);
+  for (const [name, value] of Object.entries(corsHeaders(request))) {
+    headers.set(name, value);
+  }
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
@@ -0,0 +1,69 @@
+import { CAPTURE_API_ROUTE } from "@/lib/capture-api";
+import { handleCaptureApi } from "./capture-api";
+import {
+  corsPreflight,
+  isAllowedOrigin,
+  jsonError,
+  refuseOrigin,
+  withCors,
+} from "./http";
+import {
+  CAPTURES_ROUTE,
+  handleCaptureFile,
+  handleCaptureQueue,
+  handleJobs,
+  type PageMessage,
+  runDueJobs,
+} from "./jobs";
+import { handleOpenApi, OPENAPI_ROUTE } from "./openapi";
+import { handleScreenshot } from "./screenshot";
+import { handleSitemap } from "./sitemap";
+
+export default {
+  fetch(request, env) {
+    const { pathname } = new URL(request.url);
+
+    if (pathname === "/api/screenshot") {
+      // Called cross-origin by the Figma plugin, and no other site
+      if (request.method === "OPTIONS") {
+        return corsPreflight(request, "POST");
+      }
+      if (!isAllowedOrigin(request)) {
+        return refuseOrigin();
+      }
+      return handleScreenshot(request, env).then((response) =>
+        withCors(request, response)
+      );
+    }
+    if (pathname === "/api/sitemap") {
+      return handleSitemap(request);
+    }
+    if (pathname === "/api/jobs" || pathname.startsWith("/api/jobs/")) {
+      return handleJobs(request, env);
+    }
+    if (
+      pathname === CAPTURE_API_ROUTE ||
+      pathname.startsWith(`${CAPTURE_API_ROUTE}/`)
+    ) {
+      return handleCaptureApi(request, env);
+    }
+    if (pathname === OPENAPI_ROUTE) {
+      return handleOpenApi(request);
+    }
+    if (pathname.startsWith(CAPTURES_ROUTE)) {
+      return handleCaptureFile(request, env);
+    }
+
+    return jsonError(404, `No route for ${pathname}`);
+  },
+
+  // Cron trigger from wrangler.jsonc: start runs of the scheduled capture
+  // jobs, whose pages are then captured from the queue
+  scheduled(controller, env, ctx) {
+    ctx.waitUntil(runDueJobs(env, new Date(controller.scheduledTime)));
+  },
+
+  queue(batch, env) {
+    return handleCaptureQueue(batch, env);
+  },
+} satisfies ExportedHandler<Env, PageMessage>;
@@ -0,0 +1,395 @@
+import { Miniflare } from "miniflare";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  type CaptureJob,
+  type CaptureJobInput,
+  type JobRun,
+  jobRunsPrefix,
+  runKey,
+} from "@/lib/schedules";
+import { DEFAULT_SCREENSHOT_OPTIONS } from "@/lib/screenshot-options";
+import { decodeImage, encodeImage } from "./codec";
+import {
+  captureQueuedPage,
+  handleCaptureFile,
+  handleJobs,
+  type PageMessage,
+  runDueJobs,
+} from "./jobs";
+
+const ORIGIN = "https://shots.example.com";
+const TOKEN = "test-token";
+const PAGE_WIDTH = 200;
+const PAGE_HEIGHT = 2500;
+
+// Jobs run against Miniflare's R2 bucket and queue. The queue's consumer
+// hands each message back to this process, which captures the page like
+// the Worker's queue handler.
+let mf: Miniflare;
+let env: Env;
+let providerCalls: string[] = [];
+let pagePng: ArrayBuffer;
+
+// Stands in for ScreenshotOne: pages with "broken" in the URL fail, ones
+// with "stuck" never answer, and anything else is a tall white PNG
+function takeScreenshot(
+  apiUrl: URL,
+  signal: AbortSignal | null | undefined
+): Promise<Response> | Response {
+  const page = apiUrl.searchParams.get("url") ?? "";
+  providerCalls.push(page);
+  if (page.includes("stuck")) {
+    return new Promise((_, reject) => {
+      signal?.addEventListener("abort", () => reject(signal.reason));
+    });
+  }
+  if (page.includes("broken")) {
+    return Response.json(
+      { is_successful: false, error_code: "internal_error" },
+      { status: 500 }
+    );
+  }
+  return new Response(pagePng, { headers: { "Content-Type": "image/png" } });
+}
+
+function call(
+  path: string,
+  { token = TOKEN, ...init }: RequestInit & { token?: string | null } = {}
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+  return handleJobs(new Request(`${ORIGIN}${path}`, { ...init, headers }), env);
+}
+
+async function createJob(input: Partial<CaptureJobInput>): Promise<CaptureJob> {
+  const response = await call("/api/jobs", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      name: "Homepages",
+      urls: ["https://example.com/"],
+      options: { ...DEFAULT_SCREENSHOT_OPTIONS, sectionHeight: "1000" },
+      interval: "daily",
+      ...input,
+    }),
+  });
+  if (response.status !== 201) {
+    throw new Error(`Couldn't create the job: ${await response.text()}`);
+  }
+  return response.json();
+}
+
+async function readRun(jobId: string, runId: string): Promise<JobRun | null> {
+  const object = await env.CAPTURES.get(runKey(jobId, runId));
+  return object ? object.json<JobRun>() : null;
+}
+
+// Poll run.json until the queue has been through every page
+async function waitForRun(jobId: string, runId: string): Promise<JobRun> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const run = await readRun(jobId, runId);
+    if (run?.finishedAt) {
+      return run;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error(`Run ${runId} didn't finish`);
+}
+
+beforeAll(async () => {
+  const white = new Uint8ClampedArray(PAGE_WIDTH * PAGE_HEIGHT * 4).fill(255);
+  pagePng = await encodeImage(
+    { data: white, width: PAGE_WIDTH, height: PAGE_HEIGHT },
+    "png"
+  );
+
+  mf = new Miniflare({
+    modules: true,
+    script: `export default {
+      async queue(batch, env) {
+        for (const message of batch.messages) {
+          await env.RUNNER.fetch("http://runner/", {
+            method: "POST",
+            body: JSON.stringify(message.body),
+          });
+          message.ack();
+        }
+      },
+    };`,
+    r2Buckets: ["CAPTURES"],
+    queueProducers: { CAPTURE_QUEUE: "screenshotgun-captures" },
+    queueConsumers: { "screenshotgun-captures": { maxBatchSize: 1 } },
+    serviceBindings: {
+      RUNNER: async (request) => {
+        await captureQueuedPage(env, (await request.json()) as PageMessage);
+        return new Response(null, { status: 204 });
+      },
+    },
+  });
+  env = {
+    SCREENSHOTONE_ACCESS_KEY: "server-key",
+    SCREENSHOTONE_SECRET_KEY: "",
+    APIFLASH_ACCESS_KEY: "",
+    API_TOKEN: TOKEN,
+    CAPTURES: await mf.getR2Bucket("CAPTURES"),
+    CAPTURE_QUEUE: await mf.getQueueProducer("CAPTURE_QUEUE"),
+  } as unknown as Env;
+
+  const realFetch = globalThis.fetch;
+  vi.stubGlobal("fetch", (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    return url.hostname === "api.screenshotone.com"
+      ? Promise.resolve(takeScreenshot(url, init?.signal))
+      : realFetch(input, init);
+  });
+});
+
+// Each test waits for its runs, so nothing is left in the queue
+afterEach(async () => {
+  providerCalls = [];
+  const jobs: CaptureJob[] = await (await call("/api/jobs")).json();
+  for (const job of jobs) {
+    await call(`/api/jobs/${job.id}`, { method: "DELETE" });
+  }
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await mf.dispose();
+});
+
+describe("handleJobs", () => {
+  it("asks for the API token on every route", async () => {
+    const missing = await call("/api/jobs", { token: null });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("WWW-Authenticate")).toBe("Bearer");
+
+    const wrong = await call("/api/jobs/some-job/run", {
+      method: "POST",
+      token: "guess",
+    });
+    expect(wrong.status).toBe(401);
+  });
+
+  it("stays off until API_TOKEN is set", async () => {
+    const response = await handleJobs(
+      new Request(`${ORIGIN}/api/jobs`, {
+        headers: { Authorization: "Bearer " },
+      }),
+      { ...env, API_TOKEN: "" }
+    );
+    expect(response.status).toBe(403);
+  });
+
+  it("creates, lists and deletes jobs", async () => {
+    const job = await createJob({ name: "Pricing" });
+    const listed: CaptureJob[] = await (await call("/api/jobs")).json();
+    expect(listed.map(({ id }) => id)).toContain(job.id);
+
+    const deleted = await call(`/api/jobs/${job.id}`, { method: "DELETE" });
+    expect(deleted.status).toBe(204);
+    const remaining: CaptureJob[] = await (await call("/api/jobs")).json();
+    expect(remaining.map(({ id }) => id)).not.toContain(job.id);
+  });
+
+  it("refuses invalid jobs", async () => {
+    const response = await call("/api/jobs", {
+      method: "POST",
+      body: JSON.stringify({ name: "Empty", urls: [], interval: "daily" }),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it("refuses options the job's provider can't capture", async () => {
+    const response = await call("/api/jobs", {
+      method: "POST",
+      body: JSON.stringify({
+        name: "Phones",
+        urls: ["https://example.com/"],
+        options: { ...DEFAULT_SCREENSHOT_OPTIONS, devicePreset: "ipad" },
+        provider: "apiflash",
+        interval: "daily",
+      }),
+    });
+    expect(response.status).toBe(400);
+    const { error } = await response.json<{ error: string }>();
+    expect(error).toMatch("ApiFlash has no named devices");
+  });
+});
+
+describe("job runs", () => {
+  it("records the run before any page is captured", async () => {
+    const job = await createJob({
+      urls: ["https://example.com/", "https://example.com/broken"],
+    });
+    const response = await call(`/api/jobs/${job.id}/run`, { method: "POST" });
+    expect(response.status).toBe(202);
+    const started: JobRun = await response.json();
+    expect(started.finishedAt).toBeNull();
+    expect(started.captures.map(({ status }) => status)).toEqual([
+      "pending",
+      "pending",
+    ]);
+    await waitForRun(job.id, started.id);
+  });
+
+  it("captures each page from the queue and stores its sections", async () => {
+    const job = await createJob({
+      urls: ["https://example.com/", "https://example.com/broken"],
+    });
+    const started: JobRun = await (
+      await call(`/api/jobs/${job.id}/run`, { method: "POST" })
+    ).json();
+    const run = await waitForRun(job.id, started.id);
+
+    const [page, broken] = run.captures;
+    expect(page.status).toBe("captured");
+    expect(page.contentType).toBe("image/png");
+    expect(
+      page.sections.map(({ index, offsetY, height }) => ({
+        index,
+        offsetY,
+        height,
+      }))
+    ).toEqual([
+      { index: 1, offsetY: 0, height: 1000 },
+      { index: 2, offsetY: 1000, height: 1000 },
+      { index: 3, offsetY: 2000, height: 500 },
+    ]);
+    expect(broken).toMatchObject({ status: "failed", sections: [] });
+    expect(broken.error).toBeTruthy();
+
+    // Read from the bucket, as writeHttpMetadata can't cross Miniflare's
+    // proxy to Node
+    const file = await env.CAPTURES.get(page.sections[2].key);
+    expect(file?.httpMetadata?.contentType).toBe("image/png");
+    const section = await decodeImage(
+      await (file as R2ObjectBody).arrayBuffer(),
+      "png"
+    );
+    expect([section.width, section.height]).toEqual([PAGE_WIDTH, 500]);
+  });
+
+  it("lists runs newest first, including ones in progress", async () => {
+    const job = await createJob({});
+    const first: JobRun = await (
+      await call(`/api/jobs/${job.id}/run`, { method: "POST" })
+    ).json();
+    await waitForRun(job.id, first.id);
+    const second: JobRun = await (
+      await call(`/api/jobs/${job.id}/run`, { method: "POST" })
+    ).json();
+
+    const runs: JobRun[] = await (
+      await call(`/api/jobs/${job.id}/runs`)
+    ).json();
+    expect(runs.map(({ id }) => id)).toEqual([second.id, first.id]);
+    await waitForRun(job.id, second.id);
+  });
+
+  it("fails pages the provider doesn't answer in time", async () => {
+    // Shorten the deadline from the capture timeout plus a margin
+    const timeout = AbortSignal.timeout.bind(AbortSignal);
+    const deadline = vi
+      .spyOn(AbortSignal, "timeout")
+      .mockImplementation(() => timeout(50));
+    try {
+      const job = await createJob({ urls: ["https://example.com/stuck"] });
+      const started: JobRun = await (
+        await call(`/api/jobs/${job.id}/run`, { method: "POST" })
+      ).json();
+      const run = await waitForRun(job.id, started.id);
+      expect(run.captures[0]).toMatchObject({
+        status: "failed",
+        error: "ScreenshotOne didn't answer within 90s",
+      });
+    } finally {
+      deadline.mockRestore();
+    }
+  });
+
+  it("skips pages already captured when a message comes again", async () => {
+    const job = await createJob({});
+    const started: JobRun = await (
+      await call(`/api/jobs/${job.id}/run`, { method: "POST" })
+    ).json();
+    const run = await waitForRun(job.id, started.id);
+    providerCalls = [];
+
+    await captureQueuedPage(env, { jobId: job.id, runId: run.id, index: 0 });
+    expect(providerCalls).toEqual([]);
+    expect(await readRun(job.id, run.id)).toEqual(run);
+  });
+
+  it("drops pages of deleted jobs", async () => {
+    const job = await createJob({});
+    const started: JobRun = await (
+      await call(`/api/jobs/${job.id}/run`, { method: "POST" })
+    ).json();
+    await waitForRun(job.id, started.id);
+    await call(`/api/jobs/${job.id}`, { method: "DELETE" });
+    providerCalls = [];
+
+    await captureQueuedPage(env, {
+      jobId: job.id,
+      runId: started.id,
+      index: 0,
+    });
+    expect(providerCalls).toEqual([]);
+    const { objects } = await env.CAPTURES.list({
+      prefix: jobRunsPrefix(job.id),
+    });
+    expect(objects).toEqual([]);
+  });
+});
+
+describe("handleCaptureFile", () => {
+  it("answers 404 for keys that aren't valid escapes", async () => {
+    const response = await handleCaptureFile(
+      new Request(`${ORIGIN}/api/captures/runs/%E0`),
+      env
+    );
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("runDueJobs", () => {
+  it("starts runs of the jobs due that day", async () => {
+    // 2026-10-19 is a Monday
+    const monday = new Date("2026-10-19T06:00:00Z");
+    const daily = await createJob({ name: "Daily" });
+    const onMonday = await createJob({
+      name: "Mondays",
+      interval: "weekly",
+      weekday: 1,
+    });
+    const onFriday = await createJob({
+      name: "Fridays",
+      interval: "weekly",
+      weekday: 5,
+    });
+
+    await runDueJobs(env, monday);
+
+    const runsOf = async (job: CaptureJob): Promise<JobRun[]> =>
+      (await call(`/api/jobs/${job.id}/runs`)).json();
+    const [dailyRuns, mondayRuns, fridayRuns] = await Promise.all(
+      [daily, onMonday, onFriday].map(runsOf)
+    );
+    expect(dailyRuns).toHaveLength(1);
+    expect(mondayRuns).toHaveLength(1);
+    expect(fridayRuns).toEqual([]);
+    await waitForRun(daily.id, dailyRuns[0].id);
+    await waitForRun(onMonday.id, mondayRuns[0].id);
+  });
+});
@@ -0,0 +1,372 @@
+import { explainFailedResponse, getProvider } from "@/lib/providers";
+import {
+  type CaptureJob,
+  createRunId,
+  isJobDue,
+  JOBS_PREFIX,
+  JobError,
+  type JobRun,
+  jobKey,
+  jobRunsPrefix,
+  MAX_LISTED_RUNS,
+  RUNS_PREFIX,
+  type RunCapture,
+  type RunSection,
+  runKey,
+  sectionKey,
+  validateJobInput,
+} from "@/lib/schedules";
+import {
+  DEFAULT_SCREENSHOT_OPTIONS,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+import { checkApiToken, jsonError, methodNotAllowed } from "./http";
+import { buildCaptureUrl, getServerCredentials } from "./screenshot";
+import { saveSections } from "./sections";
+
+// Top-level regex for better performance
+const JOB_ROUTE_REGEX = /^\/api\/jobs(?:\/([\w-]+)(?:\/(run|runs))?)?$/;
+
+export const CAPTURES_ROUTE = "/api/captures/";
+
+// The provider gives up after the capture's own timeout; allow this much
+// longer for the upload before the page fails
+const PROVIDER_MARGIN_SECONDS = 30;
+
+async function readJson<T>(bucket: R2Bucket, key: string): Promise<T | null> {
+  const object = await bucket.get(key);
+  return object ? object.json<T>() : null;
+}
+
+function isPresent<T>(value: T | null): value is T {
+  return value !== null;
+}
+
+async function listJobs(bucket: R2Bucket): Promise<CaptureJob[]> {
+  const { objects } = await bucket.list({ prefix: JOBS_PREFIX });
+  const jobs = await Promise.all(
+    objects.map((object) => readJson<CaptureJob>(bucket, object.key))
+  );
+  return jobs
+    .filter(isPresent)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Newest runs first; run IDs start with the time, so their prefixes sort
+async function listRuns(bucket: R2Bucket, jobId: string): Promise<JobRun[]> {
+  const prefix = jobRunsPrefix(jobId);
+  const { delimitedPrefixes } = await bucket.list({ prefix, delimiter: "/" });
+  const runIds = delimitedPrefixes
+    .map((runPrefix) => runPrefix.slice(prefix.length, -1))
+    .sort()
+    .reverse()
+    .slice(0, MAX_LISTED_RUNS);
+  const runs = await Promise.all(
+    runIds.map((runId) => readJson<JobRun>(bucket, runKey(jobId, runId)))
+  );
+  return runs.filter(isPresent);
+}
+
+async function deleteJob(bucket: R2Bucket, jobId: string) {
+  await bucket.delete(jobKey(jobId));
+  // Runs go too; R2 deletes at most 1000 keys per call
+  let cursor: string | undefined;
+  do {
+    const listing = await bucket.list({ prefix: jobRunsPrefix(jobId), cursor });
+    if (listing.objects.length > 0) {
+      await bucket.delete(listing.objects.map((object) => object.key));
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+}
+
+// Queued for each page of a run; the consumer finds the rest in run.json
+export interface PageMessage {
+  jobId: string;
+  runId: string;
+  index: number;
+}
+
+async function saveRun(bucket: R2Bucket, run: JobRun) {
+  await bucket.put(runKey(run.jobId, run.id), JSON.stringify(run), {
+    httpMetadata: { contentType: "application/json" },
+  });
+}
+
+// Seconds to wait for the provider's answer to a capture with these options
+function getProviderDeadline(options: ScreenshotOptions): number {
+  const timeout =
+    Number(options.timeout) || Number(DEFAULT_SCREENSHOT_OPTIONS.timeout);
+  return timeout + PROVIDER_MARGIN_SECONDS;
+}
+
+// Capture one page of a run with the deployment's keys, then split it and
+// store its sections the way the capture API does
+async function capturePage(
+  env: Env,
+  run: JobRun,
+  index: number
+): Promise<RunCapture> {
+  const { url } = run.captures[index];
+  const failed = (error: string): RunCapture => ({
+    url,
+    status: "failed",
+    contentType: null,
+    sections: [],
+    error,
+  });
+  const provider = getProvider(run.provider);
+  const credentials = getServerCredentials(env, provider.id);
+  const deadline = getProviderDeadline(run.options);
+
+  try {
+    const apiUrl = await buildCaptureUrl(
+      provider,
+      url,
+      run.options,
+      credentials,
+      Boolean(credentials.secretKey) && provider.capabilities.signedRequests
+    );
+    if (apiUrl instanceof Response) {
+      const { error } = await apiUrl.json<{ error: string }>();
+      return failed(error);
+    }
+
+    // Also bounds reading the body, which the sections are split from
+    const response = await fetch(apiUrl.toString(), {
+      signal: AbortSignal.timeout(deadline * 1000),
+    });
+    if (!response.ok) {
+      const { message } = await explainFailedResponse(
+        provider,
+        response,
+        run.options
+      );
+      return failed(message);
+    }
+
+    const saved = await saveSections<RunSection>(
+      await response.arrayBuffer(),
+      response.headers.get("Content-Type"),
+      run.options,
+      async (file, bounds, contentType) => {
+        const key = sectionKey(
+          run.jobId,
+          run.id,
+          index,
+          url,
+          run.options,
+          bounds.index
+        );
+        await env.CAPTURES.put(key, file, { httpMetadata: { contentType } });
+        return { ...bounds, key, size: file.byteLength };
+      }
+    );
+    if (saved instanceof Response) {
+      const { error } = await saved.json<{ error: string }>();
+      return failed(error);
+    }
+    const { contentType, sections } = saved;
+    return { url, status: "captured", contentType, sections, error: null };
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "TimeoutError") {
+      return failed(`${provider.name} didn't answer within ${deadline}s`);
+    }
+    return failed(error instanceof Error ? error.message : "Capture failed");
+  }
+}
+
+// Record a run with every page pending and queue a message per page, so a
+// run isn't cut short by the request or cron that started it
+export async function startRun(env: Env, job: CaptureJob): Promise<JobRun> {
+  const startedAt = new Date();
+  const run: JobRun = {
+    id: createRunId(startedAt),
+    jobId: job.id,
+    jobName: job.name,
+    options: job.options,
+    provider: job.provider,
+    startedAt: startedAt.toISOString(),
+    finishedAt: null,
+    captures: job.urls.map((url) => ({
+      url,
+      status: "pending",
+      contentType: null,
+      sections: [],
+      error: null,
+    })),
+  };
+  await saveRun(env.CAPTURES, run);
+  await env.CAPTURE_QUEUE.sendBatch(
+    job.urls.map((_, index) => ({
+      body: { jobId: job.id, runId: run.id, index } satisfies PageMessage,
+    }))
+  );
+  return run;
+}
+
+// Capture a queued page and record it in run.json, finishing the run with
+// its last page. The consumer takes one message at a time (see
+// wrangler.jsonc), which keeps within the provider's concurrency limits and
+// lets each page update run.json in turn. Pages of deleted jobs, and pages
+// already done when a message is redelivered, are skipped.
+export async function captureQueuedPage(
+  env: Env,
+  { jobId, runId, index }: PageMessage
+) {
+  const run = await readJson<JobRun>(env.CAPTURES, runKey(jobId, runId));
+  if (run?.captures[index]?.status !== "pending") {
+    return;
+  }
+  const capture = await capturePage(env, run, index);
+  const captures = run.captures.map((page, i) =>
+    i === index ? capture : page
+  );
+  const finished = captures.every((page) => page.status !== "pending");
+  await saveRun(env.CAPTURES, {
+    ...run,
+    captures,
+    finishedAt: finished ? new Date().toISOString() : null,
+  });
+}
+
+// Consumer of the capture queue: one page per message
+export async function handleCaptureQueue(
+  batch: MessageBatch<PageMessage>,
+  env: Env
+) {
+  for (const message of batch.messages) {
+    await captureQueuedPage(env, message.body);
+    message.ack();
+  }
+}
+
+// Start a run of every job due at the cron's scheduled time
+export async function runDueJobs(env: Env, scheduledTime: Date) {
+  const jobs = await listJobs(env.CAPTURES);
+  for (const job of jobs.filter((j) => isJobDue(j, scheduledTime))) {
+    await startRun(env, job);
+  }
+}
+
+async function createJob(request: Request, env: Env): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError(400, "Request body must be valid JSON");
+  }
+
+  try {
+    const job: CaptureJob = {
+      ...validateJobInput(body),
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    await env.CAPTURES.put(jobKey(job.id), JSON.stringify(job), {
+      httpMetadata: { contentType: "application/json" },
+    });
+    return Response.json(job, { status: 201 });
+  } catch (error) {
+    if (error instanceof JobError) {
+      return jsonError(400, error.message);
+    }
+    throw error;
+  }
+}
+
+async function handleJob(
+  request: Request,
+  env: Env,
+  jobId: string,
+  action: string | undefined
+): Promise<Response> {
+  const job = await readJson<CaptureJob>(env.CAPTURES, jobKey(jobId));
+  if (!job) {
+    return jsonError(404, "No such job");
+  }
+
+  if (action === "runs") {
+    return request.method === "GET"
+      ? Response.json(await listRuns(env.CAPTURES, jobId))
+      : methodNotAllowed("GET");
+  }
+  if (action === "run") {
+    if (request.method !== "POST") {
+      return methodNotAllowed("POST");
+    }
+    // The pages are captured from the queue after the response
+    return Response.json(await startRun(env, job), { status: 202 });
+  }
+  if (request.method !== "DELETE") {
+    return methodNotAllowed("DELETE");
+  }
+  await deleteJob(env.CAPTURES, jobId);
+  return new Response(null, { status: 204 });
+}
+
+// /api/jobs: list and create jobs. /api/jobs/:id: delete one.
+// /api/jobs/:id/run: start a run now. /api/jobs/:id/runs: past runs.
+// Every route takes the API_TOKEN secret, as jobs spend the server's keys.
+export async function handleJobs(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const unauthorized = await checkApiToken(request, env);
+  if (unauthorized) {
+    return unauthorized;
+  }
+  const match = JOB_ROUTE_REGEX.exec(new URL(request.url).pathname);
+  if (!match) {
+    return jsonError(404, "No such job route");
+  }
+  const [, jobId, action] = match;
+  if (jobId) {
+    return handleJob(request, env, jobId, action);
+  }
+
+  if (request.method === "GET") {
+    return Response.json(await listJobs(env.CAPTURES), {
+      headers: { "Cache-Control": "no-store" },
+    });
+  }
+  if (request.method === "POST") {
+    return createJob(request, env);
+  }
+  return methodNotAllowed("GET, POST");
+}
+
+// Serve a stored section from a run, e.g.
+// /api/captures/runs/<job>/<run>/1-example-com-19-10-2026-section-1.png.
+// Keys hold the job's random ID, which only the token's holders can list.
+export async function handleCaptureFile(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  if (request.method !== "GET") {
+    return methodNotAllowed("GET");
+  }
+  let key: string;
+  try {
+    key = decodeURIComponent(
+      new URL(request.url).pathname.slice(CAPTURES_ROUTE.length)
+    );
+  } catch {
+    // Malformed escapes can't name a stored key
+    return jsonError(404, "No such capture");
+  }
+  if (!key.startsWith(RUNS_PREFIX)) {
+    return jsonError(404, "No such capture");
+  }
+
+  const object = await env.CAPTURES.get(key);
+  if (!object) {
+    return jsonError(404, "No such capture");
+  }
+  const headers = new Headers();
+  object.writeHttpMetadata(headers);
+  // Stored captures never change
+  headers.set("Cache-Control", "private, max-age=31536000, immutable");
+  headers.set("ETag", object.httpEtag);
+  return new Response(object.body, { headers });
+}
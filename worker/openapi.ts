@@ -0,0 +1,212 @@
+import { z } from "zod";
+import {
+  CAPTURE_API_ROUTE,
+  captureRequestSchema,
+  MAX_SERVER_SPLIT_PIXELS,
+} from "@/lib/capture-api";
+import { methodNotAllowed } from "./http";
+
+export const OPENAPI_ROUTE = "/api/openapi.json";
+
+const errorSchema = {
+  type: "object",
+  required: ["error"],
+  properties: {
+    error: { type: "string" },
+    code: { type: "string", description: "The provider's error code" },
+    hint: { type: "string", description: "What to change before retrying" },
+    documentationUrl: { type: "string" },
+  },
+};
+
+const sectionSchema = {
+  type: "object",
+  required: ["index", "filename", "url", "offsetY", "width", "height", "size"],
+  properties: {
+    index: { type: "integer", minimum: 1 },
+    filename: {
+      type: "string",
+      example: "example-pricing-29-06-2025-section-1.png",
+    },
+    url: { type: "string", format: "uri" },
+    offsetY: {
+      type: "integer",
+      description: "Where the section starts on the page, in pixels",
+    },
+    width: { type: "integer", nullable: true },
+    height: { type: "integer", nullable: true },
+    size: { type: "integer", description: "File size in bytes" },
+  },
+};
+
+const captureSchema = {
+  type: "object",
+  required: [
+    "id",
+    "url",
+    "provider",
+    "format",
+    "capturedAt",
+    "width",
+    "height",
+    "options",
+    "sections",
+  ],
+  properties: {
+    id: { type: "string" },
+    url: { type: "string" },
+    provider: { type: "string" },
+    format: { type: "string" },
+    capturedAt: { type: "string", format: "date-time" },
+    width: { type: "integer", nullable: true },
+    height: { type: "integer", nullable: true },
+    options: {
+      type: "object",
+      description: "The options the capture was taken with, defaults included",
+    },
+    sections: {
+      type: "array",
+      items: { $ref: "#/components/schemas/Section" },
+    },
+  },
+};
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: {
+      "application/json": {
+        schema: { $ref: "#/components/schemas/Error" },
+      },
+    },
+  };
+}
+
+const idParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: { type: "string" },
+};
+
+// The capture API's OpenAPI description; the request body schema comes from
+// the same zod schema that validates it
+export const OPENAPI_DOCUMENT = {
+  openapi: "3.0.3",
+  info: {
+    title: "Screenshotgun capture API",
+    version: "1.0.0",
+    description: `Capture a page and split it into sections on the server, the same way the app does. Full-page PNG, JPEG and WebP captures are split, and other captures are kept whole as one section. PNGs are split a section at a time, so width × sectionHeight must stay under ${MAX_SERVER_SPLIT_PIXELS.toLocaleString("en")} pixels; JPEG and WebP captures must fit that many pixels in all. Creating a capture takes the server's API_TOKEN as a bearer token. Pass X-Capture-Access-Key (and X-Capture-Secret-Key for signed requests) to use your own provider keys instead of the server's.`,
+  },
+  paths: {
+    [CAPTURE_API_ROUTE]: {
+      post: {
+        summary: "Capture and split a page",
+        security: [{ apiToken: [] }],
+        parameters: [
+          {
+            name: "X-Capture-Access-Key",
+            in: "header",
+            required: false,
+            schema: { type: "string" },
+          },
+          {
+            name: "X-Capture-Secret-Key",
+            in: "header",
+            required: false,
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/CaptureRequest" },
+            },
+          },
+        },
+        responses: {
+          201: {
+            description: "The capture and its sections",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Capture" },
+              },
+            },
+          },
+          400: errorResponse("The request body or options aren't valid"),
+          401: errorResponse(
+            "A missing or wrong API token, or no access key for the provider"
+          ),
+          403: errorResponse("The server has no API_TOKEN set"),
+          413: errorResponse("The capture is too large to split on the server"),
+          429: errorResponse("The provider's rate limit; see Retry-After"),
+          502: errorResponse("The provider failed or couldn't be reached"),
+        },
+      },
+    },
+    [`${CAPTURE_API_ROUTE}/{id}`]: {
+      get: {
+        summary: "A stored capture and its sections",
+        parameters: [idParameter],
+        responses: {
+          200: {
+            description: "The capture and its sections",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Capture" },
+              },
+            },
+          },
+          404: errorResponse("No such capture"),
+        },
+      },
+    },
+    [`${CAPTURE_API_ROUTE}/{id}/sections/{n}`]: {
+      get: {
+        summary: "One section's image",
+        parameters: [
+          idParameter,
+          {
+            name: "n",
+            in: "path",
+            required: true,
+            schema: { type: "integer", minimum: 1 },
+          },
+        ],
+        responses: {
+          200: {
+            description: "The section, in the capture's format",
+            content: {
+              "image/png": {},
+              "image/jpeg": {},
+              "image/webp": {},
+            },
+          },
+          404: errorResponse("No such section"),
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      CaptureRequest: z.toJSONSchema(captureRequestSchema, {
+        target: "openapi-3.0",
+        io: "input",
+      }),
+      Capture: captureSchema,
+      Section: sectionSchema,
+      Error: errorSchema,
+    },
+    securitySchemes: {
+      apiToken: { type: "http", scheme: "bearer" },
+    },
+  },
+};
+
+export function handleOpenApi(request: Request): Response {
+  if (request.method !== "GET") {
+    return methodNotAllowed("GET");
+  }
+  return Response.json(OPENAPI_DOCUMENT);
+}
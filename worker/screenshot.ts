@@ -0,0 +1,221 @@
+import { z } from "zod";
+import { describeIssue, screenshotOptionsShape } from "@/lib/options-schema";
+import {
+  DEFAULT_PROVIDER_ID,
+  findUnsupportedOption,
+  getProvider,
+  isProviderId,
+  type ProviderId,
+  type ScreenshotProvider,
+} from "@/lib/providers";
+import {
+  DEFAULT_SCREENSHOT_OPTIONS,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+import { isValidUrl, normalizeUrl } from "@/lib/url";
+import { checkServerKeyAccess, jsonError, methodNotAllowed } from "./http";
+
+// Lets users bring their own keys when the deployment has no secrets configured
+const ACCESS_KEY_HEADER = "X-Capture-Access-Key";
+const SECRET_KEY_HEADER = "X-Capture-Secret-Key";
+
+// Env entries that hold secrets rather than bindings
+type SecretName = Exclude<keyof Env, "CAPTURES" | "CAPTURE_QUEUE">;
+
+// Worker secrets holding each provider's keys
+const SERVER_KEYS: Record<
+  ProviderId,
+  { accessKey: SecretName; secretKey?: SecretName }
+> = {
+  screenshotone: {
+    accessKey: "SCREENSHOTONE_ACCESS_KEY",
+    secretKey: "SCREENSHOTONE_SECRET_KEY",
+  },
+  apiflash: { accessKey: "APIFLASH_ACCESS_KEY" },
+};
+
+// Any subset of the app's options; missing ones take the defaults
+const requestOptionsSchema = z.object(screenshotOptionsShape).partial();
+
+interface ScreenshotRequestBody {
+  url?: unknown;
+  options?: unknown;
+  provider?: unknown;
+  signed?: unknown;
+}
+
+interface ScreenshotRequest {
+  url: string;
+  options: ScreenshotOptions;
+  provider: ScreenshotProvider;
+  signed: boolean;
+}
+
+export interface Credentials {
+  accessKey: string;
+  secretKey: string;
+}
+
+// The deployment's own keys for a provider, from Worker secrets
+export function getServerCredentials(
+  env: Env,
+  provider: ProviderId
+): Credentials {
+  const { accessKey, secretKey } = SERVER_KEYS[provider];
+  return {
+    accessKey: env[accessKey] ?? "",
+    secretKey: secretKey ? (env[secretKey] ?? "") : "",
+  };
+}
+
+// A user-supplied access key belongs to a different account than the
+// deployment's secrets, so keys are never mixed between the two sources
+export function resolveCredentials(
+  request: Request,
+  env: Env,
+  provider: ProviderId
+): Credentials {
+  const userAccessKey = request.headers.get(ACCESS_KEY_HEADER)?.trim();
+  if (userAccessKey) {
+    return {
+      accessKey: userAccessKey,
+      secretKey: request.headers.get(SECRET_KEY_HEADER)?.trim() ?? "",
+    };
+  }
+  return getServerCredentials(env, provider);
+}
+
+// Build the provider request for a capture, signed when asked. Returns an
+// error response when the keys don't allow it.
+export async function buildCaptureUrl(
+  provider: ScreenshotProvider,
+  url: string,
+  options: ScreenshotOptions,
+  { accessKey, secretKey }: Credentials,
+  signed: boolean
+): Promise<URL | Response> {
+  if (!accessKey) {
+    return jsonError(
+      401,
+      `No ${provider.name} access key is configured on the server. Set the ${SERVER_KEYS[provider.id].accessKey} secret or enter your own key.`
+    );
+  }
+
+  const apiUrl = provider.buildRequestUrl(url, accessKey, options);
+  if (!signed) {
+    return apiUrl;
+  }
+  if (!provider.signRequestUrl) {
+    return jsonError(
+      400,
+      `${provider.name} doesn't support signed requests; turn them off or pick another provider`
+    );
+  }
+  if (!secretKey) {
+    return jsonError(
+      400,
+      `Signed requests need a ${provider.name} secret key. Set the ${SERVER_KEYS[provider.id].secretKey} secret or enter your own secret key.`
+    );
+  }
+  return await provider.signRequestUrl(apiUrl, secretKey);
+}
+
+async function parseScreenshotRequest(
+  request: Request
+): Promise<ScreenshotRequest | Response> {
+  let body: ScreenshotRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonError(400, "Request body must be valid JSON");
+  }
+
+  if (typeof body.url !== "string" || !isValidUrl(body.url)) {
+    return jsonError(
+      400,
+      "Please enter a valid URL (e.g., https://example.com or example.com)"
+    );
+  }
+
+  const providerId = body.provider ?? DEFAULT_PROVIDER_ID;
+  if (!isProviderId(providerId)) {
+    return jsonError(400, `Unknown capture provider: ${String(providerId)}`);
+  }
+  const provider = getProvider(providerId);
+
+  const parsedOptions = requestOptionsSchema.safeParse(body.options ?? {});
+  if (!parsedOptions.success) {
+    return jsonError(
+      400,
+      `Invalid options: ${describeIssue(parsedOptions.error)}`
+    );
+  }
+  const options = { ...DEFAULT_SCREENSHOT_OPTIONS, ...parsedOptions.data };
+  const unsupported = findUnsupportedOption(provider, options);
+  if (unsupported) {
+    return jsonError(400, unsupported);
+  }
+
+  return {
+    url: normalizeUrl(body.url),
+    options,
+    provider,
+    signed: body.signed === true,
+  };
+}
+
+// Proxy a capture to the selected provider so the access key stays
+// server-side
+export async function handleScreenshot(request: Request, env: Env) {
+  if (request.method !== "POST") {
+    return methodNotAllowed("POST");
+  }
+  // Callers bringing their own key don't spend the server's
+  if (!request.headers.get(ACCESS_KEY_HEADER)?.trim()) {
+    const refused = await checkServerKeyAccess(request, env);
+    if (refused) {
+      return refused;
+    }
+  }
+
+  const parsed = await parseScreenshotRequest(request);
+  if (parsed instanceof Response) {
+    return parsed;
+  }
+  const { provider } = parsed;
+
+  const apiUrl = await buildCaptureUrl(
+    provider,
+    parsed.url,
+    parsed.options,
+    resolveCredentials(request, env, provider.id),
+    parsed.signed
+  );
+  if (apiUrl instanceof Response) {
+    return apiUrl;
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(apiUrl.toString(), { signal: request.signal });
+  } catch {
+    // Reported as a gateway error so the browser knows it's worth a retry
+    return jsonError(502, `Couldn't reach ${provider.name}`);
+  }
+
+  // Stream the image (or the provider's error body) straight back
+  const headers = new Headers({ "Cache-Control": "no-store" });
+  // Content-Length lets the browser show download progress, and
+  // Retry-After tells it when to try again after a rate limit
+  for (const name of ["Content-Type", "Content-Length", "Retry-After"]) {
+    const value = upstream.headers.get(name);
+    if (value) {
+      headers.set(name, value);
+    }
+  }
+  return new Response(upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers,
+  });
+}
@@ -0,0 +1,143 @@
+import { MAX_SERVER_SPLIT_PIXELS } from "@/lib/capture-api";
+import { createPngRowReader } from "@/lib/png-rows";
+import {
+  isSplitCapture,
+  type ScreenshotOptions,
+} from "@/lib/screenshot-options";
+import {
+  getSectionEncoding,
+  getSplitSettings,
+  type PixelSection,
+  type RowReader,
+  splitPixels,
+  splitRows,
+} from "@/lib/split";
+import {
+  decodeImage,
+  encodeImage,
+  type ImageSize,
+  readImageSize,
+} from "./codec";
+import { jsonError } from "./http";
+
+// Where a section sits in the full capture
+export interface SectionBounds {
+  index: number;
+  offsetY: number;
+  // Null for formats the Worker can't read the size of (PDF, MP4)
+  width: number | null;
+  height: number | null;
+}
+
+// Saves one section's file and returns the caller's record of it
+export type SaveSection<T> = (
+  data: ArrayBuffer,
+  bounds: SectionBounds,
+  contentType: string
+) => Promise<T>;
+
+export interface SavedSections<T> {
+  // Size of the whole capture, when the Worker can read it
+  size: ImageSize | null;
+  contentType: string;
+  sections: T[];
+}
+
+// Cut a capture into sections with the same plan as the app's splitter,
+// saving each one as soon as it's encoded. PNGs are read a section at a
+// time when `rows` can stream them; anything else is decoded whole.
+async function splitImage<T>(
+  data: ArrayBuffer,
+  rows: RowReader | null,
+  options: ScreenshotOptions,
+  save: (data: ArrayBuffer, bounds: SectionBounds) => Promise<T>
+): Promise<T[]> {
+  const { quality } = getSectionEncoding(options);
+  const settings = getSplitSettings(options);
+  const encodeAndSave = async ({
+    image: section,
+    index,
+    offsetY,
+  }: PixelSection) => {
+    const encoded = await encodeImage(section, options.format, quality);
+    return save(encoded, {
+      index,
+      offsetY,
+      width: section.width,
+      height: section.height,
+    });
+  };
+  if (rows) {
+    return splitRows(rows, settings, encodeAndSave);
+  }
+  const image = await decodeImage(data, options.format);
+  return splitPixels(image, settings, encodeAndSave);
+}
+
+// An error response for shots too large to decode in a Worker: streamed
+// PNGs are held a section at a time, other images whole
+function checkSplittable(
+  options: ScreenshotOptions,
+  size: ImageSize | null,
+  rows: RowReader | null
+): Response | null {
+  if (!size) {
+    return jsonError(502, "The capture provider returned an unreadable image");
+  }
+  const limit = MAX_SERVER_SPLIT_PIXELS.toLocaleString("en");
+  if (rows) {
+    const { sectionHeight } = getSplitSettings(options);
+    const bandHeight = Math.min(sectionHeight + 1, size.height);
+    return size.width * bandHeight > MAX_SERVER_SPLIT_PIXELS
+      ? jsonError(
+          413,
+          `The capture is ${size.width} pixels wide, so ${sectionHeight}px sections are more than the ${limit} pixels the Worker can split at once. Lower sectionHeight, deviceScaleFactor or viewportWidth.`
+        )
+      : null;
+  }
+  if (size.width * size.height > MAX_SERVER_SPLIT_PIXELS) {
+    return jsonError(
+      413,
+      `The capture is ${size.width} × ${size.height} pixels, more than the ${limit} the Worker can split. Capture a PNG, which is split a section at a time, lower deviceScaleFactor or viewportWidth, set fullPage to false, or capture one element with selector.`
+    );
+  }
+  return null;
+}
+
+// Save a provider's capture as sections, like the app's splitCapture:
+// full-page and element PNG/JPEG/WebP shots are split, and anything else is
+// saved whole as one section. Returns an error response when the capture
+// can't be split.
+export async function saveSections<T>(
+  data: ArrayBuffer,
+  upstreamType: string | null,
+  options: ScreenshotOptions,
+  save: SaveSection<T>
+): Promise<SavedSections<T> | Response> {
+  const size = readImageSize(data);
+  if (!isSplitCapture(options)) {
+    const contentType = upstreamType ?? "application/octet-stream";
+    const section = await save(
+      data,
+      {
+        index: 1,
+        offsetY: 0,
+        width: size?.width ?? null,
+        height: size?.height ?? null,
+      },
+      contentType
+    );
+    return { size, contentType, sections: [section] };
+  }
+
+  const rows = options.format === "png" ? createPngRowReader(data) : null;
+  const refused = checkSplittable(options, size, rows);
+  if (refused) {
+    return refused;
+  }
+  const { type: contentType } = getSectionEncoding(options);
+  const sections = await splitImage(data, rows, options, (file, bounds) =>
+    save(file, bounds, contentType)
+  );
+  return { size, contentType, sections };
+}
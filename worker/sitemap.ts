@@ -0,0 +1,131 @@
+import {
+  discoverSitemapUrls,
+  isSitemapXml,
+  resolveSitemapUrl,
+} from "@/lib/sitemap";
+import { isValidUrl } from "@/lib/url";
+import { jsonError, methodNotAllowed } from "./http";
+
+const GZIP_CONTENT_TYPES = ["application/gzip", "application/x-gzip"];
+
+// Sitemaps are XML, sometimes gzipped or served as plain text or a bare
+// file. Anything else (HTML, images, JSON) isn't fetched any further, so
+// the route can't be used to pull arbitrary content through the Worker.
+const SITEMAP_CONTENT_TYPES = [
+  "xml",
+  ...GZIP_CONTENT_TYPES,
+  "text/plain",
+  "application/octet-stream",
+];
+
+// Per sitemap file, after decompression. The protocol allows 50 MB, but a
+// Worker has 128 MB in all; real sitemaps are far smaller.
+const MAX_SITEMAP_BYTES = 10 * 1024 * 1024;
+
+function isSitemapContentType(contentType: string): boolean {
+  return (
+    contentType === "" ||
+    SITEMAP_CONTENT_TYPES.some((type) => contentType.includes(type))
+  );
+}
+
+function tooLarge(url: string): Error {
+  return new Error(
+    `${url} is larger than ${MAX_SITEMAP_BYTES / 1024 / 1024} MB, too big to read as a sitemap`
+  );
+}
+
+// Read a body as text, giving up once it passes MAX_SITEMAP_BYTES
+async function readLimitedText(
+  body: ReadableStream<Uint8Array>,
+  url: string
+): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return text + decoder.decode();
+    }
+    size += value.byteLength;
+    if (size > MAX_SITEMAP_BYTES) {
+      await reader.cancel();
+      throw tooLarge(url);
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+async function fetchSitemapText(url: string): Promise<string> {
+  const { protocol } = new URL(url);
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw new Error(`${url} isn't an http(s) URL`);
+  }
+  const response = await fetch(url, {
+    headers: {
+      Accept: "application/xml, text/xml;q=0.9, */*;q=0.8",
+      "User-Agent": "Screenshotgun sitemap crawler",
+    },
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Couldn't fetch ${url} (${response.status} ${response.statusText})`
+    );
+  }
+
+  const contentType = (response.headers.get("Content-Type") ?? "")
+    .toLowerCase()
+    .trim();
+  if (!isSitemapContentType(contentType)) {
+    await response.body?.cancel();
+    throw new Error(`${url} isn't a sitemap (${contentType})`);
+  }
+  if (Number(response.headers.get("Content-Length")) > MAX_SITEMAP_BYTES) {
+    await response.body?.cancel();
+    throw tooLarge(url);
+  }
+  if (!response.body) {
+    return "";
+  }
+
+  // .xml.gz sitemaps served as files rather than with Content-Encoding
+  const body = GZIP_CONTENT_TYPES.some((type) => contentType.includes(type))
+    ? response.body.pipeThrough(new DecompressionStream("gzip"))
+    : response.body;
+  const text = await readLimitedText(body, url);
+  if (!isSitemapXml(text)) {
+    throw new Error(`${url} isn't a sitemap`);
+  }
+  return text;
+}
+
+// Fetch a site's sitemap (following sitemap indexes) on the server so the
+// browser isn't blocked by CORS
+export async function handleSitemap(request: Request) {
+  if (request.method !== "GET") {
+    return methodNotAllowed("GET");
+  }
+
+  const target = new URL(request.url).searchParams.get("url") ?? "";
+  if (!isValidUrl(target)) {
+    return jsonError(
+      400,
+      "Please enter a valid URL (e.g., https://example.com or example.com)"
+    );
+  }
+
+  const sitemapUrl = resolveSitemapUrl(target);
+  try {
+    const discovery = await discoverSitemapUrls(sitemapUrl, fetchSitemapText);
+    return Response.json(discovery, {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    return jsonError(
+      502,
+      error instanceof Error ? error.message : `Couldn't fetch ${sitemapUrl}`
+    );
+  }
+}
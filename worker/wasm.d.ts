@@ -0,0 +1,6 @@
+// The Cloudflare Vite plugin compiles .wasm?module imports ahead of time;
+// Workers can't compile WebAssembly from bytes at runtime
+declare module "*.wasm?module" {
+  const wasmModule: WebAssembly.Module;
+  export default wasmModule;
+}